@@ -15,11 +15,15 @@ import {
   flattenGenericChildren,
   resetRefState,
   refMap,
+  handleSnapshot,
+  diffTrees,
+  resetSnapshotBaseline,
 } from '../content-handlers.js';
 
 beforeEach(() => {
   document.body.innerHTML = '';
   resetRefState();
+  resetSnapshotBaseline();
 });
 
 // ============================================================
@@ -150,6 +154,12 @@ describe('isInteractive', () => {
     expect(isInteractive(el)).toBe(true);
   });
 
+  it('returns true for draggable elements', () => {
+    const el = document.createElement('div');
+    el.setAttribute('draggable', 'true');
+    expect(isInteractive(el)).toBe(true);
+  });
+
   it('returns true for tabindex >= 0', () => {
     const el = document.createElement('div');
     el.setAttribute('tabindex', '0');
@@ -733,3 +743,197 @@ describe('buildNode', () => {
     expect(node!.level).toBe(2);
   });
 });
+
+// ============================================================
+// diffTrees / snapshot diff mode
+// ============================================================
+
+describe('diffTrees', () => {
+  it('returns no changes for identical trees', () => {
+    const tree = { role: 'document', name: '', children: [{ role: 'button', name: 'OK', ref: 'e0' }] };
+    expect(diffTrees(tree, structuredClone(tree))).toEqual([]);
+  });
+
+  it('reports added and removed siblings with their parent path', () => {
+    const prev = {
+      role: 'document', name: '',
+      children: [{
+        role: 'main', name: '',
+        children: [{ role: 'text', name: 'Loading' }, { role: 'button', name: 'OK' }],
+      }],
+    };
+    const next = {
+      role: 'document', name: '',
+      children: [{
+        role: 'main', name: '',
+        children: [{ role: 'button', name: 'OK' }, { role: 'link', name: 'Next' }],
+      }],
+    };
+    expect(diffTrees(prev, next)).toEqual([
+      { kind: 'removed', path: ['main'], node: { role: 'text', name: 'Loading' } },
+      { kind: 'added', path: ['main'], node: { role: 'link', name: 'Next' } },
+    ]);
+  });
+
+  it('reports state and value changes on matched nodes', () => {
+    const prev = { role: 'document', name: '', children: [{ role: 'checkbox', name: 'Agree', checked: false }] };
+    const next = { role: 'document', name: '', children: [{ role: 'checkbox', name: 'Agree', checked: true }] };
+    const changes = diffTrees(prev, next);
+    expect(changes).toHaveLength(1);
+    expect(changes[0].kind).toBe('changed');
+    expect(changes[0].node.checked).toBe(true);
+    expect(changes[0].previous!.checked).toBe(false);
+  });
+
+  it('includes the whole subtree of an added node', () => {
+    const prev = { role: 'document', name: '' };
+    const next = {
+      role: 'document', name: '',
+      children: [{ role: 'dialog', name: 'Confirm', children: [{ role: 'button', name: 'Yes' }] }],
+    };
+    const changes = diffTrees(prev, next);
+    expect(changes).toHaveLength(1);
+    expect(changes[0].node.children).toEqual([{ role: 'button', name: 'Yes' }]);
+  });
+});
+
+describe('handleSnapshot diff mode', () => {
+  it('returns the full tree when there is no previous snapshot', () => {
+    document.body.innerHTML = '<button>OK</button>';
+    const result = handleSnapshot({ diff: true });
+    expect(result.tree).toBeDefined();
+    expect(result.diff).toBeUndefined();
+  });
+
+  it('returns only changes relative to the previous snapshot', () => {
+    document.body.innerHTML = '<button>OK</button>';
+    handleSnapshot();
+    const p = document.createElement('p');
+    p.textContent = 'Saved';
+    document.body.appendChild(p);
+
+    const result = handleSnapshot({ diff: true });
+    expect(result.tree).toBeUndefined();
+    expect(result.diff).toEqual([
+      { kind: 'added', path: [], node: { role: 'text', name: 'Saved' } },
+    ]);
+  });
+});
+
+describe('handleSnapshot scoping', () => {
+  const page =
+    '<nav><a href="/a" id="nav-link">Nav</a></nav>' +
+    '<main><form id="f"><button id="go">Go</button></form><p>Body text</p></main>';
+
+  it('roots the tree at a selector', () => {
+    document.body.innerHTML = page;
+    const result = handleSnapshot({ selector: '#f' });
+    expect(result.scope).toBe('selector #f');
+    expect(result.tree!.children).toHaveLength(1);
+    expect(result.tree!.children![0].role).toBe('form');
+    expect(JSON.stringify(result.tree)).not.toContain('Nav');
+  });
+
+  it('roots the tree at a landmark', () => {
+    document.body.innerHTML = page;
+    const result = handleSnapshot({ landmark: 'navigation' });
+    expect(result.tree!.children![0].role).toBe('navigation');
+    expect(JSON.stringify(result.tree)).not.toContain('Body text');
+  });
+
+  it('roots the tree at a ref', () => {
+    document.body.innerHTML = page;
+    handleSnapshot();
+    const [ref] = [...refMap.entries()].find(([, el]) => el.id === 'go')!;
+    const result = handleSnapshot({ ref });
+    expect(result.tree!.children).toEqual([{ role: 'button', name: 'Go', ref }]);
+  });
+
+  it('keeps refs outside the scope valid', () => {
+    document.body.innerHTML = page;
+    handleSnapshot();
+    const navRef = [...refMap.entries()].find(([, el]) => el.id === 'nav-link')![0];
+    const result = handleSnapshot({ landmark: 'main' });
+    expect(result.retiredRefs).toBeUndefined();
+    expect(refMap.get(navRef)?.id).toBe('nav-link');
+  });
+
+  it('limits depth with maxDepth', () => {
+    document.body.innerHTML = page;
+    const result = handleSnapshot({ landmark: 'main', maxDepth: 0 });
+    const main = result.tree!.children![0];
+    expect(main.role).toBe('main');
+    expect(main.children).toBeUndefined();
+    expect(JSON.stringify(main)).not.toContain('ref');
+  });
+
+  it('throws when the scope root is missing', () => {
+    document.body.innerHTML = page;
+    expect(() => handleSnapshot({ selector: '#missing' })).toThrow('No element found');
+    expect(() => handleSnapshot({ landmark: 'contentinfo' })).toThrow('landmark');
+    expect(() => handleSnapshot({ maxDepth: -1 })).toThrow('maxDepth');
+  });
+});
+
+describe('handleSnapshot pagination', () => {
+  it('reports an untruncated snapshot with node counts', () => {
+    document.body.innerHTML = '<button>A</button><button>B</button>';
+    const result = handleSnapshot();
+    expect(result.truncated).toBe(false);
+    expect(result.cursor).toBeUndefined();
+    expect(result.nodeCount).toBe(2);
+    expect(result.totalNodes).toBe(2);
+  });
+
+  it('returns a cursor and continues from it without gaps or repeats', () => {
+    document.body.innerHTML =
+      '<button>A</button><button>B</button><button>C</button><button>D</button><button>E</button>';
+    const names: string[] = [];
+    let result = handleSnapshot({ maxNodes: 2 });
+    for (let page = 0; page < 5; page++) {
+      names.push(...(result.tree!.children ?? []).map((c) => c.name));
+      if (!result.truncated) break;
+      result = handleSnapshot({ maxNodes: 2, cursor: result.cursor });
+    }
+    expect(names).toEqual(['A', 'B', 'C', 'D', 'E']);
+  });
+
+  it('repeats ancestors of the resume point for context', () => {
+    document.body.innerHTML =
+      '<nav aria-label="Menu"><a href="/1">One</a><a href="/2">Two</a><a href="/3">Three</a></nav>';
+    const first = handleSnapshot({ maxNodes: 3 });
+    expect(first.truncated).toBe(true);
+    const second = handleSnapshot({ maxNodes: 3, cursor: first.cursor });
+    const nav = second.tree!.children![0];
+    expect(nav.role).toBe('navigation');
+    expect(nav.children!.map((c) => c.name)).toEqual(['Three']);
+  });
+
+  it('advances the cursor when the budget is smaller than the nesting depth', () => {
+    document.body.innerHTML =
+      '<main><section aria-label="Feed"><nav aria-label="Menu"><a href="/1">One</a><a href="/2">Two</a></nav></section></main>';
+    const cursors: string[] = [];
+    let result = handleSnapshot({ maxNodes: 1 });
+    for (let page = 0; page < 10 && result.truncated; page++) {
+      cursors.push(result.cursor!);
+      result = handleSnapshot({ maxNodes: 1, cursor: result.cursor });
+    }
+    expect(result.truncated).toBe(false);
+    // Every page starts further along than the one before
+    expect(new Set(cursors).size).toBe(cursors.length);
+    expect(JSON.stringify(result.tree)).toContain('Two');
+  });
+
+  it('keeps refs from earlier pages valid', () => {
+    document.body.innerHTML = '<button id="a">A</button><button id="b">B</button>';
+    const first = handleSnapshot({ maxNodes: 1 });
+    const refA = first.tree!.children![0].ref!;
+    const second = handleSnapshot({ maxNodes: 1, cursor: first.cursor });
+    expect(second.retiredRefs).toBeUndefined();
+    expect(refMap.get(refA)?.id).toBe('a');
+  });
+
+  it('rejects malformed cursors', () => {
+    expect(() => handleSnapshot({ cursor: 'abc' })).toThrow('Invalid snapshot cursor');
+  });
+});
@@ -2,26 +2,49 @@
  * @vitest-environment jsdom
  */
 import './setup.js';
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, afterAll, beforeAll, beforeEach, vi } from 'vitest';
 import {
   resolveRef,
   handleClick,
   handleType,
   handlePressKey,
   handleHover,
+  handleDrag,
+  handleScroll,
+  handleMouse,
+  resetMouseState,
   handleFillForm,
   handleSelectOption,
   handleEvaluate,
+  handleConsoleMessages,
+  resetConsoleCapture,
+  handleSocketFrames,
+  resetSocketCapture,
   handleWaitFor,
   handlePageContent,
+  handleSnapshot,
+  handleScreenshotRegion,
+  MAX_CAPTURE_DIMENSION,
+  handleScreenshot,
+  ANNOTATION_OVERLAY_ID,
   buildAccessibilityTree,
   resetRefState,
   refMap,
   keyToCode,
+  keyToKeyCode,
+  parseKeySequence,
   isContentRequest,
   makeResponse,
   processRequest,
 } from '../content-handlers.js';
+import {
+  FULFILL_HIT_EVENT,
+  consoleHookSource,
+  fulfillHookSource,
+  pageInjectionCode,
+  socketHookSource,
+} from '../page-hooks.js';
+import type { PageInterceptRule } from '../page-hooks.js';
 
 /**
  * Helper: build a snapshot so refMap gets populated, then return the ref
@@ -41,6 +64,20 @@ beforeEach(() => {
   vi.restoreAllMocks();
 });
 
+/**
+ * Helper: jsdom does no layout, so give every element the same non-empty box
+ * and let hit-testing report whichever element was measured last, i.e. the
+ * element being acted on is never covered unless a test says otherwise.
+ */
+function stubLayout(): void {
+  let measured: Element | null = null;
+  vi.spyOn(Element.prototype, 'getBoundingClientRect').mockImplementation(function (this: Element) {
+    measured = this;
+    return new DOMRect(10, 10, 100, 20);
+  });
+  document.elementFromPoint = () => measured;
+}
+
 // ============================================================
 // resolveRef
 // ============================================================
@@ -66,6 +103,45 @@ describe('resolveRef', () => {
     expect(() => resolveRef(ref)).toThrow('stale');
   });
 
+  it('keeps the same ref for an element across snapshots', () => {
+    document.body.innerHTML = '<button id="a">A</button><button id="b">B</button>';
+    const refB = snapshotAndGetRef('b');
+    const newButton = document.createElement('button');
+    newButton.id = 'c';
+    newButton.textContent = 'C';
+    document.body.prepend(newButton);
+    expect(snapshotAndGetRef('b')).toBe(refB);
+    expect(snapshotAndGetRef('c')).not.toBe(refB);
+    expect((resolveRef(refB) as HTMLElement).id).toBe('b');
+  });
+
+  it('reports a ref retired because its element was removed', () => {
+    document.body.innerHTML = '<button id="a">A</button><button id="b">B</button>';
+    const ref = snapshotAndGetRef('a');
+    document.getElementById('a')!.remove();
+    const result = handleSnapshot();
+    expect(result.retiredRefs).toEqual([ref]);
+    expect(() => resolveRef(ref)).toThrow('removed from the page');
+  });
+
+  it('reports a ref retired because its element is no longer shown', () => {
+    document.body.innerHTML = '<button id="a">A</button><button id="b">B</button>';
+    const ref = snapshotAndGetRef('a');
+    document.getElementById('a')!.setAttribute('hidden', '');
+    buildAccessibilityTree();
+    expect(() => resolveRef(ref)).toThrow('no longer appears in the snapshot');
+  });
+
+  it('restores a retired ref when the element comes back', () => {
+    document.body.innerHTML = '<button id="a">A</button>';
+    const ref = snapshotAndGetRef('a');
+    const el = document.getElementById('a')!;
+    el.setAttribute('hidden', '');
+    buildAccessibilityTree();
+    el.removeAttribute('hidden');
+    expect(snapshotAndGetRef('a')).toBe(ref);
+  });
+
   it('cleans up stale ref from refMap', () => {
     document.body.innerHTML = '<button id="btn">OK</button>';
     const ref = snapshotAndGetRef('btn');
@@ -80,7 +156,9 @@ describe('resolveRef', () => {
 // ============================================================
 
 describe('handleClick', () => {
-  it('dispatches pointer and mouse events', () => {
+  beforeEach(stubLayout);
+
+  it('dispatches pointer and mouse events', async () => {
     document.body.innerHTML = '<button id="btn">Click me</button>';
     const ref = snapshotAndGetRef('btn');
     const btn = document.getElementById('btn')!;
@@ -89,11 +167,26 @@ describe('handleClick', () => {
       btn.addEventListener(type, () => events.push(type));
     }
 
-    handleClick({ ref });
+    await handleClick({ ref });
     expect(events).toEqual(['pointerdown', 'mousedown', 'pointerup', 'mouseup', 'click']);
   });
 
-  it('dispatches dblclick for doubleClick option', () => {
+  it('sends pointer events from the primary mouse', async () => {
+    document.body.innerHTML = '<button id="btn">Click me</button>';
+    const ref = snapshotAndGetRef('btn');
+    const pointers: string[] = [];
+    for (const type of ['pointerdown', 'pointerup']) {
+      document.getElementById('btn')!.addEventListener(type, (e) => {
+        const p = e as PointerEvent;
+        pointers.push(`${type} ${p.pointerId} ${p.pointerType} ${p.isPrimary}`);
+      });
+    }
+
+    await handleClick({ ref });
+    expect(pointers).toEqual(['pointerdown 1 mouse true', 'pointerup 1 mouse true']);
+  });
+
+  it('dispatches dblclick for doubleClick option', async () => {
     document.body.innerHTML = '<button id="btn">Click me</button>';
     const ref = snapshotAndGetRef('btn');
     const btn = document.getElementById('btn')!;
@@ -101,45 +194,206 @@ describe('handleClick', () => {
     btn.addEventListener('click', () => events.push('click'));
     btn.addEventListener('dblclick', () => events.push('dblclick'));
 
-    handleClick({ ref, doubleClick: true });
+    await handleClick({ ref, doubleClick: true });
     // Should have 2 clicks + 1 dblclick
     expect(events.filter((e) => e === 'click')).toHaveLength(2);
     expect(events.filter((e) => e === 'dblclick')).toHaveLength(1);
   });
 
-  it('passes modifier keys to events', () => {
+  it('passes modifier keys to events', async () => {
     document.body.innerHTML = '<button id="btn">Click</button>';
     const ref = snapshotAndGetRef('btn');
     const btn = document.getElementById('btn')!;
     let capturedEvent: MouseEvent | null = null;
     btn.addEventListener('click', (e) => { capturedEvent = e; });
 
-    handleClick({ ref, modifiers: ['Control', 'Shift'] });
+    await handleClick({ ref, modifiers: ['Control', 'Shift'] });
     expect(capturedEvent!.ctrlKey).toBe(true);
     expect(capturedEvent!.shiftKey).toBe(true);
     expect(capturedEvent!.altKey).toBe(false);
   });
 
-  it('sets correct button code for right click', () => {
+  it('sets correct button code for right click', async () => {
     document.body.innerHTML = '<button id="btn">Click</button>';
     const ref = snapshotAndGetRef('btn');
     const btn = document.getElementById('btn')!;
     let capturedEvent: MouseEvent | null = null;
     btn.addEventListener('mousedown', (e) => { capturedEvent = e; });
 
-    handleClick({ ref, button: 'right' });
+    await handleClick({ ref, button: 'right' });
     expect(capturedEvent!.button).toBe(2);
   });
 
-  it('focuses the element after click', () => {
+  it('focuses the element after click', async () => {
     document.body.innerHTML = '<button id="btn">Click</button>';
     const ref = snapshotAndGetRef('btn');
-    handleClick({ ref });
+    await handleClick({ ref });
     expect(document.activeElement?.id).toBe('btn');
   });
 
-  it('throws for invalid ref', () => {
-    expect(() => handleClick({ ref: 'e999' })).toThrow('not found');
+  it('throws for invalid ref', async () => {
+    await expect(handleClick({ ref: 'e999' })).rejects.toThrow('not found');
+  });
+
+  it('waits for a disabled element to become enabled', async () => {
+    document.body.innerHTML = '<button id="btn" disabled>Save</button>';
+    const ref = snapshotAndGetRef('btn');
+    const btn = document.getElementById('btn') as HTMLButtonElement;
+    let clicked = false;
+    btn.addEventListener('click', () => { clicked = true; });
+    setTimeout(() => { btn.disabled = false; }, 200);
+
+    await handleClick({ ref });
+    expect(clicked).toBe(true);
+  });
+
+  it('names the element covering the target when it never clears', async () => {
+    document.body.innerHTML = '<button id="btn">Save</button><div id="overlay" class="modal backdrop"></div>';
+    const ref = snapshotAndGetRef('btn');
+    document.elementFromPoint = () => document.getElementById('overlay');
+    let clicked = false;
+    document.getElementById('btn')!.addEventListener('click', () => { clicked = true; });
+
+    vi.useFakeTimers();
+    try {
+      const click = expect(handleClick({ ref })).rejects.toThrow(
+        'is covered by <div#overlay.modal.backdrop>',
+      );
+      await vi.advanceTimersByTimeAsync(6000);
+      await click;
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(clicked).toBe(false);
+  });
+
+  it('hit-tests an element inside an open shadow root in its own tree', async () => {
+    document.body.innerHTML = '<x-toolbar id="bar"></x-toolbar>';
+    const host = document.getElementById('bar')!;
+    const shadow = host.attachShadow({ mode: 'open' });
+    shadow.innerHTML = '<button id="save">Save</button><div id="scrim"></div>';
+    const ref = snapshotAndGetRef('save');
+    const save = shadow.getElementById('save')!;
+    let clicked = false;
+    save.addEventListener('click', () => { clicked = true; });
+
+    // The document only sees the host; the shadow root sees the button
+    document.elementFromPoint = () => host;
+    const shadowHit = vi.fn((): Element | null => save);
+    Object.assign(shadow, { elementFromPoint: shadowHit });
+    await handleClick({ ref });
+    expect(clicked).toBe(true);
+    expect(shadowHit).toHaveBeenCalledWith(60, 20);
+
+    // Something else in the same shadow tree still covers it
+    shadowHit.mockReturnValue(shadow.getElementById('scrim'));
+    vi.useFakeTimers();
+    try {
+      const click = expect(handleClick({ ref })).rejects.toThrow('is covered by <div#scrim>');
+      await vi.advanceTimersByTimeAsync(6000);
+      await click;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('hit-tests an element inside a same-origin iframe, then the iframe at the offset point', async () => {
+    document.body.innerHTML = '<iframe id="frame" title="Checkout"></iframe>';
+    const frame = document.getElementById('frame') as HTMLIFrameElement;
+    const frameDoc = frame.contentDocument!;
+    frameDoc.body.innerHTML = '<button id="pay">Pay</button>';
+    const pay = frameDoc.getElementById('pay')!;
+    buildAccessibilityTree();
+    const ref = [...refMap.entries()].find(([, el]) => el === pay)![0];
+    // The frame's own layout: the button's center is at (25, 10) inside it
+    const frameWindow = frame.contentWindow as unknown as typeof globalThis;
+    vi.spyOn(frameWindow.Element.prototype, 'getBoundingClientRect').mockReturnValue(new DOMRect(5, 5, 40, 10));
+    let clicked = false;
+    pay.addEventListener('click', () => { clicked = true; });
+
+    const innerHit = vi.fn((): Element | null => pay);
+    const outerHit = vi.fn((): Element | null => frame);
+    frameDoc.elementFromPoint = innerHit;
+    document.elementFromPoint = outerHit;
+    await handleClick({ ref });
+    expect(clicked).toBe(true);
+    expect(innerHit).toHaveBeenCalledWith(25, 10);
+    // The iframe's box starts at (10, 10) in the top document
+    expect(outerHit).toHaveBeenCalledWith(35, 20);
+
+    // An overlay in the top document covers the whole frame
+    document.body.insertAdjacentHTML('beforeend', '<div id="overlay"></div>');
+    outerHit.mockReturnValue(document.getElementById('overlay'));
+    vi.useFakeTimers();
+    try {
+      const click = expect(handleClick({ ref })).rejects.toThrow('is covered by <div#overlay>');
+      await vi.advanceTimersByTimeAsync(6000);
+      await click;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reports elements that stay disabled or have no box', async () => {
+    document.body.innerHTML = '<button id="btn" aria-disabled="true">Save</button>';
+    const ref = snapshotAndGetRef('btn');
+
+    vi.useFakeTimers();
+    try {
+      const disabled = expect(handleClick({ ref })).rejects.toThrow(/is disabled\. Gave up after 5s/);
+      await vi.advanceTimersByTimeAsync(6000);
+      await disabled;
+
+      document.getElementById('btn')!.removeAttribute('aria-disabled');
+      vi.mocked(Element.prototype.getBoundingClientRect).mockReturnValue(new DOMRect(0, 0, 0, 0));
+      const empty = expect(handleClick({ ref })).rejects.toThrow('bounding box is empty');
+      await vi.advanceTimersByTimeAsync(6000);
+      await empty;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('reports an element that keeps moving', async () => {
+    document.body.innerHTML = '<button id="btn">Save</button>';
+    const ref = snapshotAndGetRef('btn');
+    let left = 0;
+    vi.mocked(Element.prototype.getBoundingClientRect).mockImplementation(
+      () => new DOMRect(left++, 10, 100, 20),
+    );
+
+    vi.useFakeTimers();
+    try {
+      const click = expect(handleClick({ ref })).rejects.toThrow('is not stable');
+      await vi.advanceTimersByTimeAsync(6000);
+      await click;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('only reports the screen point for trusted input', async () => {
+    document.body.innerHTML = '<button id="btn">Save</button>';
+    const ref = snapshotAndGetRef('btn');
+    Object.assign(window, { mozInnerScreenX: 100, mozInnerScreenY: 200 });
+    vi.spyOn(window, 'devicePixelRatio', 'get').mockReturnValue(2);
+    let clicked = false;
+    document.getElementById('btn')!.addEventListener('click', () => { clicked = true; });
+
+    // Box (10, 10, 100, 20) has its center at (60, 20) in the viewport
+    expect(await handleClick({ ref, input: 'trusted' })).toEqual({ screenX: 320, screenY: 440 });
+    expect(clicked).toBe(false);
+  });
+
+  it('skips the checks with force', async () => {
+    document.body.innerHTML = '<button id="btn" disabled>Save</button>';
+    const ref = snapshotAndGetRef('btn');
+    document.elementFromPoint = () => null;
+    const events: string[] = [];
+    document.getElementById('btn')!.addEventListener('mousedown', () => events.push('mousedown'));
+
+    await handleClick({ ref, force: true });
+    expect(events).toEqual(['mousedown']);
   });
 });
 
@@ -148,6 +402,8 @@ describe('handleClick', () => {
 // ============================================================
 
 describe('handleType', () => {
+  beforeEach(stubLayout);
+
   it('types text into an input element (fast mode)', async () => {
     document.body.innerHTML = '<input id="inp" type="text" />';
     const ref = snapshotAndGetRef('inp');
@@ -214,6 +470,37 @@ describe('handleType', () => {
     await expect(handleType({ ref, text: 'test' })).rejects.toThrow('not an editable element');
   });
 
+  it('refuses read-only and long-disabled fields', async () => {
+    document.body.innerHTML = '<input id="ro" readonly /><input id="off" disabled />';
+    const roRef = snapshotAndGetRef('ro');
+    const offRef = snapshotAndGetRef('off');
+    await expect(handleType({ ref: roRef, text: 'x' })).rejects.toThrow('is read-only');
+
+    vi.useFakeTimers();
+    try {
+      const typing = expect(handleType({ ref: offRef, text: 'x' })).rejects.toThrow(
+        'Cannot type into element ref',
+      );
+      await vi.advanceTimersByTimeAsync(6000);
+      await typing;
+    } finally {
+      vi.useRealTimers();
+    }
+    expect((document.getElementById('off') as HTMLInputElement).value).toBe('');
+  });
+
+  it('only focuses and selects the field for trusted input', async () => {
+    document.body.innerHTML = '<input id="inp" type="text" value="old" />';
+    const ref = snapshotAndGetRef('inp');
+    const inp = document.getElementById('inp') as HTMLInputElement;
+    const select = vi.spyOn(inp, 'select');
+
+    expect(await handleType({ ref, text: 'new', input: 'trusted' })).toEqual({});
+    expect(document.activeElement).toBe(inp);
+    expect(select).toHaveBeenCalled();
+    expect(inp.value).toBe('old');
+  });
+
   it('focuses the element before typing', async () => {
     document.body.innerHTML = '<input id="inp" type="text" />';
     const ref = snapshotAndGetRef('inp');
@@ -227,7 +514,7 @@ describe('handleType', () => {
 // ============================================================
 
 describe('handlePressKey', () => {
-  it('dispatches keydown and keyup (no deprecated keypress)', () => {
+  it('dispatches keydown and keyup (no deprecated keypress)', async () => {
     document.body.innerHTML = '<input id="inp" type="text" />';
     snapshotAndGetRef('inp');
     (document.getElementById('inp') as HTMLElement).focus();
@@ -237,11 +524,11 @@ describe('handlePressKey', () => {
     document.getElementById('inp')!.addEventListener('keypress', () => events.push('keypress'));
     document.getElementById('inp')!.addEventListener('keyup', () => events.push('keyup'));
 
-    handlePressKey({ key: 'Enter' });
+    await handlePressKey({ key: 'Enter' });
     expect(events).toEqual(['keydown', 'keyup']);
   });
 
-  it('sets correct key and code properties', () => {
+  it('sets correct key and code properties', async () => {
     document.body.innerHTML = '<input id="inp" type="text" />';
     snapshotAndGetRef('inp');
     (document.getElementById('inp') as HTMLElement).focus();
@@ -251,17 +538,172 @@ describe('handlePressKey', () => {
       capturedEvent = e;
     });
 
-    handlePressKey({ key: 'a' });
+    await handlePressKey({ key: 'a' });
     expect(capturedEvent!.key).toBe('a');
     expect(capturedEvent!.code).toBe('KeyA');
   });
 
-  it('dispatches to document body when nothing is focused', () => {
+  it('dispatches to document body when nothing is focused', async () => {
     const events: string[] = [];
     document.body.addEventListener('keydown', () => events.push('keydown'));
-    handlePressKey({ key: 'Escape' });
+    await handlePressKey({ key: 'Escape' });
     expect(events).toContain('keydown');
   });
+
+  it('presses a chord with modifier keydowns, flags and keyups in order', async () => {
+    const events: string[] = [];
+    for (const type of ['keydown', 'keypress', 'keyup']) {
+      document.body.addEventListener(type, (e) => {
+        const k = e as KeyboardEvent;
+        events.push(`${type} ${k.key}${k.ctrlKey ? ' ctrl' : ''}${k.shiftKey ? ' shift' : ''}`);
+      });
+    }
+
+    await handlePressKey({ key: 'Control+Shift+K' });
+    expect(events).toEqual([
+      'keydown Control ctrl',
+      'keydown Shift ctrl shift',
+      'keydown K ctrl shift',
+      'keyup K ctrl shift',
+      'keyup Shift ctrl',
+      'keyup Control',
+    ]);
+  });
+
+  it('gives printable keys a keypress and inserts their text at the caret', async () => {
+    document.body.innerHTML = '<input id="inp" type="text" value="ac" />';
+    const inp = document.getElementById('inp') as HTMLInputElement;
+    inp.focus();
+    inp.setSelectionRange(1, 1);
+    const events: string[] = [];
+    inp.addEventListener('keypress', (e) => events.push(`keypress ${(e as KeyboardEvent).charCode}`));
+    inp.addEventListener('beforeinput', (e) => events.push(`beforeinput ${(e as InputEvent).data}`));
+    inp.addEventListener('input', (e) => events.push(`input ${(e as InputEvent).data}`));
+    inp.addEventListener('keydown', (e) => events.push(`keydown ${(e as KeyboardEvent).keyCode}`));
+
+    await handlePressKey({ key: 'b' });
+    expect(inp.value).toBe('abc');
+    expect(events).toEqual(['keydown 66', 'keypress 98', 'beforeinput b', 'input b']);
+  });
+
+  it('does not insert text for shortcuts or cancelled keydowns', async () => {
+    document.body.innerHTML = '<textarea id="ta"></textarea>';
+    const ta = document.getElementById('ta') as HTMLTextAreaElement;
+    ta.focus();
+    await handlePressKey({ key: 'Control+a' });
+    expect(ta.value).toBe('');
+
+    ta.addEventListener('keydown', (e) => e.preventDefault(), { once: true });
+    await handlePressKey({ key: 'x' });
+    expect(ta.value).toBe('');
+  });
+
+  it('presses sequences and repeats them', async () => {
+    document.body.innerHTML = '<input id="inp" type="text" />';
+    const inp = document.getElementById('inp') as HTMLInputElement;
+    inp.focus();
+    const keys: string[] = [];
+    inp.addEventListener('keydown', (e) => keys.push((e as KeyboardEvent).key));
+
+    await handlePressKey({ key: 'a Space b', repeat: 2 });
+    expect(keys).toEqual(['a', ' ', 'b', 'a', ' ', 'b']);
+    expect(inp.value).toBe('a ba b');
+  });
+
+  it('holds a chord down for holdMs before releasing it', async () => {
+    vi.useFakeTimers();
+    try {
+      const events: string[] = [];
+      document.body.addEventListener('keydown', () => events.push('keydown'));
+      document.body.addEventListener('keyup', () => events.push('keyup'));
+
+      const press = handlePressKey({ key: 'ArrowDown', holdMs: 500 });
+      expect(events).toEqual(['keydown']);
+      await vi.advanceTimersByTimeAsync(500);
+      await press;
+      expect(events).toEqual(['keydown', 'keyup']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('returns the parsed chords for trusted input without dispatching', async () => {
+    const events: string[] = [];
+    document.body.addEventListener('keydown', () => events.push('keydown'));
+    expect(await handlePressKey({ key: 'Control+K Enter', repeat: 2, input: 'trusted' })).toEqual({
+      chords: [
+        { key: 'K', modifiers: ['Control'] },
+        { key: 'Enter', modifiers: [] },
+        { key: 'K', modifiers: ['Control'] },
+        { key: 'Enter', modifiers: [] },
+      ],
+    });
+    expect(events).toEqual([]);
+  });
+
+  it('rejects bad repeat and holdMs values', async () => {
+    await expect(handlePressKey({ key: 'a', repeat: 0 })).rejects.toThrow('repeat');
+    await expect(handlePressKey({ key: 'a', holdMs: 20_000 })).rejects.toThrow('holdMs');
+  });
+
+  it('rejects holds that add up to more than a command allows', async () => {
+    const events: string[] = [];
+    document.body.addEventListener('keydown', () => events.push('keydown'));
+    await expect(handlePressKey({ key: 'a b', repeat: 3, holdMs: 5000 })).rejects.toThrow('repeat or holdMs');
+    await expect(handlePressKey({ key: 'a', repeat: 3, holdMs: 10_000, input: 'trusted' })).rejects.toThrow('repeat or holdMs');
+    expect(events).toEqual([]);
+  });
+
+  it('applies Shift to characters, inserting the shifted character', async () => {
+    document.body.innerHTML = '<input id="inp" type="text" />';
+    const inp = document.getElementById('inp') as HTMLInputElement;
+    inp.focus();
+    const events: string[] = [];
+    for (const type of ['keydown', 'keypress', 'keyup']) {
+      inp.addEventListener(type, (e) => {
+        const k = e as KeyboardEvent;
+        events.push(`${type} ${k.key} ${k.code}${k.shiftKey ? ' shift' : ''}`);
+      });
+    }
+
+    await handlePressKey({ key: 'Shift+a' });
+    expect(inp.value).toBe('A');
+    expect(events).toEqual([
+      'keydown Shift ShiftLeft shift',
+      'keydown A KeyA shift',
+      'keypress A KeyA shift',
+      'keyup A KeyA shift',
+      'keyup Shift ShiftLeft',
+    ]);
+  });
+});
+
+// ============================================================
+// parseKeySequence
+// ============================================================
+
+describe('parseKeySequence', () => {
+  it('parses keys, chords and sequences', () => {
+    expect(parseKeySequence('Enter')).toEqual([{ key: 'Enter', modifiers: [] }]);
+    expect(parseKeySequence('Ctrl+Shift+k')).toEqual([{ key: 'k', modifiers: ['Control', 'Shift'] }]);
+    expect(parseKeySequence('Control+K Control+C')).toEqual([
+      { key: 'K', modifiers: ['Control'] },
+      { key: 'C', modifiers: ['Control'] },
+    ]);
+  });
+
+  it('handles the space and plus keys', () => {
+    expect(parseKeySequence(' ')).toEqual([{ key: ' ', modifiers: [] }]);
+    expect(parseKeySequence('Shift+Space')).toEqual([{ key: ' ', modifiers: ['Shift'] }]);
+    expect(parseKeySequence('+')).toEqual([{ key: '+', modifiers: [] }]);
+    expect(parseKeySequence('Control++')).toEqual([{ key: '+', modifiers: ['Control'] }]);
+  });
+
+  it('rejects unknown keys and modifiers', () => {
+    expect(() => parseKeySequence('hello')).toThrow('to enter text use browser_type');
+    expect(() => parseKeySequence('Hyper+a')).toThrow('Unknown modifier "Hyper"');
+    expect(() => parseKeySequence('')).toThrow('No key given');
+  });
 });
 
 // ============================================================
@@ -296,6 +738,22 @@ describe('keyToCode', () => {
     expect(keyToCode('ArrowLeft')).toBe('ArrowLeft');
     expect(keyToCode('Escape')).toBe('Escape');
   });
+
+  it('maps modifiers to their left-hand key', () => {
+    expect(keyToCode('Control')).toBe('ControlLeft');
+    expect(keyToCode('Shift')).toBe('ShiftLeft');
+  });
+});
+
+describe('keyToKeyCode', () => {
+  it('maps letters, digits, named keys and function keys', () => {
+    expect(keyToKeyCode('a')).toBe(65);
+    expect(keyToKeyCode('7')).toBe(55);
+    expect(keyToKeyCode('Enter')).toBe(13);
+    expect(keyToKeyCode('ArrowDown')).toBe(40);
+    expect(keyToKeyCode('F5')).toBe(116);
+    expect(keyToKeyCode('-')).toBe(173);
+  });
 });
 
 // ============================================================
@@ -324,6 +782,348 @@ describe('handleHover', () => {
   });
 });
 
+// ============================================================
+// handleDrag
+// ============================================================
+
+describe('handleDrag', () => {
+  beforeEach(stubLayout);
+
+  /** Record event types reaching the document, in order */
+  function recordEvents(types: string[]): string[] {
+    const events: string[] = [];
+    for (const type of types) {
+      document.addEventListener(type, (e) => events.push(`${type} ${(e.target as Element).id}`), {
+        capture: true,
+      });
+    }
+    return events;
+  }
+
+  it('runs the pointer and HTML5 sequences onto an accepting drop target', async () => {
+    document.body.innerHTML = '<div id="card" draggable="true">Card</div><div id="lane" tabindex="0" role="list">Done</div>';
+    const startRef = snapshotAndGetRef('card');
+    const endRef = snapshotAndGetRef('lane');
+    const card = document.getElementById('card')!;
+    const lane = document.getElementById('lane')!;
+    // The card is on top until it is picked up, then the pointer is over the lane
+    let pressed = false;
+    card.addEventListener('pointerdown', () => { pressed = true; });
+    document.elementFromPoint = () => (pressed ? lane : card);
+
+    card.addEventListener('dragstart', (e) => (e as DragEvent).dataTransfer!.setData('text/plain', 'card-1'));
+    lane.addEventListener('dragover', (e) => e.preventDefault());
+    let dropped = '';
+    lane.addEventListener('drop', (e) => { dropped = (e as DragEvent).dataTransfer!.getData('text/plain'); });
+    const events = recordEvents([
+      'pointerdown', 'mousedown', 'pointermove', 'mousemove', 'dragstart', 'drag',
+      'dragenter', 'dragover', 'dragleave', 'drop', 'dragend', 'pointerup', 'mouseup',
+    ]);
+
+    const result = await handleDrag({ startRef, endRef, steps: 1 });
+    expect(result).toEqual({ droppedOn: '<div#lane role="list">', html5Drag: true, dropAccepted: true });
+    expect(dropped).toBe('card-1');
+    expect(events).toEqual([
+      'pointerdown card', 'mousedown card',
+      'pointermove lane', 'mousemove lane',
+      'dragstart card', 'drag card', 'dragenter lane', 'dragover lane',
+      'drop lane', 'dragend card',
+      'pointerup lane', 'mouseup lane',
+    ]);
+  });
+
+  it('leaves instead of dropping when the target does not accept', async () => {
+    document.body.innerHTML = '<div id="card" draggable="true">Card</div><div id="lane" tabindex="0">Done</div>';
+    const startRef = snapshotAndGetRef('card');
+    const endRef = snapshotAndGetRef('lane');
+    const card = document.getElementById('card')!;
+    const lane = document.getElementById('lane')!;
+    let pressed = false;
+    card.addEventListener('pointerdown', () => { pressed = true; });
+    document.elementFromPoint = () => (pressed ? lane : card);
+    const events = recordEvents(['drop', 'dragleave', 'dragend']);
+
+    const result = await handleDrag({ startRef, endRef, steps: 2 });
+    expect(result.dropAccepted).toBe(false);
+    expect(events).toEqual(['dragleave lane', 'dragend card']);
+  });
+
+  it('moves the pointer by an offset in steps for elements that are not draggable', async () => {
+    document.body.innerHTML = '<button id="handle">Drag me</button>';
+    const startRef = snapshotAndGetRef('handle');
+    const moves: number[] = [];
+    document.addEventListener('pointermove', (e) => moves.push((e as MouseEvent).clientX));
+    const events = recordEvents(['dragstart', 'pointerup']);
+
+    // The stubbed box (10, 10, 100, 20) has its center at x = 60
+    const result = await handleDrag({ startRef, offsetX: 30, steps: 3 });
+    expect(moves).toEqual([70, 80, 90]);
+    expect(events).toEqual(['pointerup handle']);
+    expect(result).toEqual({ droppedOn: '<button#handle>', html5Drag: false });
+  });
+
+  it('sends pointer events from the primary mouse', async () => {
+    document.body.innerHTML = '<button id="handle">Drag me</button>';
+    const startRef = snapshotAndGetRef('handle');
+    const pointers: string[] = [];
+    for (const type of ['pointerdown', 'pointermove', 'pointerup']) {
+      document.getElementById('handle')!.addEventListener(type, (e) => {
+        const p = e as PointerEvent;
+        pointers.push(`${type} ${p.pointerId} ${p.pointerType} ${p.isPrimary}`);
+      });
+    }
+
+    await handleDrag({ startRef, offsetX: 0, steps: 1 });
+    expect(pointers).toEqual([
+      'pointerdown 1 mouse true',
+      'pointermove 1 mouse true',
+      'pointerup 1 mouse true',
+    ]);
+  });
+
+  it('needs a drop target or an offset', async () => {
+    document.body.innerHTML = '<button id="handle">Drag me</button>';
+    const startRef = snapshotAndGetRef('handle');
+    await expect(handleDrag({ startRef })).rejects.toThrow('Provide endRef');
+    await expect(handleDrag({ startRef, endRef: 'e999' })).rejects.toThrow('not found');
+  });
+});
+
+// ============================================================
+// handleScroll
+// ============================================================
+
+describe('handleScroll', () => {
+  /**
+   * Give a container a fake box: 100px tall, content 100px per child, and
+   * scrollTop clamped to the scrollable range the way a browser does.
+   * onScroll runs after every scrollTop change, standing in for the page's
+   * scroll listeners.
+   */
+  function makeScrollable(el: HTMLElement, onScroll?: () => void): void {
+    let top = 0;
+    const height = () => el.children.length * 100;
+    Object.defineProperty(el, 'clientHeight', { get: () => 100 });
+    Object.defineProperty(el, 'clientWidth', { get: () => 100 });
+    Object.defineProperty(el, 'scrollWidth', { get: () => 100 });
+    Object.defineProperty(el, 'scrollHeight', { get: height });
+    Object.defineProperty(el, 'scrollTop', {
+      get: () => top,
+      set: (v: number) => {
+        top = Math.max(0, Math.min(v, height() - 100));
+        onScroll?.();
+      },
+    });
+  }
+
+  function setupFeed(items: number, onScroll?: (feed: HTMLElement) => void): string {
+    document.body.innerHTML = `<div id="feed" role="feed" tabindex="0">${
+      '<article>Post</article>'.repeat(items)
+    }</div>`;
+    const feed = document.getElementById('feed')!;
+    makeScrollable(feed, onScroll && (() => onScroll(feed)));
+    return snapshotAndGetRef('feed');
+  }
+
+  it('scrolls a container by a delta and to its edges', async () => {
+    const containerRef = setupFeed(5);
+
+    let result = await handleScroll({ containerRef, deltaY: 150 });
+    expect(result).toEqual({
+      scrollLeft: 0, scrollTop: 150, scrollWidth: 100, scrollHeight: 500,
+      atBottom: false, contentGrew: false,
+    });
+
+    result = await handleScroll({ containerRef, to: 'bottom' });
+    expect(result.scrollTop).toBe(400);
+    expect(result.atBottom).toBe(true);
+
+    result = await handleScroll({ containerRef, to: 'top' });
+    expect(result.scrollTop).toBe(0);
+  });
+
+  it('scrolls an element into view', async () => {
+    document.body.innerHTML = '<button id="far">Far away</button>';
+    const ref = snapshotAndGetRef('far');
+    const spy = vi.spyOn(Element.prototype, 'scrollIntoView');
+    await handleScroll({ ref });
+    expect(spy).toHaveBeenCalledWith({ block: 'center', behavior: 'instant' });
+    expect(spy.mock.instances[0]).toBe(document.getElementById('far'));
+  });
+
+  it('keeps scrolling an infinite feed until nothing more loads', async () => {
+    // The page appends two posts shortly after each scroll, twice
+    let batches = 2;
+    const containerRef = setupFeed(3, (feed) => {
+      if (batches-- <= 0) return;
+      setTimeout(() => feed.insertAdjacentHTML('beforeend', '<article>Post</article>'.repeat(2)), 150);
+    });
+
+    vi.useFakeTimers();
+    try {
+      const pending = handleScroll({ containerRef, untilNoNewContent: true, waitMs: 500 });
+      await vi.advanceTimersByTimeAsync(2000);
+      const result = await pending;
+      expect(result.loads).toBe(2);
+      expect(result.contentGrew).toBe(true);
+      expect(result.scrollHeight).toBe(700);
+      expect(result.scrollTop).toBe(600);
+      expect(result.atBottom).toBe(true);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('stops after maxScrolls even if more content keeps coming', async () => {
+    const containerRef = setupFeed(3, (feed) => {
+      feed.insertAdjacentHTML('beforeend', '<article>Post</article>');
+    });
+
+    const result = await handleScroll({ containerRef, untilNoNewContent: true, maxScrolls: 2 });
+    expect(result.loads).toBe(2);
+  });
+
+  it('needs exactly one mode and a scrollable container', async () => {
+    const containerRef = setupFeed(5);
+    await expect(handleScroll({ containerRef })).rejects.toThrow('exactly one of');
+    await expect(handleScroll({ containerRef, deltaY: 10, to: 'top' })).rejects.toThrow('exactly one of');
+    await expect(
+      handleScroll({ containerRef, untilNoNewContent: true, maxScrolls: 0 }),
+    ).rejects.toThrow('maxScrolls');
+    await expect(
+      handleScroll({ containerRef, untilNoNewContent: true, maxScrolls: 30, waitMs: 1000 }),
+    ).rejects.toThrow('maxScrolls × waitMs may be at most 25000ms');
+
+    const shortRef = setupFeed(1);
+    await expect(handleScroll({ containerRef: shortRef, deltaY: 10 })).rejects.toThrow('is not scrollable');
+  });
+});
+
+// ============================================================
+// handleMouse
+// ============================================================
+
+describe('handleMouse', () => {
+  beforeEach(() => {
+    resetMouseState();
+    document.body.innerHTML =
+      '<div id="chart"><canvas id="left"></canvas><canvas id="right"></canvas></div><p id="note">Note</p>';
+    // Left canvas at x < 100, right canvas at 100 <= x < 200, nothing beyond
+    document.elementFromPoint = (x: number) =>
+      x < 100 ? document.getElementById('left') : x < 200 ? document.getElementById('right') : null;
+  });
+
+  /** Record event types and targets reaching the given elements, in order */
+  function recordEvents(types: string[], ids = ['chart', 'left', 'right']): string[] {
+    const events: string[] = [];
+    for (const id of ids) {
+      for (const type of types) {
+        document.getElementById(id)!.addEventListener(type, (e) => {
+          if (e.target === e.currentTarget) events.push(`${type} ${id}`);
+        });
+      }
+    }
+    return events;
+  }
+
+  it('moves with over/enter and out/leave transitions', () => {
+    const events = recordEvents(['mouseover', 'mouseenter', 'mousemove', 'mouseout', 'mouseleave']);
+
+    handleMouse({ action: 'move', x: 50, y: 20 });
+    expect(events).toEqual(['mouseover left', 'mouseenter chart', 'mouseenter left', 'mousemove left']);
+
+    events.length = 0;
+    handleMouse({ action: 'move', x: 150, y: 20 });
+    expect(events).toEqual(['mouseout left', 'mouseleave left', 'mouseover right', 'mouseenter right', 'mousemove right']);
+
+    events.length = 0;
+    handleMouse({ action: 'move', x: 160, y: 20 });
+    expect(events).toEqual(['mousemove right']);
+  });
+
+  it('clicks at the point and reports the element there', () => {
+    const events = recordEvents(['pointerdown', 'mousedown', 'pointerup', 'mouseup', 'click', 'dblclick']);
+    let clientX = 0;
+    document.getElementById('left')!.addEventListener('click', (e) => { clientX = (e as MouseEvent).clientX; });
+
+    const result = handleMouse({ action: 'click', x: 42, y: 7, clickCount: 2 });
+    expect(result).toEqual({ target: '<canvas#left>', devicePixelRatio: window.devicePixelRatio });
+    expect(clientX).toBe(42);
+    expect(events).toEqual([
+      'pointerdown left', 'mousedown left', 'pointerup left', 'mouseup left', 'click left',
+      'pointerdown left', 'mousedown left', 'pointerup left', 'mouseup left', 'click left', 'dblclick left',
+    ]);
+  });
+
+  it('sends pointer events from the primary mouse', () => {
+    const pointers: string[] = [];
+    for (const type of ['pointerover', 'pointerenter', 'pointermove', 'pointerdown', 'pointerup']) {
+      document.getElementById('left')!.addEventListener(type, (e) => {
+        const p = e as PointerEvent;
+        pointers.push(`${type} ${p.pointerId} ${p.pointerType} ${p.isPrimary}`);
+      });
+    }
+
+    handleMouse({ action: 'click', x: 50, y: 20 });
+    expect(pointers).toEqual([
+      'pointerover 1 mouse true',
+      'pointerenter 1 mouse true',
+      'pointermove 1 mouse true',
+      'pointerdown 1 mouse true',
+      'pointerup 1 mouse true',
+    ]);
+  });
+
+  it('right-clicks with contextmenu and auxclick instead of click', () => {
+    const events = recordEvents(['contextmenu', 'click', 'auxclick']);
+    handleMouse({ action: 'click', x: 50, y: 20, button: 'right' });
+    expect(events).toEqual(['contextmenu left', 'auxclick left']);
+  });
+
+  it('holds the button across moves between down and up', () => {
+    const buttons: number[] = [];
+    document.addEventListener('mousemove', (e) => buttons.push((e as MouseEvent).buttons));
+    const events = recordEvents(['mousedown', 'mouseup', 'click']);
+
+    handleMouse({ action: 'down', x: 50, y: 20 });
+    handleMouse({ action: 'move', x: 150, y: 20 });
+    handleMouse({ action: 'up', x: 150, y: 20 });
+    handleMouse({ action: 'move', x: 160, y: 20 });
+
+    expect(buttons).toEqual([0, 1, 1, 0]);
+    // Released over a different element than it was pressed on, so no click
+    expect(events).toEqual(['mousedown left', 'mouseup right']);
+  });
+
+  it('scrolls the nearest scrollable ancestor unless the page cancels the wheel', () => {
+    const chart = document.getElementById('chart')!;
+    chart.style.overflowY = 'auto';
+    Object.defineProperty(chart, 'scrollHeight', { get: () => 500 });
+    Object.defineProperty(chart, 'clientHeight', { get: () => 100 });
+
+    let result = handleMouse({ action: 'wheel', x: 50, y: 20, deltaY: 120 });
+    expect(result.scrolled).toBe(true);
+    expect(chart.scrollTop).toBe(120);
+
+    // A map zooms on the wheel and cancels it
+    let deltaY = 0;
+    document.getElementById('right')!.addEventListener('wheel', (e) => {
+      deltaY = (e as WheelEvent).deltaY;
+      e.preventDefault();
+    });
+    result = handleMouse({ action: 'wheel', x: 150, y: 20, deltaY: -120 });
+    expect(result.scrolled).toBe(false);
+    expect(deltaY).toBe(-120);
+    expect(chart.scrollTop).toBe(120);
+  });
+
+  it('rejects points outside the viewport and bad parameters', () => {
+    expect(() => handleMouse({ action: 'click', x: 500, y: 20 })).toThrow('is outside the viewport');
+    expect(() => handleMouse({ action: 'wheel', x: 50, y: 20 })).toThrow('wheel needs deltaX or deltaY');
+    expect(() => handleMouse({ action: 'click', x: 50, y: 20, clickCount: 0 })).toThrow('clickCount');
+  });
+});
+
 // ============================================================
 // handleFillForm
 // ============================================================
@@ -560,6 +1360,291 @@ describe('handleEvaluate', () => {
   });
 });
 
+// ============================================================
+// handleConsoleMessages
+// ============================================================
+
+describe('handleConsoleMessages', () => {
+  beforeEach(() => {
+    resetConsoleCapture();
+  });
+
+  // Runs first: console methods stay wrapped once hooked, so this is the
+  // only point where the page is as fresh as after a navigation
+  it('keeps messages logged before capture started when hooked at document start', async () => {
+    // What the background runs at document_start
+    new Function(pageInjectionCode(consoleHookSource()))();
+    await handleEvaluate({ function: '() => { console.log("early"); }' });
+    window.dispatchEvent(new ErrorEvent('error', { message: 'boom' }));
+
+    handleConsoleMessages({ action: 'start' });
+    const { messages } = handleConsoleMessages({ action: 'get' });
+    expect(messages!.map((m) => m.text)).toEqual(['early', 'Uncaught boom']);
+
+    // Claimed messages are not delivered twice, and later ones arrive directly
+    handleConsoleMessages({ action: 'clear' });
+    await handleEvaluate({ function: '() => { console.log("late"); }' });
+    expect(handleConsoleMessages({ action: 'get' }).messages!.map((m) => m.text)).toEqual(['late']);
+  });
+
+  it('captures console calls made by page scripts once started', async () => {
+    expect(handleConsoleMessages({ action: 'start' })).toEqual({ recording: true, count: 0 });
+    await handleEvaluate({ function: '() => { console.warn("careful", { a: 1 }); }' });
+
+    const result = handleConsoleMessages({ action: 'get' });
+    expect(result.recording).toBe(true);
+    expect(result.messages).toHaveLength(1);
+    expect(result.messages![0]).toMatchObject({ level: 'warn', kind: 'console', text: 'careful {"a":1}' });
+    expect(typeof result.messages![0].timestamp).toBe('number');
+  });
+
+  it('captures uncaught errors with their source location', () => {
+    handleConsoleMessages({ action: 'start' });
+    window.dispatchEvent(new ErrorEvent('error', {
+      message: 'boom',
+      filename: 'https://example.com/app.js',
+      lineno: 3,
+      colno: 7,
+    }));
+
+    const [message] = handleConsoleMessages({ action: 'get' }).messages!;
+    expect(message).toMatchObject({
+      level: 'error',
+      kind: 'exception',
+      text: 'Uncaught boom',
+      url: 'https://example.com/app.js',
+      line: 3,
+      column: 7,
+    });
+  });
+
+  it('filters by level and clears the buffer', async () => {
+    handleConsoleMessages({ action: 'start' });
+    await handleEvaluate({ function: '() => { console.info("one"); console.error("two"); }' });
+
+    const errors = handleConsoleMessages({ action: 'get', level: 'error' }).messages!;
+    expect(errors.map((m) => m.text)).toEqual(['two']);
+
+    expect(handleConsoleMessages({ action: 'clear' })).toEqual({ recording: true, count: 0 });
+    expect(handleConsoleMessages({ action: 'get' }).messages).toEqual([]);
+  });
+
+  it('ignores messages after stop', async () => {
+    handleConsoleMessages({ action: 'start' });
+    await handleEvaluate({ function: '() => { console.log("kept"); }' });
+    expect(handleConsoleMessages({ action: 'stop' })).toEqual({ recording: false, count: 1 });
+    await handleEvaluate({ function: '() => { console.log("ignored"); }' });
+
+    const result = handleConsoleMessages({ action: 'get' });
+    expect(result.recording).toBe(false);
+    expect(result.messages!.map((m) => m.text)).toEqual(['kept']);
+  });
+});
+
+// ============================================================
+// handleSocketFrames
+// ============================================================
+
+describe('handleSocketFrames', () => {
+  beforeAll(async () => {
+    // Stand-in for the page's WebSocket so nothing connects; the hook
+    // subclasses whatever the page has when it is first installed
+    await handleEvaluate({
+      function: `() => {
+        window.WebSocket = class extends EventTarget {
+          constructor(url) { super(); this.url = url; }
+          send() {}
+        };
+      }`,
+    });
+  });
+
+  beforeEach(() => {
+    resetSocketCapture();
+  });
+
+  const exchange = `() => {
+    const ws = new WebSocket('wss://example.com/socket');
+    ws.send('{"op":"subscribe"}');
+    ws.dispatchEvent(new MessageEvent('message', { data: 'welcome' }));
+    ws.dispatchEvent(new MessageEvent('message', { data: new ArrayBuffer(8) }));
+    return ws instanceof WebSocket;
+  }`;
+
+  it('records frames sent and received on sockets opened after start', async () => {
+    handleSocketFrames({ action: 'start' });
+    const { value } = await handleEvaluate({ function: exchange });
+    expect(value).toBe(true);
+
+    const { frames, recording } = handleSocketFrames({ action: 'frames' });
+    expect(recording).toBe(true);
+    expect(frames).toHaveLength(3);
+    expect(frames![0]).toMatchObject({
+      protocol: 'websocket',
+      url: 'wss://example.com/socket',
+      direction: 'sent',
+      data: '{"op":"subscribe"}',
+    });
+    expect(frames![1]).toMatchObject({ direction: 'received', data: 'welcome' });
+    expect(frames![2]).toMatchObject({ direction: 'received', data: '[binary 8 bytes]', binary: true });
+    expect(new Set(frames!.map((f) => f.connection)).size).toBe(1);
+  });
+
+  it('keeps frames of sockets opened before capture started when hooked at document start', async () => {
+    // Start from a page the hook has not touched yet, as after a navigation
+    await handleEvaluate({
+      function: `() => {
+        if (!window.__agentfoxSocketsHooked) return;
+        window.WebSocket = Object.getPrototypeOf(WebSocket.prototype).constructor;
+        delete window.__agentfoxSocketsHooked;
+      }`,
+    });
+    // What the background runs at document_start
+    new Function(pageInjectionCode(socketHookSource()))();
+    await handleEvaluate({ function: exchange });
+
+    handleSocketFrames({ action: 'start' });
+    const { frames } = handleSocketFrames({ action: 'frames' });
+    expect(frames!.map((f) => f.data)).toEqual(['{"op":"subscribe"}', 'welcome', '[binary 8 bytes]']);
+
+    // Claimed frames are not delivered twice, and later ones arrive directly
+    handleSocketFrames({ action: 'clear' });
+    await handleEvaluate({ function: exchange });
+    expect(handleSocketFrames({ action: 'frames' }).frames).toHaveLength(3);
+  });
+
+  it('filters frames by URL and direction', async () => {
+    handleSocketFrames({ action: 'start' });
+    await handleEvaluate({ function: exchange });
+
+    const sent = handleSocketFrames({ action: 'frames', direction: 'sent' }).frames!;
+    expect(sent.map((f) => f.data)).toEqual(['{"op":"subscribe"}']);
+    expect(handleSocketFrames({ action: 'frames', filter: 'other.example' }).frames).toEqual([]);
+  });
+
+  it('stops recording on stop and empties the buffer on clear', async () => {
+    handleSocketFrames({ action: 'start' });
+    await handleEvaluate({ function: exchange });
+    expect(handleSocketFrames({ action: 'clear' })).toEqual({ recording: true, count: 0 });
+
+    handleSocketFrames({ action: 'stop' });
+    await handleEvaluate({ function: exchange });
+    expect(handleSocketFrames({ action: 'frames' }).frames).toEqual([]);
+  });
+});
+
+// ============================================================
+// Fulfill hook
+// ============================================================
+
+describe('fulfill hook', () => {
+  const rules: PageInterceptRule[] = [
+    { id: 'rule-1', url: 'blocked', behavior: 'block' },
+    {
+      id: 'rule-2',
+      url: '/api/users',
+      method: 'GET',
+      behavior: 'fulfill',
+      status: 503,
+      contentType: 'application/json',
+      body: '{"error":"down"}',
+    },
+  ];
+  const hits: string[] = [];
+  const countHit = (event: Event) => hits.push((event as CustomEvent<string>).detail);
+  const sent: string[] = [];
+  const { open, send } = XMLHttpRequest.prototype;
+
+  beforeAll(async () => {
+    // Stand-ins for sending, so nothing reaches the network; the hook wraps
+    // whatever the page has when it is first installed
+    XMLHttpRequest.prototype.send = function (this: XMLHttpRequest) {
+      sent.push(this.responseURL || 'request');
+      setTimeout(() => this.dispatchEvent(new ProgressEvent('error')), 0);
+    };
+    // jsdom has no fetch; hand the page Node's, by way of the shared document
+    Object.assign(document, {
+      fetchStandIn: {
+        Request,
+        Response,
+        fetch: async (input: RequestInfo) => {
+          sent.push(String(input));
+          throw new TypeError('NetworkError when attempting to fetch resource.');
+        },
+      },
+    });
+    await handleEvaluate({ function: '() => { Object.assign(window, document.fetchStandIn); }' });
+    window.addEventListener(FULFILL_HIT_EVENT, countHit);
+    new Function(pageInjectionCode(fulfillHookSource(rules)))();
+  });
+
+  afterAll(() => {
+    window.removeEventListener(FULFILL_HIT_EVENT, countHit);
+    Object.assign(XMLHttpRequest.prototype, { open, send });
+    delete (document as { fetchStandIn?: unknown }).fetchStandIn;
+  });
+
+  beforeEach(() => {
+    hits.length = 0;
+    sent.length = 0;
+  });
+
+  const request = (method: string, url: string) => `() => new Promise((resolve) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('${method}', '${url}');
+    xhr.responseType = 'json';
+    xhr.onload = () => resolve({ status: xhr.status, body: xhr.response, type: xhr.getResponseHeader('Content-Type') });
+    xhr.onerror = () => resolve('sent');
+    xhr.send();
+  })`;
+
+  it('answers a matching XHR with the canned status and body, without sending it', async () => {
+    const { value } = await handleEvaluate({ function: request('GET', '/api/users?page=2') });
+    expect(value).toEqual({ status: 503, body: { error: 'down' }, type: 'application/json' });
+    expect(hits).toEqual(['rule-2']);
+    expect(sent).toEqual([]);
+  });
+
+  it('answers a matching fetch with the canned response', async () => {
+    const { value } = await handleEvaluate({
+      function: `async () => {
+        const response = await fetch('/api/users');
+        return { status: response.status, ok: response.ok, body: await response.json(), url: response.url };
+      }`,
+    });
+    expect(value).toEqual({
+      status: 503,
+      ok: false,
+      body: { error: 'down' },
+      url: new URL('/api/users', document.baseURI).href,
+    });
+    expect(hits).toEqual(['rule-2']);
+    expect(sent).toEqual([]);
+  });
+
+  it('sends requests whose first matching rule is not a fulfill rule', async () => {
+    expect(await handleEvaluate({ function: request('POST', '/api/users') })).toEqual({ value: 'sent' });
+    expect(await handleEvaluate({ function: request('GET', '/blocked/api/users') })).toEqual({ value: 'sent' });
+    await expect(handleEvaluate({ function: "() => fetch('/api/users', { method: 'POST' })" })).rejects.toThrow(
+      'NetworkError',
+    );
+    expect(hits).toEqual([]);
+    expect(sent).toHaveLength(3);
+  });
+
+  it('replaces the rules of a hook installed earlier', async () => {
+    const notFound = { ...rules[1], id: 'rule-3', status: 404, body: '{"error":"gone"}' };
+    new Function(pageInjectionCode(fulfillHookSource([notFound])))();
+    const { value } = await handleEvaluate({ function: request('GET', '/api/users') });
+    expect(value).toMatchObject({ status: 404, body: { error: 'gone' } });
+    expect(hits).toEqual(['rule-3']);
+
+    new Function(pageInjectionCode(fulfillHookSource([])))();
+    expect(await handleEvaluate({ function: request('GET', '/api/users') })).toEqual({ value: 'sent' });
+    expect(hits).toEqual(['rule-3']);
+  });
+});
+
 // ============================================================
 // handleWaitFor
 // ============================================================
@@ -597,13 +1682,66 @@ describe('handleWaitFor', () => {
   });
 
   it('resolves for time-only wait', async () => {
-    const result = await handleWaitFor({ time: 0.05 } as any);
+    const result = await handleWaitFor({ time: 0.05 });
     expect(result.matched).toBe(true);
   });
 
   it('rejects when no params are provided', async () => {
     await expect(handleWaitFor({} as any)).rejects.toThrow('At least one');
   });
+
+  it('waits for a selector to become visible', async () => {
+    document.body.innerHTML = '<div id="toast" style="display: none">Saved</div>';
+    const promise = handleWaitFor({ selector: '#toast', time: 2 });
+    setTimeout(() => {
+      document.getElementById('toast')!.style.display = 'block';
+    }, 50);
+    expect(await promise).toEqual({ matched: true });
+  });
+
+  it('treats elements inside a hidden ancestor as hidden', async () => {
+    document.body.innerHTML = '<div hidden><span class="spinner">Loading</span></div>';
+    expect(await handleWaitFor({ selector: '.spinner', state: 'hidden' })).toEqual({ matched: true });
+    expect(await handleWaitFor({ selector: '.spinner', time: 0.1 })).toEqual({ matched: false });
+  });
+
+  it('waits for an element to be detached', async () => {
+    document.body.innerHTML = '<div id="modal">Dialog</div>';
+    const promise = handleWaitFor({ selector: '#modal', state: 'detached', time: 2 });
+    setTimeout(() => document.getElementById('modal')!.remove(), 50);
+    expect(await promise).toEqual({ matched: true });
+  });
+
+  it('waits for a ref to become enabled', async () => {
+    document.body.innerHTML = '<button id="go" disabled>Go</button>';
+    const ref = snapshotAndGetRef('go');
+    const promise = handleWaitFor({ ref, state: 'enabled', time: 2 });
+    setTimeout(() => document.getElementById('go')!.removeAttribute('disabled'), 50);
+    expect(await promise).toEqual({ matched: true });
+  });
+
+  it('waits for a field value set by typing', async () => {
+    document.body.innerHTML = '<input id="q">';
+    const promise = handleWaitFor({ selector: '#q', value: 'done', time: 2 });
+    setTimeout(() => {
+      const input = document.getElementById('q') as HTMLInputElement;
+      input.value = 'done';
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+    }, 50);
+    expect(await promise).toEqual({ matched: true });
+  });
+
+  it('matches hasText only within the element', async () => {
+    document.body.innerHTML = '<p id="status">Pending</p><p>Complete</p>';
+    expect(await handleWaitFor({ selector: '#status', hasText: 'Complete', time: 0.1 }))
+      .toEqual({ matched: false });
+    expect(await handleWaitFor({ selector: '#status', hasText: 'Pending' })).toEqual({ matched: true });
+  });
+
+  it('rejects invalid selectors and unknown refs', async () => {
+    await expect(handleWaitFor({ selector: 'div[' })).rejects.toThrow('Invalid selector');
+    await expect(handleWaitFor({ ref: 'e9999' })).rejects.toThrow('not found');
+  });
 });
 
 // ============================================================
@@ -679,11 +1817,13 @@ describe('processRequest', () => {
   });
 
   it('handles click action', async () => {
+    stubLayout();
     document.body.innerHTML = '<button id="btn">OK</button>';
     buildAccessibilityTree();
     const ref = [...refMap.entries()].find(([, el]) => (el as HTMLElement).id === 'btn')![0];
     const resp = await processRequest('r3', 'click', { ref });
     expect(resp.success).toBe(true);
+    expect(resp.result).toEqual({ input: 'synthetic' });
   });
 
   it('returns error for click on invalid ref', async () => {
@@ -725,3 +1865,116 @@ describe('handlePageContent', () => {
     expect(result.text).not.toContain('  '); // no double spaces
   });
 });
+
+// ============================================================
+// handleScreenshotRegion
+// ============================================================
+
+describe('handleScreenshotRegion', () => {
+  it('returns the viewport by default', () => {
+    const region = handleScreenshotRegion({});
+    expect(region).toEqual({
+      x: 0,
+      y: 0,
+      width: window.innerWidth,
+      height: window.innerHeight,
+      clipped: false,
+    });
+  });
+
+  it('covers the whole scrollable document for fullPage', () => {
+    vi.spyOn(document.documentElement, 'scrollHeight', 'get').mockReturnValue(5000);
+    vi.spyOn(document.documentElement, 'scrollWidth', 'get').mockReturnValue(1200);
+    const region = handleScreenshotRegion({ fullPage: true });
+    expect(region.x).toBe(0);
+    expect(region.y).toBe(0);
+    expect(region.width).toBe(Math.max(1200, window.innerWidth));
+    expect(region.height).toBe(5000);
+    expect(region.clipped).toBe(false);
+  });
+
+  it('clips very long pages to the maximum capture size', () => {
+    vi.spyOn(document.documentElement, 'scrollHeight', 'get').mockReturnValue(100_000);
+    const region = handleScreenshotRegion({ fullPage: true });
+    expect(region.height).toBe(MAX_CAPTURE_DIMENSION);
+    expect(region.clipped).toBe(true);
+  });
+
+  it('returns the element box in document coordinates for a ref', () => {
+    document.body.innerHTML = '<button id="btn">OK</button>';
+    const ref = snapshotAndGetRef('btn');
+    const el = document.getElementById('btn')!;
+    vi.spyOn(el, 'getBoundingClientRect').mockReturnValue(
+      { left: 10.5, top: 20, width: 100, height: 30.2 } as DOMRect,
+    );
+    vi.spyOn(window, 'scrollY', 'get').mockReturnValue(400);
+    const region = handleScreenshotRegion({ ref });
+    expect(region).toEqual({ x: 10, y: 420, width: 100, height: 31, clipped: false });
+  });
+
+  it('throws for an element with no visible area', () => {
+    document.body.innerHTML = '<button id="btn">OK</button>';
+    const ref = snapshotAndGetRef('btn');
+    expect(() => handleScreenshotRegion({ ref })).toThrow('no visible area');
+  });
+});
+
+// ============================================================
+// handleScreenshot — annotations
+// ============================================================
+
+describe('handleScreenshot annotations', () => {
+  function stubRect(id: string, left: number, top: number): void {
+    vi.spyOn(document.getElementById(id)!, 'getBoundingClientRect').mockReturnValue(
+      { left, top, width: 80, height: 20 } as DOMRect,
+    );
+  }
+
+  it('overlays numbered boxes and returns a legend', () => {
+    document.body.innerHTML = '<button id="a">Save</button><a id="b" href="/x">Docs</a>';
+    const refA = snapshotAndGetRef('a');
+    const refB = snapshotAndGetRef('b');
+    stubRect('a', 10, 10);
+    stubRect('b', 10, 40);
+
+    const region = handleScreenshot({ annotate: true }) as { legend?: unknown[] };
+    expect(region.legend).toEqual([
+      { label: 1, ref: refA, role: 'button', name: 'Save' },
+      { label: 2, ref: refB, role: 'link', name: 'Docs' },
+    ]);
+    const overlay = document.getElementById(ANNOTATION_OVERLAY_ID)!;
+    expect(overlay).not.toBeNull();
+    expect(overlay.children).toHaveLength(2);
+    expect(overlay.children[0].textContent).toBe('1');
+  });
+
+  it('skips refs outside the capture region', () => {
+    document.body.innerHTML = '<button id="a">Near</button><button id="b">Far</button>';
+    snapshotAndGetRef('a');
+    stubRect('a', 10, 10);
+    stubRect('b', 10, window.innerHeight + 500);
+
+    const region = handleScreenshot({ annotate: true }) as { legend?: Array<{ name: string }> };
+    expect(region.legend?.map((a) => a.name)).toEqual(['Near']);
+  });
+
+  it('removes the overlay on clearAnnotations', () => {
+    document.body.innerHTML = '<button id="a">Save</button>';
+    snapshotAndGetRef('a');
+    stubRect('a', 10, 10);
+    handleScreenshot({ annotate: true });
+    expect(handleScreenshot({ clearAnnotations: true })).toEqual({});
+    expect(document.getElementById(ANNOTATION_OVERLAY_ID)).toBeNull();
+  });
+
+  it('throws when no snapshot has been taken', () => {
+    document.body.innerHTML = '<button>Save</button>';
+    expect(() => handleScreenshot({ annotate: true })).toThrow('Take a snapshot first');
+  });
+
+  it('does not annotate without the annotate flag', () => {
+    const region = handleScreenshot({});
+    expect(region).not.toHaveProperty('legend');
+    expect(document.getElementById(ANNOTATION_OVERLAY_ID)).toBeNull();
+  });
+});
@@ -102,6 +102,23 @@ if (typeof Element.prototype.scrollIntoView === 'undefined') {
   };
 }
 
+// Element.scrollTo()/scrollBy() are not implemented in jsdom; it does keep
+// scrollTop/scrollLeft, so apply the options to those
+if (typeof Element.prototype.scrollTo === 'undefined') {
+  Element.prototype.scrollTo = function (this: Element, options?: ScrollToOptions | number) {
+    if (typeof options !== 'object') return;
+    if (options.left !== undefined) this.scrollLeft = options.left;
+    if (options.top !== undefined) this.scrollTop = options.top;
+  } as Element['scrollTo'];
+}
+if (typeof Element.prototype.scrollBy === 'undefined') {
+  Element.prototype.scrollBy = function (this: Element, options?: ScrollToOptions | number) {
+    if (typeof options !== 'object') return;
+    this.scrollLeft += options.left ?? 0;
+    this.scrollTop += options.top ?? 0;
+  } as Element['scrollBy'];
+}
+
 // jsdom validates that MouseEvent/PointerEvent `view` is its own internal Window type.
 // When content-handlers.ts uses `view: window`, jsdom rejects it because the module's
 // `window` reference doesn't pass jsdom's instanceof check. We patch both constructors
@@ -139,8 +156,60 @@ if (typeof Element.prototype.scrollIntoView === 'undefined') {
 
   constructor(type: string, init?: any) {
     super(type, init);
+    // The constructor defaults, as in browsers
     this.pointerId = init?.pointerId ?? 0;
-    this.pointerType = init?.pointerType ?? 'mouse';
-    this.isPrimary = init?.isPrimary ?? true;
+    this.pointerType = init?.pointerType ?? '';
+    this.isPrimary = init?.isPrimary ?? false;
+  }
+};
+
+(globalThis as any).WheelEvent = class PatchedWheelEvent extends (globalThis as any).MouseEvent {
+  static readonly DOM_DELTA_PIXEL = 0;
+  static readonly DOM_DELTA_LINE = 1;
+  static readonly DOM_DELTA_PAGE = 2;
+  readonly deltaX: number;
+  readonly deltaY: number;
+  readonly deltaMode: number;
+
+  constructor(type: string, init?: any) {
+    super(type, init);
+    this.deltaX = init?.deltaX ?? 0;
+    this.deltaY = init?.deltaY ?? 0;
+    this.deltaMode = init?.deltaMode ?? 0;
+  }
+};
+
+// DataTransfer and DragEvent are not implemented in jsdom
+if (typeof globalThis.DataTransfer === 'undefined') {
+  (globalThis as any).DataTransfer = class DataTransfer {
+    dropEffect = 'none';
+    effectAllowed = 'all';
+    private data = new Map<string, string>();
+
+    get types(): string[] {
+      return [...this.data.keys()];
+    }
+
+    setData(format: string, value: string): void {
+      this.data.set(format, value);
+    }
+
+    getData(format: string): string {
+      return this.data.get(format) ?? '';
+    }
+
+    clearData(format?: string): void {
+      if (format) this.data.delete(format);
+      else this.data.clear();
+    }
+  };
+}
+
+(globalThis as any).DragEvent = class PatchedDragEvent extends (globalThis as any).MouseEvent {
+  readonly dataTransfer: DataTransfer | null;
+
+  constructor(type: string, init?: any) {
+    super(type, init);
+    this.dataTransfer = init?.dataTransfer ?? null;
   }
 };
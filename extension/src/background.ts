@@ -5,16 +5,47 @@
 import type {
   Command,
   CommandResponse,
+  ResponseChunk,
+  NativeInputStep,
+  NativeInputRequest,
+  NativeInputResponse,
+  SessionEndedMessage,
+  InteractionResult,
+  TrustedInputTarget,
   ContentRequest,
   ContentResponse,
   ActionType,
   TabInfo,
+  TabsParams,
+  WindowInfo,
+  WindowsResult,
   GetCookiesResult,
   GetBookmarksResult,
   GetHistoryResult,
   NetworkRequestsResult,
+  NetworkRequestInfo,
+  HttpHeader,
+  HarDocument,
+  HarEntry,
+  InterceptRule,
+  NetworkInterceptResult,
+  HeaderRule,
+  NetworkHeadersResult,
+  ConsoleMessagesResult,
+  WaitForResult,
   SavePdfResult,
+  ScreenshotRegion,
+  ScreenshotAnnotation,
 } from '@agentfox/shared';
+import { COMMAND_TIMEOUT_MS, RESPONSE_CHUNK_CHARS, splitIntoChunks } from '@agentfox/shared';
+import {
+  FULFILL_HIT_MESSAGE,
+  consoleHookSource,
+  fulfillInjectionCode,
+  pageInjectionCode,
+  socketHookSource,
+} from './page-hooks.js';
+import type { PageInterceptRule } from './page-hooks.js';
 
 // ============================================================
 // Minimal Firefox WebExtension API type declarations
@@ -23,34 +54,66 @@ import type {
 declare namespace browser {
   namespace runtime {
     function connectNative(application: string): Port;
+    function getManifest(): { version: string };
+    function getBrowserInfo(): Promise<{ name: string; version: string }>;
     const lastError: { message: string } | undefined;
+    const onMessage: Event<(message: unknown, sender: MessageSender) => void>;
+    interface MessageSender {
+      tab?: Tab;
+    }
   }
   namespace tabs {
     function query(queryInfo: {
       active?: boolean;
       currentWindow?: boolean;
+      windowId?: number;
     }): Promise<Tab[]>;
+    function get(tabId: number): Promise<Tab>;
     function update(
       tabId: number,
       updateProperties: { url?: string; active?: boolean },
     ): Promise<Tab>;
-    function create(createProperties: { url?: string }): Promise<Tab>;
+    function create(createProperties: {
+      url?: string;
+      active?: boolean;
+      windowId?: number;
+    }): Promise<Tab>;
+    function move(
+      tabIds: number | number[],
+      moveProperties: { windowId?: number; index: number },
+    ): Promise<Tab | Tab[]>;
     function remove(tabIds: number | number[]): Promise<void>;
     function goBack(tabId?: number): Promise<void>;
     function captureVisibleTab(
       windowId: number | null,
       options?: { format?: string; quality?: number },
     ): Promise<string>;
+    function captureTab(
+      tabId: number,
+      options?: {
+        format?: string;
+        quality?: number;
+        /** Area of the document to capture, in CSS pixels (Firefox 82+) */
+        rect?: { x: number; y: number; width: number; height: number };
+      },
+    ): Promise<string>;
     function sendMessage(
       tabId: number,
       message: unknown,
     ): Promise<unknown>;
+    function executeScript(
+      tabId: number,
+      details: { code: string; runAt?: 'document_start' | 'document_end' | 'document_idle'; frameId?: number },
+    ): Promise<unknown[]>;
   }
   namespace windows {
     function update(
       windowId: number,
-      updateInfo: { width?: number; height?: number },
+      updateInfo: { width?: number; height?: number; focused?: boolean },
     ): Promise<Window>;
+    function get(windowId: number, getInfo?: { populate?: boolean }): Promise<Window>;
+    function getAll(getInfo?: { populate?: boolean }): Promise<Window[]>;
+    function create(createData?: { tabId?: number; url?: string }): Promise<Window>;
   }
 
   interface Port {
@@ -78,6 +141,11 @@ declare namespace browser {
 
   interface Window {
     id?: number;
+    focused: boolean;
+    incognito: boolean;
+    type?: string;
+    state?: string;
+    tabs?: Tab[];
   }
 
   namespace cookies {
@@ -138,6 +206,26 @@ const MAX_RECONNECT_RETRIES = 5;
 const BASE_RECONNECT_DELAY_MS = 1000;
 const DEFAULT_MAX_RESULTS = 50;
 
+/** How long to wait for the NM host to finish a native input request, beyond its deliberate waits */
+const NATIVE_INPUT_TIMEOUT_MS = 10_000;
+
+/** Longest the content script waits for an element to become actionable (ACTIONABILITY_TIMEOUT_MS there) */
+const ACTIONABILITY_WAIT_MS = 5_000;
+
+/**
+ * Longest trusted input may spend typing and holding keys, so that readying
+ * the element and waiting for the NM host still fit in the server's command
+ * timeout, with a second to spare for the relay
+ */
+const MAX_TRUSTED_INPUT_WAIT_MS =
+  COMMAND_TIMEOUT_MS - ACTIONABILITY_WAIT_MS - NATIVE_INPUT_TIMEOUT_MS - 1_000;
+
+/** Pause between characters typed as trusted input (xdotool's own default) */
+const TRUSTED_TYPING_DELAY_MS = 12;
+
+/** Pause between characters for slowly typed trusted input, as in the synthetic path */
+const TRUSTED_SLOW_TYPING_DELAY_MS = 30;
+
 /** Actions that require forwarding to the content script */
 const CONTENT_SCRIPT_ACTIONS: ReadonlySet<ActionType> = new Set([
   'snapshot',
@@ -145,10 +233,12 @@ const CONTENT_SCRIPT_ACTIONS: ReadonlySet<ActionType> = new Set([
   'type',
   'press_key',
   'hover',
+  'drag',
+  'scroll',
+  'mouse',
   'fill_form',
   'select_option',
   'evaluate',
-  'wait_for',
   'page_content',
 ]);
 
@@ -159,33 +249,132 @@ const CONTENT_SCRIPT_ACTIONS: ReadonlySet<ActionType> = new Set([
 let port: browser.Port | null = null;
 let reconnectAttempts = 0;
 
-/** Buffer of captured network requests */
-let networkRequests: Array<{
-  url: string;
-  method: string;
-  statusCode: number;
-  type: string;
-  timeStamp: number;
-  tabId?: number;
-  error?: string;
-}> = [];
-
-/** Whether we're currently recording network requests */
-let networkRecording = false;
-
-/** The webRequest listener function (stored so we can remove it) */
-let networkListener:
-  | ((details: browser.webRequest.RequestDetails) => void)
-  | null = null;
-
-/** The webRequest error listener function (stored so we can remove it) */
-let networkErrorListener:
-  | ((details: browser.webRequest.ErrorDetails) => void)
-  | null = null;
+/** Native input requests awaiting the NM host's answer, by request ID */
+const pendingNativeInput = new Map<string, (response: NativeInputResponse) => void>();
+
+/** Counter for native input request IDs */
+let nativeInputCounter = 0;
+
+/**
+ * One session's network recording. Like interception rules, a broker
+ * session only records requests from its own tabs; without a session every
+ * tab is recorded.
+ */
+interface NetworkRecorder {
+  sessionId?: string;
+  recording: boolean;
+  captureBodies: boolean;
+  /** Captured requests, kept after stop until cleared or restarted */
+  requests: NetworkRequestInfo[];
+}
+
+/** Network recordings by Command.sessionId ('' for commands without one) */
+const networkRecorders = new Map<string, NetworkRecorder>();
+
+/** Requests seen by onBeforeRequest that have not completed yet, by requestId */
+const pendingRequests = new Map<string, NetworkRequestInfo>();
+
+/** The webRequest listener functions (stored so we can remove them) */
+let networkListeners: {
+  /** Whether the listeners were added with request bodies and response filtering */
+  captureBodies: boolean;
+  beforeRequest: (details: browser.webRequest.BeforeRequestDetails) => void;
+  sendHeaders: (details: browser.webRequest.SendHeadersDetails) => void;
+  responseStarted: (details: browser.webRequest.RequestDetails) => void;
+  completed: (details: browser.webRequest.RequestDetails) => void;
+  error: (details: browser.webRequest.ErrorDetails) => void;
+} | null = null;
 
 /** Maximum number of requests to buffer */
 const MAX_NETWORK_REQUESTS = 1000;
 
+/** Bodies beyond this many bytes are cut off */
+const MAX_BODY_BYTES = 64 * 1024;
+
+/**
+ * Resource types whose response bodies are recorded when captureBodies is
+ * on. Images, fonts and media are skipped: they are rarely useful as text
+ * and are the bulk of the traffic.
+ */
+const RESPONSE_BODY_TYPES: ReadonlySet<string> = new Set([
+  'main_frame',
+  'sub_frame',
+  'xmlhttprequest',
+  'script',
+  'stylesheet',
+  'other',
+]);
+
+/** An interception rule plus what the background script needs to apply it */
+interface ActiveInterceptRule extends InterceptRule {
+  /** Broker session that installed the rule; sessions only see their own rules */
+  sessionId?: string;
+  matches: (url: string) => boolean;
+}
+
+/** Installed interception rules; the first matching rule wins */
+let interceptRules: ActiveInterceptRule[] = [];
+let interceptRuleCounter = 0;
+
+/** Tabs whose pages were handed rules for the fulfill hook, so they also hear when the last goes */
+const fulfillHookTabs = new Set<number>();
+
+/** The blocking webRequest listeners that apply interceptRules */
+let interceptListeners: {
+  beforeRequest: (
+    details: browser.webRequest.BeforeRequestDetails,
+  ) => browser.webRequest.BlockingResponse | Promise<browser.webRequest.BlockingResponse> | void;
+} | null = null;
+
+/** Longest hold a delay rule may put on a request */
+const MAX_INTERCEPT_DELAY_MS = 60_000;
+
+/** A header rule plus what the background script needs to apply it */
+interface ActiveHeaderRule extends HeaderRule {
+  /** Broker session that installed the rule; sessions only see their own rules */
+  sessionId?: string;
+  matches: (url: string) => boolean;
+}
+
+/** Installed header rules; every matching rule applies, later ones winning */
+let headerRules: ActiveHeaderRule[] = [];
+let headerRuleCounter = 0;
+
+/** The blocking onBeforeSendHeaders listener that applies headerRules */
+let headerListener: ((
+  details: browser.webRequest.SendHeadersDetails,
+) => browser.webRequest.BlockingResponse | void) | null = null;
+
+/** RFC 9110 token characters, the only ones allowed in a header name */
+const HEADER_NAME_PATTERN = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/;
+
+/**
+ * Tabs with console capture on. The content script's hook lives only as
+ * long as the page, so it is re-installed whenever one of these tabs
+ * finishes loading a new page.
+ */
+const consoleTabs = new Set<number>();
+
+/** Requests in flight per tab and when that last changed, for network-idle waits */
+const tabNetworkActivity = new Map<number, { inflight: Set<string>; lastChange: number }>();
+
+/** How often a network-idle wait re-checks a tab's activity */
+const NETWORK_IDLE_POLL_MS = 100;
+
+/** Tabs owned by one broker session */
+interface SessionTabs {
+  tabIds: Set<number>;
+  /** The tab the session's commands target, or null before the first command */
+  currentTabId: number | null;
+}
+
+/**
+ * Per-session tab sets for broker mode, keyed by Command.sessionId.
+ * A session only sees and drives its own tabs; commands without a
+ * sessionId keep using the user's active tab.
+ */
+const sessionTabs = new Map<string, SessionTabs>();
+
 // ============================================================
 // Helpers
 // ============================================================
@@ -212,6 +401,129 @@ async function getActiveTab(): Promise<browser.Tab> {
   return tabs[0];
 }
 
+/** Look up (or start) the tab set for a broker session */
+function getSession(sessionId: string): SessionTabs {
+  let session = sessionTabs.get(sessionId);
+  if (!session) {
+    session = { tabIds: new Set(), currentTabId: null };
+    sessionTabs.set(sessionId, session);
+  }
+  return session;
+}
+
+/** Add a tab to a session's set and make it the session's current tab */
+function adoptSessionTab(session: SessionTabs, tab: browser.Tab): void {
+  session.tabIds.add(tab.id!);
+  session.currentTabId = tab.id!;
+}
+
+/** Drop a closed tab from whichever session owned it */
+function forgetSessionTab(tabId: number): void {
+  for (const session of sessionTabs.values()) {
+    if (!session.tabIds.delete(tabId)) continue;
+    if (session.currentTabId === tabId) {
+      // Fall back to the most recently adopted remaining tab
+      const remaining = [...session.tabIds];
+      session.currentTabId = remaining.length ? remaining[remaining.length - 1] : null;
+    }
+  }
+}
+
+function isSessionEnded(message: unknown): message is SessionEndedMessage {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as SessionEndedMessage).type === 'session-ended' &&
+    typeof (message as SessionEndedMessage).sessionId === 'string'
+  );
+}
+
+/**
+ * Clean up after a broker session whose MCP server has gone: drop its
+ * interception and header rules and network recording, and close the tabs
+ * it was driving.
+ */
+async function endSession(sessionId: string): Promise<void> {
+  const session = sessionTabs.get(sessionId);
+  sessionTabs.delete(sessionId);
+  interceptRules = interceptRules.filter((r) => r.sessionId !== sessionId);
+  syncInterceptListeners();
+  headerRules = headerRules.filter((r) => r.sessionId !== sessionId);
+  syncHeaderListener();
+  networkRecorders.delete(sessionId);
+  syncNetworkListeners();
+
+  const tabIds = session ? [...session.tabIds] : [];
+  log(`Session ${sessionId} ended, closing ${tabIds.length} tab(s)`);
+  if (tabIds.length === 0) return;
+  try {
+    await browser.tabs.remove(tabIds);
+  } catch (err) {
+    // Some may have been closed already
+    logError(`Failed to close tabs of session ${sessionId}:`, err);
+  }
+}
+
+/**
+ * Get the current tab of a broker session. A session's first command (or
+ * one issued after all its tabs were closed) opens a fresh background tab,
+ * so parallel sessions never steal each other's tabs or the user's focus.
+ */
+async function getSessionTab(sessionId: string): Promise<browser.Tab> {
+  const session = getSession(sessionId);
+  while (session.currentTabId !== null) {
+    const tabId = session.currentTabId;
+    try {
+      return await browser.tabs.get(tabId);
+    } catch {
+      // Closed without us seeing onRemoved (e.g. during a restart)
+      forgetSessionTab(tabId);
+      if (session.currentTabId === tabId) session.currentTabId = null;
+    }
+  }
+  const tab = await browser.tabs.create({ active: false });
+  adoptSessionTab(session, tab);
+  return tab;
+}
+
+/**
+ * Look up a tab by its stable ID. Broker sessions may only address their
+ * own tabs.
+ */
+async function getTabById(tabId: number, sessionId?: string): Promise<browser.Tab> {
+  if (sessionId && !getSession(sessionId).tabIds.has(tabId)) {
+    throw new Error(`Tab ${tabId} does not belong to this session`);
+  }
+  try {
+    return await browser.tabs.get(tabId);
+  } catch {
+    throw new Error(`No tab found with id ${tabId}`);
+  }
+}
+
+/**
+ * Resolve the tab a command should act on: an explicit `tabId` wins,
+ * then the broker session's current tab, then the user's active tab.
+ */
+function getTargetTab(command: Command): Promise<browser.Tab> {
+  if (command.tabId !== undefined) {
+    return getTabById(command.tabId, command.sessionId);
+  }
+  return command.sessionId ? getSessionTab(command.sessionId) : getActiveTab();
+}
+
+/** Convert a browser tab to the TabInfo shape returned to the server */
+function toTabInfo(t: browser.Tab, active = t.active): TabInfo {
+  return {
+    id: t.id!,
+    windowId: t.windowId,
+    index: t.index,
+    title: t.title || '',
+    url: t.url || '',
+    active,
+  };
+}
+
 /** Build and send a CommandResponse to the native messaging port */
 function sendResponse(
   nmPort: browser.Port,
@@ -224,19 +536,41 @@ function sendResponse(
   if (result !== undefined) response.result = result;
   if (error !== undefined) response.error = error;
   try {
-    nmPort.postMessage(response);
+    const json = JSON.stringify(response);
+    if (json.length <= RESPONSE_CHUNK_CHARS) {
+      nmPort.postMessage(response);
+      return;
+    }
+    const chunks = splitIntoChunks(json);
+    log(`Sending response [${id}] in ${chunks.length} chunks (${json.length} chars)`);
+    chunks.forEach((data, index) => {
+      const chunk: ResponseChunk = {
+        type: 'response-chunk',
+        id,
+        index,
+        total: chunks.length,
+        data,
+      };
+      nmPort.postMessage(chunk);
+    });
   } catch (err) {
     logError('Failed to send response:', err);
   }
 }
 
-/** Forward a command to the active tab's content script */
+/** Forward a command to the target tab's content script */
 async function forwardToContentScript(
   command: Command,
 ): Promise<ContentResponse> {
-  const tab = await getActiveTab();
-  const tabId = tab.id!;
+  const tab = await getTargetTab(command);
+  return sendToContentScript(tab.id!, command);
+}
 
+/** Send a command to the content script in a specific tab */
+async function sendToContentScript(
+  tabId: number,
+  command: Command,
+): Promise<ContentResponse> {
   const request: ContentRequest = {
     type: 'content-request',
     id: command.id,
@@ -319,12 +653,13 @@ function waitForTabLoad(tabId: number, timeoutMs = 30000): Promise<void> {
     browser.tabs.onRemoved.addListener(onRemoved);
 
     // Check if already complete (handles about:blank, cached pages)
-    browser.tabs.query({ currentWindow: true }).then(tabs => {
-      const tab = tabs.find(t => t.id === tabId);
-      if (tab?.status === 'complete') {
+    browser.tabs.get(tabId).then(tab => {
+      if (tab.status === 'complete') {
         cleanup();
         resolve();
       }
+    }, () => {
+      // Tab is gone -- onRemoved (or the timeout) settles the promise
     });
   });
 }
@@ -333,7 +668,7 @@ async function handleNavigate(
   command: Command & { action: 'navigate' },
 ): Promise<{ url: string; title: string }> {
   const { params } = command;
-  const tab = await getActiveTab();
+  const tab = await getTargetTab(command);
   const tabId = tab.id!;
 
   // Start navigation
@@ -343,10 +678,7 @@ async function handleNavigate(
   await waitForTabLoad(tabId);
 
   // Re-query the tab to get the final URL/title (may have redirected)
-  const [updatedTab] = await browser.tabs.query({
-    active: true,
-    currentWindow: true,
-  });
+  const updatedTab = await browser.tabs.get(tabId);
 
   return {
     url: updatedTab?.url || params.url,
@@ -354,8 +686,10 @@ async function handleNavigate(
   };
 }
 
-async function handleNavigateBack(): Promise<{ url: string; title: string }> {
-  const tab = await getActiveTab();
+async function handleNavigateBack(
+  command: Command & { action: 'navigate_back' },
+): Promise<{ url: string; title: string }> {
+  const tab = await getTargetTab(command);
   const tabId = tab.id!;
   const urlBefore = tab.url || '';
 
@@ -365,10 +699,7 @@ async function handleNavigateBack(): Promise<{ url: string; title: string }> {
   await new Promise((r) => setTimeout(r, 50));
 
   // Re-query to check if navigation actually occurred
-  const [checkTab] = await browser.tabs.query({
-    active: true,
-    currentWindow: true,
-  });
+  const checkTab = await browser.tabs.get(tabId);
 
   if (checkTab?.url === urlBefore && checkTab?.status === 'complete') {
     // URL didn't change -- no back history; return current state immediately
@@ -381,10 +712,7 @@ async function handleNavigateBack(): Promise<{ url: string; title: string }> {
 
   await waitForTabLoad(tabId);
 
-  const [updatedTab] = await browser.tabs.query({
-    active: true,
-    currentWindow: true,
-  });
+  const updatedTab = await browser.tabs.get(tabId);
 
   return {
     url: updatedTab?.url || '',
@@ -394,13 +722,47 @@ async function handleNavigateBack(): Promise<{ url: string; title: string }> {
 
 async function handleScreenshot(
   command: Command & { action: 'screenshot' },
-): Promise<{ data: string; mimeType: string }> {
+): Promise<{ data: string; mimeType: string; clipped?: boolean; legend?: ScreenshotAnnotation[] }> {
   const { params } = command;
   const format = params.type || 'png';
   const mimeType = `image/${format}`;
-
-  // captureVisibleTab returns a data: URI
-  const dataUri = await browser.tabs.captureVisibleTab(null, { format });
+  let clipped = false;
+
+  // Both capture APIs return a data: URI. An explicitly targeted tab (or a
+  // session's tab) is usually in the background, so capture it by ID rather
+  // than whatever is visible.
+  let dataUri: string;
+  let legend: ScreenshotAnnotation[] | undefined;
+  if (params.fullPage || params.ref || params.annotate) {
+    // Full-page, element and annotated captures need the content script to
+    // measure the region (and draw the overlay); captureTab can then render
+    // it even where it is scrolled away
+    const tab = await getTargetTab(command);
+    const response = await sendToContentScript(tab.id!, command);
+    if (!response.success) {
+      throw new Error(response.error ?? 'Failed to measure screenshot region');
+    }
+    const region = response.result as ScreenshotRegion;
+    clipped = region.clipped;
+    legend = region.legend;
+    try {
+      dataUri = await browser.tabs.captureTab(tab.id!, {
+        format,
+        rect: { x: region.x, y: region.y, width: region.width, height: region.height },
+      });
+    } finally {
+      if (params.annotate) {
+        await sendToContentScript(tab.id!, {
+          ...command,
+          params: { clearAnnotations: true },
+        }).catch(() => {});
+      }
+    }
+  } else if (command.tabId !== undefined || command.sessionId) {
+    dataUri = await browser.tabs.captureTab((await getTargetTab(command)).id!, { format });
+  } else {
+    dataUri = await browser.tabs.captureVisibleTab(null, { format });
+  }
 
   // Strip the data URI prefix to get raw base64
   const prefix = `data:${mimeType};base64,`;
@@ -408,7 +770,79 @@ async function handleScreenshot(
     ? dataUri.slice(prefix.length)
     : dataUri;
 
-  return { data, mimeType };
+  return {
+    data,
+    mimeType,
+    ...(clipped ? { clipped } : {}),
+    ...(legend ? { legend } : {}),
+  };
+}
+
+/** Convert a (populated) browser window to the WindowInfo shape */
+function toWindowInfo(w: browser.Window): WindowInfo {
+  const tabs = w.tabs ?? [];
+  return {
+    id: w.id!,
+    focused: w.focused,
+    incognito: w.incognito,
+    type: w.type || 'normal',
+    state: w.state || 'normal',
+    tabCount: tabs.length,
+    activeTabTitle: tabs.find((t) => t.active)?.title || '',
+  };
+}
+
+/** List every browser window with a summary of its tabs */
+async function listWindows(): Promise<WindowsResult> {
+  const windows = await browser.windows.getAll({ populate: true });
+  return { windows: windows.map(toWindowInfo) };
+}
+
+/** Raise and focus a window */
+async function focusWindow(windowId: number | undefined): Promise<WindowsResult> {
+  if (windowId === undefined) {
+    throw new Error('windowId is required for focus_window action');
+  }
+  await browser.windows.update(windowId, { focused: true });
+  const win = await browser.windows.get(windowId, { populate: true });
+  return { windows: [toWindowInfo(win)] };
+}
+
+/**
+ * Open a tab for the `new` action: in a fresh window when `newWindow` is
+ * set, otherwise in `windowId` (or the current window).
+ */
+async function createTab(params: TabsParams, active: boolean): Promise<browser.Tab> {
+  if (params.newWindow) {
+    const win = await browser.windows.create({});
+    const [tab] = win.tabs ?? await browser.tabs.query({ windowId: win.id });
+    return tab;
+  }
+  return browser.tabs.create({ active, windowId: params.windowId });
+}
+
+/**
+ * Move a tab for the `move` action: into a fresh window when `newWindow`
+ * is set, otherwise to `index` (default: the end) of `windowId`.
+ */
+async function moveTab(tab: browser.Tab, params: TabsParams): Promise<browser.Tab> {
+  if (params.newWindow) {
+    await browser.windows.create({ tabId: tab.id });
+  } else {
+    if (params.windowId === undefined) {
+      throw new Error('windowId or newWindow is required for move action');
+    }
+    await browser.tabs.move(tab.id!, {
+      windowId: params.windowId,
+      index: params.index ?? -1,
+    });
+  }
+  return browser.tabs.get(tab.id!);
+}
+
+/** Sort tabs by window, then by position within the window */
+function byWindowAndIndex(a: browser.Tab, b: browser.Tab): number {
+  return a.windowId - b.windowId || a.index - b.index;
 }
 
 async function handleTabs(
@@ -416,73 +850,180 @@ async function handleTabs(
 ): Promise<unknown> {
   const { params } = command;
 
+  if (command.sessionId) {
+    return handleSessionTabs(command.sessionId, command);
+  }
+
+  // Find the tab at the specified index in the given (or current) window
+  const findByIndex = async (index: number): Promise<browser.Tab> => {
+    const allTabs = await browser.tabs.query(
+      params.windowId !== undefined
+        ? { windowId: params.windowId }
+        : { currentWindow: true },
+    );
+    const target = allTabs.find((t) => t.index === index);
+    if (!target || target.id === undefined) {
+      throw new Error(`No tab found at index ${index}`);
+    }
+    return target;
+  };
+
   switch (params.action) {
     case 'list': {
-      // Note: only tabs in the current window are listed. Multi-window
-      // workflows are not visible to the agent.
-      const allTabs = await browser.tabs.query({ currentWindow: true });
-      const tabs: TabInfo[] = allTabs.map((t) => ({
-        index: t.index,
-        title: t.title || '',
-        url: t.url || '',
-        active: t.active,
-      }));
+      // Tabs from every window, unless scoped to one with windowId
+      const allTabs = await browser.tabs.query(
+        params.windowId !== undefined ? { windowId: params.windowId } : {},
+      );
+      const tabs: TabInfo[] = allTabs.sort(byWindowAndIndex).map((t) => toTabInfo(t));
       return { tabs };
     }
 
     case 'new': {
-      const newTab = await browser.tabs.create({});
-      return {
-        index: newTab.index,
-        title: newTab.title || '',
-        url: newTab.url || '',
-        active: newTab.active,
-      };
+      const newTab = await createTab(params, true);
+      return toTabInfo(newTab);
     }
 
     case 'close': {
-      if (params.index !== undefined) {
-        // Find the tab at the specified index
-        const allTabs = await browser.tabs.query({ currentWindow: true });
-        const target = allTabs.find((t) => t.index === params.index);
-        if (!target || target.id === undefined) {
-          throw new Error(`No tab found at index ${params.index}`);
-        }
-        await browser.tabs.remove(target.id);
+      // Close the tab given by ID or index, else the active tab
+      let target: browser.Tab;
+      if (command.tabId !== undefined) {
+        target = await getTabById(command.tabId);
+      } else if (params.index !== undefined) {
+        target = await findByIndex(params.index);
       } else {
-        // Close the active tab
-        const tab = await getActiveTab();
-        await browser.tabs.remove(tab.id!);
+        target = await getActiveTab();
       }
+      await browser.tabs.remove(target.id!);
       return {};
     }
 
     case 'select': {
-      if (params.index === undefined) {
-        throw new Error('Tab index is required for select action');
+      let target: browser.Tab;
+      if (command.tabId !== undefined) {
+        target = await getTabById(command.tabId);
+      } else if (params.index !== undefined) {
+        target = await findByIndex(params.index);
+      } else {
+        throw new Error('Tab index or tabId is required for select action');
+      }
+      await browser.tabs.update(target.id!, { active: true });
+      return toTabInfo(target, true);
+    }
+
+    case 'move': {
+      const target = command.tabId !== undefined
+        ? await getTabById(command.tabId)
+        : await getActiveTab();
+      return toTabInfo(await moveTab(target, params));
+    }
+
+    case 'list_windows':
+      return listWindows();
+
+    case 'focus_window':
+      return focusWindow(params.windowId);
+
+    default:
+      throw new Error(`Unknown tabs action: ${params.action}`);
+  }
+}
+
+/**
+ * Tab management scoped to a broker session: only the session's own tabs are
+ * listed or addressable, and "active" means the session's current tab. New
+ * and selected tabs are not focused, so the user's view is left alone.
+ */
+async function handleSessionTabs(
+  sessionId: string,
+  command: Command & { action: 'tabs' },
+): Promise<unknown> {
+  const { params } = command;
+  const session = getSession(sessionId);
+
+  const toInfo = (t: browser.Tab): TabInfo => toTabInfo(t, t.id === session.currentTabId);
+
+  const findByIndex = async (index: number): Promise<browser.Tab> => {
+    const allTabs = await browser.tabs.query(
+      params.windowId !== undefined ? { windowId: params.windowId } : {},
+    );
+    const target = allTabs.find(
+      (t) => t.id !== undefined && session.tabIds.has(t.id) && t.index === index,
+    );
+    if (!target) {
+      throw new Error(`No session tab found at index ${index}`);
+    }
+    return target;
+  };
+
+  switch (params.action) {
+    case 'list': {
+      const allTabs = await browser.tabs.query(
+        params.windowId !== undefined ? { windowId: params.windowId } : {},
+      );
+      const tabs = allTabs
+        .filter((t) => t.id !== undefined && session.tabIds.has(t.id))
+        .sort(byWindowAndIndex)
+        .map(toInfo);
+      return { tabs };
+    }
+
+    case 'new': {
+      const newTab = await createTab(params, false);
+      adoptSessionTab(session, newTab);
+      return toInfo(newTab);
+    }
+
+    case 'close': {
+      let target: browser.Tab;
+      if (command.tabId !== undefined) {
+        target = await getTabById(command.tabId, sessionId);
+      } else if (params.index !== undefined) {
+        target = await findByIndex(params.index);
+      } else {
+        target = await getSessionTab(sessionId);
       }
-      const allTabs = await browser.tabs.query({ currentWindow: true });
-      const target = allTabs.find((t) => t.index === params.index);
-      if (!target || target.id === undefined) {
-        throw new Error(`No tab found at index ${params.index}`);
+      await browser.tabs.remove(target.id!);
+      forgetSessionTab(target.id!);
+      return {};
+    }
+
+    case 'select': {
+      let target: browser.Tab;
+      if (command.tabId !== undefined) {
+        target = await getTabById(command.tabId, sessionId);
+      } else if (params.index !== undefined) {
+        target = await findByIndex(params.index);
+      } else {
+        throw new Error('Tab index or tabId is required for select action');
       }
-      await browser.tabs.update(target.id, { active: true });
-      return {
-        index: target.index,
-        title: target.title || '',
-        url: target.url || '',
-        active: true,
-      };
+      session.currentTabId = target.id!;
+      return toInfo(target);
+    }
+
+    case 'move': {
+      const target = command.tabId !== undefined
+        ? await getTabById(command.tabId, sessionId)
+        : await getSessionTab(sessionId);
+      return toInfo(await moveTab(target, params));
     }
 
+    case 'list_windows':
+      return listWindows();
+
+    case 'focus_window':
+      return focusWindow(params.windowId);
+
     default:
       throw new Error(`Unknown tabs action: ${params.action}`);
   }
 }
 
-async function handleClose(): Promise<Record<string, never>> {
-  const tab = await getActiveTab();
+async function handleClose(
+  command: Command & { action: 'close' },
+): Promise<Record<string, never>> {
+  const tab = await getTargetTab(command);
   await browser.tabs.remove(tab.id!);
+  forgetSessionTab(tab.id!);
   return {};
 }
 
@@ -490,7 +1031,7 @@ async function handleResize(
   command: Command & { action: 'resize' },
 ): Promise<Record<string, never>> {
   const { params } = command;
-  const tab = await getActiveTab();
+  const tab = await getTargetTab(command);
   await browser.windows.update(tab.windowId, {
     width: params.width,
     height: params.height,
@@ -522,7 +1063,7 @@ async function handleGetCookies(
   let url = params.url;
 
   if (!url) {
-    const tab = await getActiveTab();
+    const tab = await getTargetTab(command);
     url = tab.url || '';
   }
 
@@ -604,109 +1145,1268 @@ async function handleGetBookmarks(
 // Network request recording
 // ============================================================
 
-function handleNetworkRequests(
-  command: Command & { action: 'network_requests' },
-): NetworkRequestsResult {
-  const { params } = command;
-
-  switch (params.action) {
-    case 'start': {
-      if (networkRecording) {
-        return { recording: true, count: networkRequests.length };
-      }
-      networkRequests = [];
-      networkListener = (details) => {
-        if (networkRequests.length >= MAX_NETWORK_REQUESTS) return;
-        networkRequests.push({
-          url: details.url,
-          method: details.method,
-          statusCode: details.statusCode || 0,
-          type: details.type,
-          timeStamp: details.timeStamp,
-          tabId: details.tabId,
-        });
-      };
-      browser.webRequest.onCompleted.addListener(networkListener, {
-        urls: ['<all_urls>'],
-      });
-      networkErrorListener = (details) => {
-        if (networkRequests.length >= MAX_NETWORK_REQUESTS) return;
-        networkRequests.push({
-          url: details.url,
-          method: details.method,
-          statusCode: 0,
-          type: details.type,
-          timeStamp: details.timeStamp,
-          tabId: details.tabId,
-          error: details.error,
-        });
-      };
-      browser.webRequest.onErrorOccurred.addListener(networkErrorListener, {
-        urls: ['<all_urls>'],
-      });
-      networkRecording = true;
-      return { recording: true, count: 0 };
-    }
+/** Flatten webRequest headers, dropping binary-only values */
+function toHttpHeaders(headers: browser.webRequest.HttpHeaders): HttpHeader[] {
+  return headers.map((h) => ({ name: h.name, value: h.value ?? '' }));
+}
 
-    case 'stop': {
-      if (networkListener) {
-        browser.webRequest.onCompleted.removeListener(networkListener);
-        networkListener = null;
-      }
-      if (networkErrorListener) {
-        browser.webRequest.onErrorOccurred.removeListener(networkErrorListener);
-        networkErrorListener = null;
-      }
-      networkRecording = false;
-      return { recording: false, count: networkRequests.length };
-    }
+/** Concatenate byte chunks, keeping at most MAX_BODY_BYTES */
+function joinBytes(chunks: ArrayBuffer[]): { bytes: Uint8Array; truncated: boolean } {
+  const total = chunks.reduce((n, c) => n + c.byteLength, 0);
+  const bytes = new Uint8Array(Math.min(total, MAX_BODY_BYTES));
+  let offset = 0;
+  for (const chunk of chunks) {
+    if (offset >= bytes.length) break;
+    const part = new Uint8Array(chunk, 0, Math.min(chunk.byteLength, bytes.length - offset));
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return { bytes, truncated: total > MAX_BODY_BYTES };
+}
 
-    case 'get': {
-      let requests = [...networkRequests];
-      if (params.filter) {
-        const filter = params.filter.toLowerCase();
-        requests = requests.filter((r) =>
-          r.url.toLowerCase().includes(filter),
-        );
-      }
-      return { requests, recording: networkRecording };
-    }
+/** Decode a body as UTF-8 text, falling back to base64 for binary data */
+function decodeBody(bytes: Uint8Array): { body: string; encoding: 'text' | 'base64' } {
+  try {
+    return { body: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'text' };
+  } catch {
+    let binary = '';
+    for (const b of bytes) binary += String.fromCharCode(b);
+    return { body: btoa(binary), encoding: 'base64' };
+  }
+}
 
-    case 'clear': {
-      networkRequests = [];
-      return { recording: networkRecording, count: 0 };
+/** Render a webRequest request body as text */
+function readRequestBody(
+  requestBody: browser.webRequest.RequestBody,
+): { body: string; truncated: boolean } | undefined {
+  if (requestBody.formData) {
+    const params = new URLSearchParams();
+    for (const [key, values] of Object.entries(requestBody.formData)) {
+      for (const value of values) params.append(key, value);
     }
+    const body = params.toString();
+    return body.length > MAX_BODY_BYTES
+      ? { body: body.slice(0, MAX_BODY_BYTES), truncated: true }
+      : { body, truncated: false };
+  }
+  if (requestBody.raw) {
+    const chunks = requestBody.raw.flatMap((part) => (part.bytes ? [part.bytes] : []));
+    if (chunks.length === 0) return undefined;
+    const { bytes, truncated } = joinBytes(chunks);
+    return { body: new TextDecoder('utf-8').decode(bytes), truncated };
+  }
+  return undefined;
+}
 
-    default:
-      throw new Error(`Unknown network action: ${params.action}`);
+/**
+ * Tee a response body into the record via filterResponseData, passing
+ * every chunk through to the page unchanged.
+ */
+function captureResponseBody(record: NetworkRequestInfo): void {
+  let filter: browser.webRequest.StreamFilter;
+  try {
+    filter = browser.webRequest.filterResponseData(record.requestId);
+  } catch (err) {
+    logError(`Cannot capture response body for ${record.url}:`, err);
+    return;
   }
+  const chunks: ArrayBuffer[] = [];
+  let captured = 0;
+  filter.ondata = (event) => {
+    filter.write(event.data);
+    if (captured <= MAX_BODY_BYTES) {
+      chunks.push(event.data);
+      captured += event.data.byteLength;
+    }
+  };
+  const finish = (): void => {
+    const { bytes, truncated } = joinBytes(chunks);
+    const { body, encoding } = decodeBody(bytes);
+    record.responseBody = body;
+    record.responseBodyEncoding = encoding;
+    if (truncated) record.responseBodyTruncated = true;
+  };
+  filter.onstop = () => {
+    finish();
+    filter.close();
+  };
+  filter.onerror = () => {
+    if (chunks.length > 0) finish();
+  };
 }
 
-async function handleSavePdf(
-  command: Command & { action: 'save_pdf' },
-): Promise<SavePdfResult> {
-  const { params } = command;
-  const pageSettings: {
-    headerLeft?: string;
-    headerRight?: string;
-    footerLeft?: string;
-    footerRight?: string;
-  } = {};
-  if (params.headerLeft !== undefined) pageSettings.headerLeft = params.headerLeft;
-  if (params.headerRight !== undefined) pageSettings.headerRight = params.headerRight;
-  if (params.footerLeft !== undefined) pageSettings.footerLeft = params.footerLeft;
-  if (params.footerRight !== undefined) pageSettings.footerRight = params.footerRight;
+/** Recorders currently recording requests from a tab */
+function recordersFor(tabId: number): NetworkRecorder[] {
+  return [...networkRecorders.values()].filter((r) => r.recording && inRuleScope(r, tabId));
+}
 
-  const status = await browser.tabs.saveAsPDF(pageSettings);
-  return {
-    saved: status === 'saved' || status === 'replaced',
-    status,
+/** Move a finished request from pendingRequests into the buffers of the recorders it belongs to */
+function completeRequest(
+  details: browser.webRequest.RequestDetails | browser.webRequest.ErrorDetails,
+): NetworkRequestInfo | null {
+  const record = pendingRequests.get(details.requestId) ?? {
+    // Started before recording began
+    requestId: details.requestId,
+    url: details.url,
+    method: details.method,
+    statusCode: 0,
+    type: details.type,
+    timeStamp: details.timeStamp,
+    tabId: details.tabId,
   };
+  pendingRequests.delete(details.requestId);
+  record.endTime = details.timeStamp;
+  const recorders = recordersFor(details.tabId).filter(
+    (r) => r.requests.length < MAX_NETWORK_REQUESTS,
+  );
+  if (recorders.length === 0) return null;
+  for (const recorder of recorders) recorder.requests.push(record);
+  return record;
 }
 
-// ============================================================
-// Command dispatcher
-// ============================================================
+/** Summary of a request for list output, without headers and bodies */
+function summarizeRequest(r: NetworkRequestInfo): NetworkRequestInfo {
+  const {
+    requestHeaders: _requestHeaders,
+    responseHeaders: _responseHeaders,
+    requestBody: _requestBody,
+    requestBodyTruncated: _requestBodyTruncated,
+    responseBody: _responseBody,
+    responseBodyEncoding: _responseBodyEncoding,
+    responseBodyTruncated: _responseBodyTruncated,
+    ...summary
+  } = r;
+  return summary;
+}
+
+function startNetworkRecording(captureBodies: boolean): void {
+  const filter = { urls: ['<all_urls>'] };
+  networkListeners = {
+    captureBodies,
+    beforeRequest: (details) => {
+      const recorders = recordersFor(details.tabId);
+      if (recorders.length === 0) return;
+      const wantsBodies = recorders.some((r) => r.captureBodies);
+      const record: NetworkRequestInfo = {
+        requestId: details.requestId,
+        url: details.url,
+        method: details.method,
+        statusCode: 0,
+        type: details.type,
+        timeStamp: details.timeStamp,
+        tabId: details.tabId,
+      };
+      if (wantsBodies && details.requestBody) {
+        const body = readRequestBody(details.requestBody);
+        if (body) {
+          record.requestBody = body.body;
+          if (body.truncated) record.requestBodyTruncated = true;
+        }
+      }
+      pendingRequests.set(details.requestId, record);
+      if (wantsBodies && RESPONSE_BODY_TYPES.has(details.type)) {
+        captureResponseBody(record);
+      }
+    },
+    sendHeaders: (details) => {
+      const record = pendingRequests.get(details.requestId);
+      if (record && details.requestHeaders) {
+        record.requestHeaders = toHttpHeaders(details.requestHeaders);
+      }
+    },
+    responseStarted: (details) => {
+      const record = pendingRequests.get(details.requestId);
+      if (record) record.responseStartTime = details.timeStamp;
+    },
+    completed: (details) => {
+      const record = completeRequest(details);
+      if (!record) return;
+      record.statusCode = details.statusCode || 0;
+      if (details.statusLine) record.statusLine = details.statusLine;
+      if (details.responseHeaders) {
+        record.responseHeaders = toHttpHeaders(details.responseHeaders);
+      }
+    },
+    error: (details) => {
+      const record = completeRequest(details);
+      if (record) record.error = details.error;
+    },
+  };
+
+  // filterResponseData only works from a blocking onBeforeRequest listener
+  browser.webRequest.onBeforeRequest.addListener(
+    networkListeners.beforeRequest,
+    filter,
+    captureBodies ? ['blocking', 'requestBody'] : [],
+  );
+  browser.webRequest.onSendHeaders.addListener(networkListeners.sendHeaders, filter, [
+    'requestHeaders',
+  ]);
+  browser.webRequest.onResponseStarted.addListener(networkListeners.responseStarted, filter);
+  browser.webRequest.onCompleted.addListener(networkListeners.completed, filter, [
+    'responseHeaders',
+  ]);
+  browser.webRequest.onErrorOccurred.addListener(networkListeners.error, filter);
+}
+
+function stopNetworkRecording(): void {
+  if (networkListeners) {
+    browser.webRequest.onBeforeRequest.removeListener(networkListeners.beforeRequest);
+    browser.webRequest.onSendHeaders.removeListener(networkListeners.sendHeaders);
+    browser.webRequest.onResponseStarted.removeListener(networkListeners.responseStarted);
+    browser.webRequest.onCompleted.removeListener(networkListeners.completed);
+    browser.webRequest.onErrorOccurred.removeListener(networkListeners.error);
+    networkListeners = null;
+  }
+  pendingRequests.clear();
+}
+
+/**
+ * Keep the webRequest listeners in step with the recorders: installed
+ * while any is recording, and with body capture while any wants bodies.
+ */
+function syncNetworkListeners(): void {
+  const recording = [...networkRecorders.values()].filter((r) => r.recording);
+  const captureBodies = recording.some((r) => r.captureBodies);
+  if (networkListeners && (recording.length === 0 || networkListeners.captureBodies !== captureBodies)) {
+    stopNetworkRecording();
+  }
+  if (recording.length > 0 && !networkListeners) startNetworkRecording(captureBodies);
+}
+
+/** Whether any recorder is recording requests from a tab */
+function isRecordingTab(tabId: number): boolean {
+  return recordersFor(tabId).length > 0;
+}
+
+/** Find a header value (case-insensitive) */
+function headerValue(headers: HttpHeader[] | undefined, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers?.find((h) => h.name.toLowerCase() === lower)?.value;
+}
+
+/** Convert one recorded request into a HAR entry */
+function toHarEntry(r: NetworkRequestInfo): HarEntry {
+  // "HTTP/1.1 404 Not Found" -> version "HTTP/1.1", text "Not Found"
+  const statusMatch = r.statusLine?.match(/^(\S+)\s+\d+\s*(.*)$/);
+  const httpVersion = statusMatch?.[1] ?? '';
+  // HAR requires send, wait and receive, adding up to the entry's time. Without
+  // a response start (a failed request), everything until the end is waiting.
+  const responseStart = r.responseStartTime ?? r.endTime ?? r.timeStamp;
+  const wait = responseStart - r.timeStamp;
+  const receive = r.endTime !== undefined ? r.endTime - responseStart : 0;
+
+  let queryString: HarEntry['request']['queryString'] = [];
+  try {
+    queryString = [...new URL(r.url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    // Not a parseable URL (e.g. data:) — leave the query string empty
+  }
+
+  const requestMime = headerValue(r.requestHeaders, 'content-type') ?? '';
+  const responseMime = headerValue(r.responseHeaders, 'content-type') ?? '';
+  const contentLength = Number(headerValue(r.responseHeaders, 'content-length') ?? 0);
+
+  const entry: HarEntry = {
+    startedDateTime: new Date(r.timeStamp).toISOString(),
+    time: wait + receive,
+    request: {
+      method: r.method,
+      url: r.url,
+      httpVersion,
+      cookies: [],
+      headers: r.requestHeaders ?? [],
+      queryString,
+      headersSize: -1,
+      bodySize: r.requestBody !== undefined ? r.requestBody.length : 0,
+    },
+    response: {
+      status: r.statusCode,
+      statusText: statusMatch?.[2] ?? '',
+      httpVersion,
+      cookies: [],
+      headers: r.responseHeaders ?? [],
+      content: { size: Number.isFinite(contentLength) ? contentLength : 0, mimeType: responseMime },
+      redirectURL: headerValue(r.responseHeaders, 'location') ?? '',
+      headersSize: -1,
+      bodySize: -1,
+    },
+    cache: {},
+    timings: { blocked: -1, dns: -1, connect: -1, send: 0, wait, receive, ssl: -1 },
+    _resourceType: r.type,
+  };
+  if (r.requestBody !== undefined) {
+    entry.request.postData = { mimeType: requestMime, text: r.requestBody };
+  }
+  if (r.responseBody !== undefined) {
+    entry.response.content.text = r.responseBody;
+    if (r.responseBodyEncoding === 'base64') entry.response.content.encoding = 'base64';
+  }
+  if (r.tabId !== undefined) entry._tabId = r.tabId;
+  if (r.error) entry._error = r.error;
+  return entry;
+}
+
+async function buildHar(requests: NetworkRequestInfo[]): Promise<HarDocument> {
+  const info = await browser.runtime.getBrowserInfo();
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'Agent Fox', version: browser.runtime.getManifest().version },
+      browser: { name: info.name, version: info.version },
+      entries: requests.map(toHarEntry),
+    },
+  };
+}
+
+/**
+ * Start or stop WebSocket/EventSource frame capture in the open tabs that
+ * pass `inScope`. Tabs without a content script (e.g. about: pages) are
+ * skipped.
+ */
+async function broadcastFrameCapture(
+  action: 'start' | 'stop',
+  inScope: (tabId: number) => boolean,
+): Promise<void> {
+  const tabs = await browser.tabs.query({});
+  await Promise.all(
+    tabs.filter((tab) => inScope(tab.id!)).map((tab) =>
+      sendToContentScript(tab.id!, {
+        id: `frames-${action}-${tab.id}`,
+        action: 'network_requests',
+        params: { action },
+      }),
+    ),
+  );
+}
+
+/** Parse an ISO 8601 filter bound into ms since epoch */
+function parseTimeBound(value: string | undefined, name: string): number | undefined {
+  if (!value) return undefined;
+  const t = new Date(value).getTime();
+  if (isNaN(t)) throw new Error(`Invalid ${name}: "${value}"`);
+  return t;
+}
+
+/** Recorded requests matching every filter given for get/export */
+function filterRequests(
+  requests: NetworkRequestInfo[],
+  command: Command & { action: 'network_requests' },
+): NetworkRequestInfo[] {
+  const { params } = command;
+  const url = params.filter?.toLowerCase();
+  const method = params.method?.toUpperCase();
+  const startTime = parseTimeBound(params.startTime, 'startTime');
+  const endTime = parseTimeBound(params.endTime, 'endTime');
+  const hasStatusRange = params.statusMin !== undefined || params.statusMax !== undefined;
+
+  return requests.filter((r) => {
+    if (url && !r.url.toLowerCase().includes(url)) return false;
+    if (command.tabId !== undefined && r.tabId !== command.tabId) return false;
+    if (method && r.method.toUpperCase() !== method) return false;
+    if (params.resourceType && r.type !== params.resourceType) return false;
+    if (hasStatusRange) {
+      if (r.statusCode === 0) return false;
+      if (params.statusMin !== undefined && r.statusCode < params.statusMin) return false;
+      if (params.statusMax !== undefined && r.statusCode > params.statusMax) return false;
+    }
+    if (params.failedOnly && !r.error && r.statusCode < 400) return false;
+    if (startTime !== undefined && r.timeStamp < startTime) return false;
+    if (endTime !== undefined && r.timeStamp > endTime) return false;
+    return true;
+  });
+}
+
+async function handleNetworkRequests(
+  command: Command & { action: 'network_requests' },
+): Promise<NetworkRequestsResult> {
+  const { params } = command;
+  const key = command.sessionId ?? '';
+  const recorder = networkRecorders.get(key);
+  const requests = recorder?.requests ?? [];
+  const recording = recorder?.recording ?? false;
+
+  switch (params.action) {
+    case 'start': {
+      if (recorder?.recording) {
+        return { recording: true, count: recorder.requests.length };
+      }
+      const started: NetworkRecorder = {
+        recording: true,
+        captureBodies: params.captureBodies ?? false,
+        requests: [],
+        ...(command.sessionId ? { sessionId: command.sessionId } : {}),
+      };
+      networkRecorders.set(key, started);
+      syncNetworkListeners();
+      await broadcastFrameCapture('start', (tabId) => inRuleScope(started, tabId));
+      return { recording: true, count: 0 };
+    }
+
+    case 'stop': {
+      if (!recorder) return { recording: false, count: 0 };
+      recorder.recording = false;
+      syncNetworkListeners();
+      // Tabs another session is still recording keep their frame capture
+      await broadcastFrameCapture(
+        'stop',
+        (tabId) => inRuleScope(recorder, tabId) && !isRecordingTab(tabId),
+      );
+      return { recording: false, count: requests.length };
+    }
+
+    case 'frames': {
+      // Frames are buffered by the page that saw them
+      const response = await forwardToContentScript(command);
+      if (!response.success) {
+        throw new Error(response.error ?? 'Failed to read socket frames');
+      }
+      return response.result as NetworkRequestsResult;
+    }
+
+    case 'get': {
+      const matches = filterRequests(requests, command);
+      const offset = Math.max(0, params.offset ?? 0);
+      const end = params.limit !== undefined ? offset + Math.max(0, params.limit) : undefined;
+      return {
+        requests: matches.slice(offset, end).map(summarizeRequest),
+        total: matches.length,
+        offset,
+        count: requests.length,
+        recording,
+      };
+    }
+
+    case 'export': {
+      const har = await buildHar(filterRequests(requests, command));
+      return { har, recording };
+    }
+
+    case 'detail': {
+      if (!params.requestId) {
+        throw new Error('requestId is required for detail action');
+      }
+      const request = requests.find((r) => r.requestId === params.requestId);
+      if (!request) {
+        throw new Error(
+          `No recorded request with ID ${params.requestId}. Use the get action to list request IDs.`,
+        );
+      }
+      return { request, recording };
+    }
+
+    case 'clear': {
+      if (recorder) recorder.requests = [];
+      // Best effort: the target tab may have no content script
+      await forwardToContentScript(command).catch(() => undefined);
+      return { recording, count: 0 };
+    }
+
+    default:
+      throw new Error(`Unknown network action: ${params.action}`);
+  }
+}
+
+// ============================================================
+// Network interception rules
+// ============================================================
+
+/** A urlPattern as a RegExp: patterns with `*` are whole-URL globs, others substrings */
+function urlPatternRegex(pattern: string): RegExp {
+  const escape = (part: string) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  if (pattern.includes('*')) {
+    return new RegExp(`^${pattern.split('*').map(escape).join('.*')}$`, 'i');
+  }
+  return new RegExp(escape(pattern), 'i');
+}
+
+/** Compile a urlPattern into a URL test, see urlPatternRegex */
+function compileUrlPattern(pattern: string): (url: string) => boolean {
+  const regex = urlPatternRegex(pattern);
+  return (url) => regex.test(url);
+}
+
+/** Whether a request from tabId is within a rule's tab, or its session's tabs */
+function inRuleScope(rule: { tabId?: number; sessionId?: string }, tabId: number): boolean {
+  if (rule.tabId !== undefined) return tabId === rule.tabId;
+  return !rule.sessionId || !!sessionTabs.get(rule.sessionId)?.tabIds.has(tabId);
+}
+
+function ruleApplies(
+  rule: ActiveInterceptRule,
+  details: browser.webRequest.BeforeRequestDetails,
+): boolean {
+  if (!inRuleScope(rule, details.tabId)) return false;
+  if (rule.method && rule.method !== details.method.toUpperCase()) return false;
+  // Never intercept the request a redirect rule produced, or it would loop
+  if (rule.redirectUrl === details.url) return false;
+  return rule.matches(details.url);
+}
+
+/** The rule as reported to the server, without background-only fields */
+function toInterceptRule(rule: ActiveInterceptRule): InterceptRule {
+  const { sessionId: _sessionId, matches: _matches, ...info } = rule;
+  return info;
+}
+
+/**
+ * A data: URL serving a fulfill rule's body, for the requests the page's
+ * fulfill hook does not see (documents, scripts, images, workers...).
+ * These never reach the network, but always get status 200.
+ */
+function fulfillmentUrl(rule: ActiveInterceptRule): string {
+  let binary = '';
+  for (const b of new TextEncoder().encode(rule.body ?? '')) binary += String.fromCharCode(b);
+  return `data:${rule.contentType || 'text/plain;charset=utf-8'};base64,${btoa(binary)}`;
+}
+
+/** The rules in scope for a tab, in order, as its fulfill hook matches them */
+function pageInterceptRules(tabId: number): PageInterceptRule[] {
+  return interceptRules
+    .filter((r) => inRuleScope(r, tabId))
+    .map((r) => ({
+      id: r.id,
+      url: urlPatternRegex(r.urlPattern).source,
+      method: r.method,
+      behavior: r.behavior,
+      status: r.status,
+      contentType: r.contentType,
+      body: r.body,
+    }));
+}
+
+/** Install the fulfill hook, or update its rules, in a tab's current page */
+function injectFulfillHook(tabId: number, runAt?: 'document_start'): void {
+  const rules = pageInterceptRules(tabId);
+  const fulfills = rules.some((r) => r.behavior === 'fulfill');
+  // Pages without a hook need none; a page with one must hear its rules are gone
+  if (!fulfills && !fulfillHookTabs.delete(tabId)) return;
+  if (fulfills) fulfillHookTabs.add(tabId);
+  browser.tabs
+    .executeScript(tabId, { code: fulfillInjectionCode(fulfills ? rules : []), runAt, frameId: 0 })
+    // Privileged pages (about:, addons.mozilla.org) refuse injection
+    .catch(() => {});
+}
+
+/** Bring every tab's fulfill hook up to date with interceptRules */
+async function syncFulfillHooks(): Promise<void> {
+  let tabs: browser.Tab[];
+  try {
+    tabs = await browser.tabs.query({});
+  } catch (err) {
+    logError('Cannot list tabs for fulfill rules:', err);
+    return;
+  }
+  for (const tab of tabs) {
+    if (tab.id !== undefined) injectFulfillHook(tab.id);
+  }
+}
+
+/** Count a fetch or XHR that a page's fulfill hook answered */
+function countPageFulfillment(message: unknown, sender: browser.runtime.MessageSender): void {
+  const { type, ruleId } = (message ?? {}) as { type?: string; ruleId?: string };
+  if (type !== FULFILL_HIT_MESSAGE || sender.tab?.id === undefined) return;
+  const rule = interceptRules.find((r) => r.id === ruleId);
+  if (rule && inRuleScope(rule, sender.tab.id)) rule.hits++;
+}
+
+function installInterceptListeners(): void {
+  const filter = { urls: ['<all_urls>'] };
+  interceptListeners = {
+    beforeRequest: (details) => {
+      const rule = interceptRules.find((r) => ruleApplies(r, details));
+      if (!rule) return;
+      rule.hits++;
+      switch (rule.behavior) {
+        case 'block':
+          return { cancel: true };
+        case 'redirect':
+          return { redirectUrl: rule.redirectUrl };
+        case 'delay':
+          return new Promise((resolve) => setTimeout(() => resolve({}), rule.delayMs));
+        case 'fulfill':
+          return { redirectUrl: fulfillmentUrl(rule) };
+      }
+    },
+  };
+
+  browser.webRequest.onBeforeRequest.addListener(interceptListeners.beforeRequest, filter, [
+    'blocking',
+  ]);
+}
+
+/**
+ * Keep the blocking listener installed exactly while there are rules, and
+ * the pages' fulfill hooks in step with them.
+ */
+function syncInterceptListeners(): void {
+  if (interceptRules.length > 0 && !interceptListeners) {
+    installInterceptListeners();
+  } else if (interceptRules.length === 0 && interceptListeners) {
+    browser.webRequest.onBeforeRequest.removeListener(interceptListeners.beforeRequest);
+    interceptListeners = null;
+  }
+  void syncFulfillHooks();
+}
+
+/** Drop the interception and header rules scoped to a tab once it closes */
+function forgetTabRules(tabId: number): void {
+  fulfillHookTabs.delete(tabId);
+  interceptRules = interceptRules.filter((r) => r.tabId !== tabId);
+  syncInterceptListeners();
+  headerRules = headerRules.filter((r) => r.tabId !== tabId);
+  syncHeaderListener();
+}
+
+async function handleNetworkIntercept(
+  command: Command & { action: 'network_intercept' },
+): Promise<NetworkInterceptResult> {
+  const { params } = command;
+  const sessionRules = (): InterceptRule[] =>
+    interceptRules.filter((r) => r.sessionId === command.sessionId).map(toInterceptRule);
+
+  switch (params.action) {
+    case 'add': {
+      if (!params.urlPattern) {
+        throw new Error('urlPattern is required for add action');
+      }
+      if (!params.behavior) {
+        throw new Error('behavior is required for add action');
+      }
+      const rule: ActiveInterceptRule = {
+        id: `rule-${++interceptRuleCounter}`,
+        urlPattern: params.urlPattern,
+        behavior: params.behavior,
+        hits: 0,
+        matches: compileUrlPattern(params.urlPattern),
+      };
+
+      switch (params.behavior) {
+        case 'block':
+          break;
+        case 'redirect':
+          if (!params.redirectUrl) {
+            throw new Error('redirectUrl is required for redirect rules');
+          }
+          try {
+            new URL(params.redirectUrl);
+          } catch {
+            throw new Error(`Invalid redirectUrl: "${params.redirectUrl}"`);
+          }
+          rule.redirectUrl = params.redirectUrl;
+          break;
+        case 'delay':
+          if (
+            typeof params.delayMs !== 'number' ||
+            !(params.delayMs > 0) ||
+            params.delayMs > MAX_INTERCEPT_DELAY_MS
+          ) {
+            throw new Error(
+              `delayMs must be between 1 and ${MAX_INTERCEPT_DELAY_MS} for delay rules`,
+            );
+          }
+          rule.delayMs = params.delayMs;
+          break;
+        case 'fulfill':
+          if (
+            params.status !== undefined &&
+            !(Number.isInteger(params.status) && params.status >= 200 && params.status <= 599)
+          ) {
+            throw new Error('status must be an HTTP status code between 200 and 599');
+          }
+          rule.status = params.status ?? 200;
+          rule.body = params.body ?? '';
+          if (params.contentType) rule.contentType = params.contentType;
+          break;
+        default:
+          throw new Error(`Unknown intercept behavior: ${params.behavior}`);
+      }
+
+      if (params.method) rule.method = params.method.toUpperCase();
+      if (!params.allTabs) rule.tabId = (await getTargetTab(command)).id;
+      if (command.sessionId) rule.sessionId = command.sessionId;
+
+      interceptRules.push(rule);
+      syncInterceptListeners();
+      return { rules: sessionRules(), added: toInterceptRule(rule) };
+    }
+
+    case 'list':
+      return { rules: sessionRules() };
+
+    case 'remove': {
+      if (!params.ruleId) {
+        throw new Error('ruleId is required for remove action');
+      }
+      const index = interceptRules.findIndex(
+        (r) => r.id === params.ruleId && r.sessionId === command.sessionId,
+      );
+      if (index === -1) {
+        throw new Error(
+          `No interception rule with ID ${params.ruleId}. Use the list action to see rule IDs.`,
+        );
+      }
+      interceptRules.splice(index, 1);
+      syncInterceptListeners();
+      return { rules: sessionRules(), removed: 1 };
+    }
+
+    case 'clear': {
+      const before = interceptRules.length;
+      interceptRules = interceptRules.filter((r) => r.sessionId !== command.sessionId);
+      syncInterceptListeners();
+      return { rules: sessionRules(), removed: before - interceptRules.length };
+    }
+
+    default:
+      throw new Error(`Unknown network_intercept action: ${params.action}`);
+  }
+}
+
+// ============================================================
+// Request header rules
+// ============================================================
+
+/** Apply a rule's removals and overrides to a request's headers */
+function rewriteHeaders(
+  headers: browser.webRequest.HttpHeaders,
+  rule: ActiveHeaderRule,
+): browser.webRequest.HttpHeaders {
+  const replaced = new Set(
+    [...rule.remove, ...rule.set.map((h) => h.name)].map((name) => name.toLowerCase()),
+  );
+  return [...headers.filter((h) => !replaced.has(h.name.toLowerCase())), ...rule.set];
+}
+
+/** The rule as reported to the server, without background-only fields */
+function toHeaderRule(rule: ActiveHeaderRule): HeaderRule {
+  const { sessionId: _sessionId, matches: _matches, ...info } = rule;
+  return info;
+}
+
+/** Keep the blocking listener installed exactly while there are rules */
+function syncHeaderListener(): void {
+  if (headerRules.length > 0 && !headerListener) {
+    headerListener = (details) => {
+      let headers = details.requestHeaders;
+      if (!headers) return;
+      let rewritten = false;
+      for (const rule of headerRules) {
+        if (!inRuleScope(rule, details.tabId) || !rule.matches(details.url)) continue;
+        headers = rewriteHeaders(headers, rule);
+        rule.hits++;
+        rewritten = true;
+      }
+      return rewritten ? { requestHeaders: headers } : undefined;
+    };
+    browser.webRequest.onBeforeSendHeaders.addListener(
+      headerListener,
+      { urls: ['<all_urls>'] },
+      ['blocking', 'requestHeaders'],
+    );
+  } else if (headerRules.length === 0 && headerListener) {
+    browser.webRequest.onBeforeSendHeaders.removeListener(headerListener);
+    headerListener = null;
+  }
+}
+
+async function handleNetworkHeaders(
+  command: Command & { action: 'network_headers' },
+): Promise<NetworkHeadersResult> {
+  const { params } = command;
+  const sessionRules = (): HeaderRule[] =>
+    headerRules.filter((r) => r.sessionId === command.sessionId).map(toHeaderRule);
+
+  switch (params.action) {
+    case 'add': {
+      if (!params.urlPattern) {
+        throw new Error('urlPattern is required for add action');
+      }
+      const set = Object.entries(params.set ?? {}).map(([name, value]) => ({ name, value }));
+      const remove = params.removeHeaders ?? [];
+      if (set.length === 0 && remove.length === 0) {
+        throw new Error('add needs at least one header to set or remove');
+      }
+      for (const name of [...set.map((h) => h.name), ...remove]) {
+        if (!HEADER_NAME_PATTERN.test(name)) {
+          throw new Error(`Invalid header name: "${name}"`);
+        }
+      }
+
+      const rule: ActiveHeaderRule = {
+        id: `headers-${++headerRuleCounter}`,
+        urlPattern: params.urlPattern,
+        set,
+        remove,
+        hits: 0,
+        matches: compileUrlPattern(params.urlPattern),
+      };
+      if (!params.allTabs) rule.tabId = (await getTargetTab(command)).id;
+      if (command.sessionId) rule.sessionId = command.sessionId;
+
+      headerRules.push(rule);
+      syncHeaderListener();
+      return { rules: sessionRules(), added: toHeaderRule(rule) };
+    }
+
+    case 'list':
+      return { rules: sessionRules() };
+
+    case 'remove': {
+      if (!params.ruleId) {
+        throw new Error('ruleId is required for remove action');
+      }
+      const index = headerRules.findIndex(
+        (r) => r.id === params.ruleId && r.sessionId === command.sessionId,
+      );
+      if (index === -1) {
+        throw new Error(
+          `No header rule with ID ${params.ruleId}. Use the list action to see rule IDs.`,
+        );
+      }
+      headerRules.splice(index, 1);
+      syncHeaderListener();
+      return { rules: sessionRules(), removed: 1 };
+    }
+
+    case 'clear': {
+      const before = headerRules.length;
+      headerRules = headerRules.filter((r) => r.sessionId !== command.sessionId);
+      syncHeaderListener();
+      return { rules: sessionRules(), removed: before - headerRules.length };
+    }
+
+    default:
+      throw new Error(`Unknown network_headers action: ${params.action}`);
+  }
+}
+
+// ============================================================
+// Page waits
+// ============================================================
+
+function noteRequestStarted(details: { requestId: string; tabId: number }): void {
+  if (details.tabId < 0) return;
+  let activity = tabNetworkActivity.get(details.tabId);
+  if (!activity) {
+    activity = { inflight: new Set(), lastChange: 0 };
+    tabNetworkActivity.set(details.tabId, activity);
+  }
+  activity.inflight.add(details.requestId);
+  activity.lastChange = Date.now();
+}
+
+function noteRequestFinished(details: { requestId: string; tabId: number }): void {
+  const activity = tabNetworkActivity.get(details.tabId);
+  if (activity?.inflight.delete(details.requestId)) activity.lastChange = Date.now();
+}
+
+function forgetTabActivity(tabId: number): void {
+  tabNetworkActivity.delete(tabId);
+}
+
+/** Resolve true once the tab's URL matches, false after timeoutMs */
+function waitForTabUrl(
+  tabId: number,
+  matches: (url: string) => boolean,
+  timeoutMs: number,
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    function finish(matched: boolean) {
+      clearTimeout(timeout);
+      browser.tabs.onUpdated.removeListener(onUpdated);
+      resolve(matched);
+    }
+    function onUpdated(updatedTabId: number, changeInfo: { url?: string }) {
+      if (updatedTabId === tabId && changeInfo.url && matches(changeInfo.url)) finish(true);
+    }
+
+    const timeout = setTimeout(() => finish(false), timeoutMs);
+    browser.tabs.onUpdated.addListener(onUpdated);
+    browser.tabs.get(tabId).then(
+      (tab) => {
+        if (tab.url && matches(tab.url)) finish(true);
+      },
+      () => finish(false),
+    );
+  });
+}
+
+/**
+ * Resolve true once the tab's top-level document reaches the load state,
+ * false after timeoutMs. A tab that has finished loading satisfies both.
+ */
+function waitForLoadState(
+  tabId: number,
+  state: 'domcontentloaded' | 'load',
+  timeoutMs: number,
+): Promise<boolean> {
+  return new Promise((resolve) => {
+    function finish(reached: boolean) {
+      clearTimeout(timeout);
+      browser.tabs.onUpdated.removeListener(onUpdated);
+      browser.webNavigation.onDOMContentLoaded.removeListener(onDOMContentLoaded);
+      resolve(reached);
+    }
+    function onUpdated(updatedTabId: number, changeInfo: { status?: string }) {
+      if (updatedTabId === tabId && changeInfo.status === 'complete') finish(true);
+    }
+    function onDOMContentLoaded(details: browser.webNavigation.NavigationDetails) {
+      if (state === 'domcontentloaded' && details.tabId === tabId && details.frameId === 0) {
+        finish(true);
+      }
+    }
+
+    const timeout = setTimeout(() => finish(false), timeoutMs);
+    browser.tabs.onUpdated.addListener(onUpdated);
+    browser.webNavigation.onDOMContentLoaded.addListener(onDOMContentLoaded);
+    browser.tabs.get(tabId).then(
+      (tab) => {
+        if (tab.status === 'complete') finish(true);
+      },
+      () => finish(false),
+    );
+  });
+}
+
+/**
+ * Resolve true once the tab has had no request in flight for idleMs,
+ * counted from no earlier than the start of the wait; false after timeoutMs.
+ */
+function waitForNetworkIdle(tabId: number, idleMs: number, timeoutMs: number): Promise<boolean> {
+  const startedAt = Date.now();
+  return new Promise((resolve) => {
+    function check() {
+      const now = Date.now();
+      const activity = tabNetworkActivity.get(tabId);
+      const quietSince = Math.max(activity?.lastChange ?? 0, startedAt);
+      if (!activity?.inflight.size && now - quietSince >= idleMs) {
+        resolve(true);
+      } else if (now - startedAt >= timeoutMs) {
+        resolve(false);
+      } else {
+        setTimeout(check, NETWORK_IDLE_POLL_MS);
+      }
+    }
+    check();
+  });
+}
+
+/**
+ * Wait for page conditions (URL, load state, network idle) here, where
+ * they survive navigations, then hand any text condition to the content
+ * script with what is left of the timeout.
+ */
+async function handleWaitFor(
+  command: Command & { action: 'wait_for' },
+): Promise<WaitForResult> {
+  const { params } = command;
+  const hasPageConditions =
+    params.url !== undefined || params.loadState !== undefined || params.networkIdle !== undefined;
+
+  if (hasPageConditions) {
+    const deadline = Date.now() + (params.time ?? 30) * 1000;
+    const remaining = () => Math.max(0, deadline - Date.now());
+    const tabId = (await getTargetTab(command)).id!;
+
+    if (params.url && !(await waitForTabUrl(tabId, compileUrlPattern(params.url), remaining()))) {
+      return { matched: false, timedOut: 'url' };
+    }
+    if (params.loadState && !(await waitForLoadState(tabId, params.loadState, remaining()))) {
+      return { matched: false, timedOut: 'loadState' };
+    }
+    if (
+      params.networkIdle !== undefined &&
+      !(await waitForNetworkIdle(tabId, params.networkIdle, remaining()))
+    ) {
+      return { matched: false, timedOut: 'networkIdle' };
+    }
+    const { url: _url, loadState: _loadState, networkIdle: _networkIdle, ...contentParams } = params;
+    if (!params.text && !params.textGone && !params.selector && !params.ref) {
+      return { matched: true };
+    }
+
+    // The content script treats a zero time as "use the default"
+    const time = Math.max(remaining(), 1) / 1000;
+    const response = await sendToContentScript(tabId, {
+      ...command,
+      params: { ...contentParams, time },
+    });
+    if (!response.success) throw new Error(response.error ?? 'Wait failed');
+    const result = response.result as WaitForResult;
+    if (result.matched) return result;
+    return { matched: false, timedOut: params.selector || params.ref ? 'element' : 'text' };
+  }
+
+  const response = await forwardToContentScript(command);
+  if (!response.success) throw new Error(response.error ?? 'Wait failed');
+  return response.result as WaitForResult;
+}
+
+// ============================================================
+// Console capture
+// ============================================================
+
+async function handleConsoleMessages(
+  command: Command & { action: 'console_messages' },
+): Promise<ConsoleMessagesResult> {
+  const tab = await getTargetTab(command);
+  const response = await sendToContentScript(tab.id!, command);
+  if (!response.success) {
+    throw new Error(response.error ?? 'Console capture failed');
+  }
+  if (command.params.action === 'start') consoleTabs.add(tab.id!);
+  if (command.params.action === 'stop') consoleTabs.delete(tab.id!);
+  return response.result as ConsoleMessagesResult;
+}
+
+/**
+ * Install the page hooks a tab is capturing with as soon as it commits to
+ * a new page, before the page's own scripts run: the console hook for
+ * consoleTabs, the socket frame hook for tabs whose network traffic is
+ * being recorded. The hooks buffer until rearmPageHooks has the content script
+ * claim what they saw.
+ */
+function injectPageHooks(details: browser.webNavigation.NavigationDetails): void {
+  if (details.frameId !== 0) return;
+  const sources: string[] = [];
+  if (consoleTabs.has(details.tabId)) sources.push(consoleHookSource());
+  if (isRecordingTab(details.tabId)) sources.push(socketHookSource());
+  // A new page starts without a fulfill hook, whatever the last one had
+  fulfillHookTabs.delete(details.tabId);
+  injectFulfillHook(details.tabId, 'document_start');
+  if (sources.length === 0) return;
+  browser.tabs
+    .executeScript(details.tabId, {
+      code: pageInjectionCode(sources.join('\n')),
+      runAt: 'document_start',
+      frameId: 0,
+    })
+    // Privileged pages (about:, addons.mozilla.org) refuse injection
+    .catch(() => {});
+}
+
+/**
+ * Re-start capture in a tab once its new page has loaded: the console
+ * hook for consoleTabs, the socket frame hook for tabs whose network
+ * traffic is being recorded. Starting claims what hooks installed by
+ * injectPageHooks buffered during the load.
+ */
+function rearmPageHooks(tabId: number, changeInfo: { status?: string }): void {
+  if (changeInfo.status !== 'complete') return;
+  if (consoleTabs.has(tabId)) {
+    void sendToContentScript(tabId, {
+      id: `console-rearm-${tabId}`,
+      action: 'console_messages',
+      params: { action: 'start' },
+    });
+  }
+  if (isRecordingTab(tabId)) {
+    void sendToContentScript(tabId, {
+      id: `frames-rearm-${tabId}`,
+      action: 'network_requests',
+      params: { action: 'start' },
+    });
+  }
+}
+
+function forgetConsoleTab(tabId: number): void {
+  consoleTabs.delete(tabId);
+}
+
+async function handleSavePdf(
+  command: Command & { action: 'save_pdf' },
+): Promise<SavePdfResult> {
+  const { params } = command;
+  const pageSettings: {
+    headerLeft?: string;
+    headerRight?: string;
+    footerLeft?: string;
+    footerRight?: string;
+  } = {};
+  if (params.headerLeft !== undefined) pageSettings.headerLeft = params.headerLeft;
+  if (params.headerRight !== undefined) pageSettings.headerRight = params.headerRight;
+  if (params.footerLeft !== undefined) pageSettings.footerLeft = params.footerLeft;
+  if (params.footerRight !== undefined) pageSettings.footerRight = params.footerRight;
+
+  const status = await browser.tabs.saveAsPDF(pageSettings);
+  return {
+    saved: status === 'saved' || status === 'replaced',
+    status,
+  };
+}
+
+// ============================================================
+// Trusted input
+// ============================================================
+
+/** Whether a click, type or press_key command asks for real OS input */
+function wantsTrustedInput(
+  command: Command,
+): command is Command & { action: 'click' | 'type' | 'press_key' } {
+  return (
+    (command.action === 'click' || command.action === 'type' || command.action === 'press_key') &&
+    command.params.input === 'trusted'
+  );
+}
+
+/** Time a step spends deliberately waiting: typing delays and key holds */
+function nativeInputStepDuration(step: NativeInputStep): number {
+  if (step.kind === 'type') return step.text.length * step.delayMs;
+  if (step.kind === 'key') return step.holdMs ?? 0;
+  return 0;
+}
+
+/**
+ * Time a trusted input command will spend typing and holding keys, worked
+ * out from its params alone so it can be refused before anything changes.
+ * press_key chords are counted the way the content script splits them.
+ */
+function trustedInputDuration(
+  command: Command & { action: 'click' | 'type' | 'press_key' },
+): number {
+  if (command.action === 'type') {
+    const delayMs = command.params.slowly ? TRUSTED_SLOW_TYPING_DELAY_MS : TRUSTED_TYPING_DELAY_MS;
+    return command.params.text.length * delayMs;
+  }
+  if (command.action === 'press_key') {
+    const { key, repeat = 1, holdMs = 0 } = command.params;
+    const chords = key === ' ' ? 1 : key.trim().split(/\s+/).filter(Boolean).length;
+    return chords * repeat * holdMs;
+  }
+  return 0;
+}
+
+/**
+ * Ask the NM host to perform OS-level input. Never rejects: a missing host
+ * connection answers as unavailable, a host that stays silent as failed.
+ */
+function requestNativeInput(steps: NativeInputStep[]): Promise<NativeInputResponse> {
+  const id = `input-${++nativeInputCounter}`;
+  if (!port) {
+    return Promise.resolve({
+      type: 'native-input-result',
+      id,
+      success: false,
+      unavailable: true,
+      error: 'native host is not connected',
+    });
+  }
+
+  const currentPort = port;
+  const timeoutMs = steps.reduce(
+    (ms, step) => ms + nativeInputStepDuration(step),
+    NATIVE_INPUT_TIMEOUT_MS,
+  );
+  return new Promise((resolve) => {
+    const timeout = setTimeout(() => {
+      pendingNativeInput.delete(id);
+      resolve({
+        type: 'native-input-result',
+        id,
+        success: false,
+        error: `native host did not answer within ${Math.ceil(timeoutMs / 1000)}s`,
+      });
+    }, timeoutMs);
+    pendingNativeInput.set(id, (response) => {
+      clearTimeout(timeout);
+      resolve(response);
+    });
+    const request: NativeInputRequest = { type: 'native-input', id, steps };
+    currentPort.postMessage(request);
+  });
+}
+
+function isNativeInputResponse(message: unknown): message is NativeInputResponse {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as NativeInputResponse).type === 'native-input-result' &&
+    typeof (message as NativeInputResponse).id === 'string'
+  );
+}
+
+/** Hand a NativeInputResponse to the request waiting for it */
+function settleNativeInput(response: NativeInputResponse): void {
+  const settle = pendingNativeInput.get(response.id);
+  pendingNativeInput.delete(response.id);
+  settle?.(response);
+}
+
+/**
+ * Deliver a click, type or press_key as real OS input through the NM host so
+ * the page sees trusted events. The tab's window is raised and the tab made
+ * active; the content script first checks and readies the element, reporting
+ * where to click, or parses the keys to press. When the host has no input
+ * backend, the command is re-run with synthetic events and the reason is
+ * reported.
+ */
+async function handleTrustedInput(
+  command: Command & { action: 'click' | 'type' | 'press_key' },
+): Promise<InteractionResult> {
+  const waitMs = trustedInputDuration(command);
+  if (waitMs > MAX_TRUSTED_INPUT_WAIT_MS) {
+    throw new Error(
+      `Trusted input would take ${Math.ceil(waitMs / 1000)}s of typing and key holds, more than the ${MAX_TRUSTED_INPUT_WAIT_MS / 1000}s a command allows. Split it across several commands, or use synthetic input.`,
+    );
+  }
+
+  const tab = await getTargetTab(command);
+  await browser.windows.update(tab.windowId, { focused: true });
+  await browser.tabs.update(tab.id!, { active: true });
+
+  const prepared = await sendToContentScript(tab.id!, command);
+  if (!prepared.success) {
+    throw new Error(prepared.error ?? 'Failed to prepare the element for input');
+  }
+  const target = prepared.result as TrustedInputTarget;
+
+  const steps: NativeInputStep[] = [];
+  if (command.action === 'press_key') {
+    for (const chord of target.chords ?? []) {
+      steps.push({ kind: 'key', ...chord, holdMs: command.params.holdMs });
+    }
+  } else if (command.action === 'click') {
+    steps.push({
+      kind: 'click',
+      x: target.screenX!,
+      y: target.screenY!,
+      button: command.params.button ?? 'left',
+      count: command.params.doubleClick ? 2 : 1,
+      modifiers: command.params.modifiers ?? [],
+    });
+  } else {
+    steps.push({
+      kind: 'type',
+      text: command.params.text,
+      delayMs: command.params.slowly ? TRUSTED_SLOW_TYPING_DELAY_MS : TRUSTED_TYPING_DELAY_MS,
+    });
+    if (command.params.submit) {
+      steps.push({ kind: 'key', key: 'Enter', modifiers: [] });
+    }
+  }
+
+  const outcome = await requestNativeInput(steps);
+  if (outcome.success) return { input: 'trusted' };
+  if (!outcome.unavailable) {
+    throw new Error(`Trusted input failed: ${outcome.error ?? 'unknown error'}`);
+  }
+
+  log(`Trusted input unavailable, using synthetic events: ${outcome.error}`);
+  const synthetic = {
+    ...command,
+    params: { ...command.params, input: 'synthetic' },
+  } as Command;
+  const response = await sendToContentScript(tab.id!, synthetic);
+  if (!response.success) {
+    throw new Error(response.error ?? `Failed to ${command.action} with synthetic events`);
+  }
+  return { input: 'synthetic', fallbackReason: outcome.error };
+}
+
+// ============================================================
+// Command dispatcher
+// ============================================================
 
 async function handleCommand(
   nmPort: browser.Port,
@@ -716,7 +2416,7 @@ async function handleCommand(
 
   try {
     // Content-script actions: forward to the active tab
-    if (CONTENT_SCRIPT_ACTIONS.has(command.action)) {
+    if (CONTENT_SCRIPT_ACTIONS.has(command.action) && !wantsTrustedInput(command)) {
       const contentResponse = await forwardToContentScript(command);
       sendResponse(
         nmPort,
@@ -737,19 +2437,29 @@ async function handleCommand(
         break;
 
       case 'navigate_back':
-        result = await handleNavigateBack();
+        result = await handleNavigateBack(command);
         break;
 
       case 'screenshot':
         result = await handleScreenshot(command);
         break;
 
+      case 'wait_for':
+        result = await handleWaitFor(command);
+        break;
+
+      case 'click':
+      case 'type':
+      case 'press_key':
+        result = await handleTrustedInput(command);
+        break;
+
       case 'tabs':
         result = await handleTabs(command);
         break;
 
       case 'close':
-        result = await handleClose();
+        result = await handleClose(command);
         break;
 
       case 'resize':
@@ -772,6 +2482,18 @@ async function handleCommand(
         result = await handleNetworkRequests(command);
         break;
 
+      case 'network_intercept':
+        result = await handleNetworkIntercept(command);
+        break;
+
+      case 'network_headers':
+        result = await handleNetworkHeaders(command);
+        break;
+
+      case 'console_messages':
+        result = await handleConsoleMessages(command);
+        break;
+
       case 'save_pdf':
         result = await handleSavePdf(command);
         break;
@@ -819,6 +2541,16 @@ function connect(): void {
     // Connection is proven healthy once we receive a message (H2 fix)
     reconnectAttempts = 0;
 
+    // Answers to our own native input requests are not commands
+    if (isNativeInputResponse(message)) {
+      settleNativeInput(message);
+      return;
+    }
+    if (isSessionEnded(message)) {
+      void endSession(message.sessionId);
+      return;
+    }
+
     // Runtime validation: ensure message is a well-formed Command
     if (
       !message ||
@@ -845,6 +2577,11 @@ function connect(): void {
     );
     port = null;
 
+    for (const [id, settle] of pendingNativeInput) {
+      settle({ type: 'native-input-result', id, success: false, error: 'native host disconnected' });
+    }
+    pendingNativeInput.clear();
+
     // Update browser action badge to show disconnected status
     browser.browserAction.setBadgeText({ text: '' });
     browser.browserAction.setTitle({ title: 'Agent Fox - Disconnected' });
@@ -887,14 +2624,14 @@ declare namespace browser.tabs {
     addListener(
       callback: (
         tabId: number,
-        changeInfo: { status?: string },
+        changeInfo: { status?: string; url?: string },
         tab: browser.Tab,
       ) => void,
     ): void;
     removeListener(
       callback: (
         tabId: number,
-        changeInfo: { status?: string },
+        changeInfo: { status?: string; url?: string },
         tab: browser.Tab,
       ) => void,
     ): void;
@@ -913,12 +2650,67 @@ declare namespace browser.tabs {
   }): Promise<string>;
 }
 
+// ============================================================
+// Additional browser type declarations for webNavigation API
+// (needed by the domcontentloaded wait and early page hooks)
+// ============================================================
+
+declare namespace browser.webNavigation {
+  interface NavigationDetails {
+    tabId: number;
+    /** 0 for the top-level document */
+    frameId: number;
+    url: string;
+  }
+
+  const onDOMContentLoaded: {
+    addListener(callback: (details: NavigationDetails) => void): void;
+    removeListener(callback: (details: NavigationDetails) => void): void;
+  };
+
+  const onCommitted: {
+    addListener(callback: (details: NavigationDetails) => void): void;
+    removeListener(callback: (details: NavigationDetails) => void): void;
+  };
+}
+
 // ============================================================
 // Additional browser type declarations for webRequest API
-// (needed by network request recording)
+// (needed by network request recording and interception)
 // ============================================================
 
 declare namespace browser.webRequest {
+  type HttpHeaders = Array<{ name: string; value?: string; binaryValue?: number[] }>;
+
+  interface RequestFilter {
+    urls: string[];
+    tabId?: number;
+    types?: string[];
+  }
+
+  interface RequestBody {
+    error?: string;
+    formData?: Record<string, string[]>;
+    raw?: Array<{ bytes?: ArrayBuffer; file?: string }>;
+  }
+
+  interface BeforeRequestDetails {
+    requestId: string;
+    url: string;
+    method: string;
+    type: string;
+    timeStamp: number;
+    tabId: number;
+    requestBody?: RequestBody;
+  }
+
+  interface SendHeadersDetails {
+    requestId: string;
+    url: string;
+    tabId: number;
+    requestHeaders?: HttpHeaders;
+  }
+
   interface RequestDetails {
     requestId: string;
     url: string;
@@ -926,7 +2718,16 @@ declare namespace browser.webRequest {
     type: string;
     timeStamp: number;
     statusCode?: number;
+    statusLine?: string;
     tabId: number;
+    responseHeaders?: HttpHeaders;
+  }
+
+  /** What a blocking listener tells the browser to do with the request */
+  interface BlockingResponse {
+    cancel?: boolean;
+    redirectUrl?: string;
+    requestHeaders?: HttpHeaders;
   }
 
   interface ErrorDetails {
@@ -939,23 +2740,40 @@ declare namespace browser.webRequest {
     error: string;
   }
 
-  const onCompleted: {
+  /** A webRequest event; extraInfoSpec selects optional details such as headers */
+  interface WebRequestEvent<T, R = void> {
     addListener(
-      callback: (details: RequestDetails) => void,
-      filter?: { urls: string[] },
+      callback: (details: T) => R,
+      filter: RequestFilter,
+      extraInfoSpec?: string[],
     ): void;
-    removeListener(callback: (details: RequestDetails) => void): void;
-    hasListener(callback: (details: RequestDetails) => void): boolean;
-  };
+    removeListener(callback: (details: T) => R): void;
+    hasListener(callback: (details: T) => R): boolean;
+  }
 
-  const onErrorOccurred: {
-    addListener(
-      callback: (details: ErrorDetails) => void,
-      filter?: { urls: string[] },
-    ): void;
-    removeListener(callback: (details: ErrorDetails) => void): void;
-    hasListener(callback: (details: ErrorDetails) => void): boolean;
-  };
+  /** Blocking listeners may answer asynchronously with a Promise */
+  const onBeforeRequest: WebRequestEvent<
+    BeforeRequestDetails,
+    BlockingResponse | Promise<BlockingResponse> | void
+  >;
+  const onBeforeSendHeaders: WebRequestEvent<SendHeadersDetails, BlockingResponse | void>;
+  const onSendHeaders: WebRequestEvent<SendHeadersDetails>;
+  const onResponseStarted: WebRequestEvent<RequestDetails>;
+  const onCompleted: WebRequestEvent<RequestDetails>;
+  const onErrorOccurred: WebRequestEvent<ErrorDetails>;
+
+  /** Firefox-only: lets a blocking onBeforeRequest listener read and rewrite a response body */
+  interface StreamFilter {
+    ondata: ((event: { data: ArrayBuffer }) => void) | null;
+    onstop: (() => void) | null;
+    onerror: (() => void) | null;
+    error: string;
+    write(data: ArrayBuffer | Uint8Array): void;
+    close(): void;
+    disconnect(): void;
+  }
+
+  function filterResponseData(requestId: string): StreamFilter;
 }
 
 // ============================================================
@@ -963,4 +2781,14 @@ declare namespace browser.webRequest {
 // ============================================================
 
 log('Background script loaded.');
+browser.tabs.onRemoved.addListener(forgetSessionTab);
+browser.tabs.onRemoved.addListener(forgetTabRules);
+browser.tabs.onRemoved.addListener(forgetConsoleTab);
+browser.tabs.onUpdated.addListener(rearmPageHooks);
+browser.webNavigation.onCommitted.addListener(injectPageHooks);
+browser.runtime.onMessage.addListener(countPageFulfillment);
+browser.tabs.onRemoved.addListener(forgetTabActivity);
+browser.webRequest.onBeforeRequest.addListener(noteRequestStarted, { urls: ['<all_urls>'] });
+browser.webRequest.onCompleted.addListener(noteRequestFinished, { urls: ['<all_urls>'] });
+browser.webRequest.onErrorOccurred.addListener(noteRequestFinished, { urls: ['<all_urls>'] });
 connect();
@@ -5,19 +5,52 @@
 import type {
   AccessibilityNode,
   SnapshotResult,
+  SnapshotParams,
+  SnapshotChange,
+  LandmarkRole,
   ActionType,
   ClickParams,
   TypeParams,
   PressKeyParams,
+  KeyChord,
+  KeyModifier,
   HoverParams,
+  DragParams,
+  DragResult,
+  ScrollParams,
+  ScrollResult,
+  MouseParams,
+  MouseResult,
   FillFormParams,
   SelectOptionParams,
   EvaluateParams,
   WaitForParams,
   PageContentParams,
+  ScreenshotParams,
+  ScreenshotRegion,
+  ScreenshotAnnotation,
+  ConsoleMessage,
+  ConsoleMessagesParams,
+  ConsoleMessagesResult,
+  NetworkRequestsParams,
+  NetworkRequestsResult,
+  SocketFrame,
+  InteractionResult,
+  TrustedInputTarget,
   ContentRequest,
   ContentResponse,
 } from '@agentfox/shared';
+import { COMMAND_TIMEOUT_MS } from '@agentfox/shared';
+import {
+  CONSOLE_EVENT,
+  CONSOLE_CLAIM_EVENT,
+  MAX_CONSOLE_MESSAGES,
+  consoleHookSource,
+  FRAME_EVENT,
+  FRAME_CLAIM_EVENT,
+  MAX_SOCKET_FRAMES,
+  socketHookSource,
+} from './page-hooks.js';
 
 // ============================================================
 // Constants
@@ -78,31 +111,67 @@ const GENERIC_TAGS = new Set([
 // ============================================================
 
 /**
- * Maps ref IDs (e.g. "e0", "e1") to DOM elements.
+ * Maps ref IDs (e.g. "e0", "e1") to the DOM elements in the latest snapshot.
  * Rebuilt on every snapshot call. Action handlers use resolveRef() to
  * look up elements by their ref ID.
  *
- * IMPORTANT: refs become stale if the DOM mutates or a new snapshot is taken.
- * resolveRef() detects stale refs and returns clear error messages.
+ * Refs are stable: an element keeps the ref it was first given for as long
+ * as it lives, and a ref is never reassigned to a different element. Refs
+ * whose element drops out of a snapshot are retired (see retiredRefs), and
+ * resolveRef() explains why.
  */
 export let refMap = new Map<string, Element>();
 
-/** Counter for generating sequential ref IDs */
+/** Ref issued to each element; weak so removed elements can be collected */
+let elementRefs = new WeakMap<Element, string>();
+
+/** Why a ref is no longer in refMap: its element left the DOM, or left the snapshot */
+type RefRetirement = 'removed' | 'hidden';
+
+/** Refs from earlier snapshots that are not in the latest one */
+export let retiredRefs = new Map<string, RefRetirement>();
+
+/** Refs retired by the most recent snapshot */
+let lastRetiredRefs: string[] = [];
+
+/** Counter for generating sequential ref IDs — never reset between snapshots */
 export let refCounter = 0;
 
-/** Reset ref state — called at beginning of each snapshot */
+/** Reset all ref state, forgetting every issued ref */
 export function resetRefState(): void {
   refMap = new Map();
+  elementRefs = new WeakMap();
+  retiredRefs = new Map();
+  lastRetiredRefs = [];
   refCounter = 0;
 }
 
-/** Assign a ref ID to an interactive element and register it in the map */
+/**
+ * Register an interactive element in the map, reusing its existing ref if
+ * it was seen in an earlier snapshot.
+ */
 export function assignRef(el: Element): string {
-  const ref = `e${refCounter++}`;
+  let ref = elementRefs.get(el);
+  if (ref === undefined) {
+    ref = `e${refCounter++}`;
+    elementRefs.set(el, ref);
+  }
   refMap.set(ref, el);
+  retiredRefs.delete(ref);
   return ref;
 }
 
+/** Retire refs from the previous snapshot that the new one did not re-issue */
+function retireRefs(previous: Map<string, Element>): string[] {
+  const retired: string[] = [];
+  for (const [ref, el] of previous) {
+    if (refMap.has(ref)) continue;
+    retiredRefs.set(ref, el.isConnected ? 'hidden' : 'removed');
+    retired.push(ref);
+  }
+  return retired;
+}
+
 // ============================================================
 // Logging
 // ============================================================
@@ -227,6 +296,8 @@ export function isInteractive(el: Element): boolean {
   // Elements with interactive attributes
   if (el.hasAttribute('onclick') || el.hasAttribute('onmousedown')) return true;
   if (el.getAttribute('contenteditable') === 'true') return true;
+  // Drag sources need a ref for browser_drag
+  if (el.getAttribute('draggable') === 'true') return true;
 
   // Elements with tabindex >= 0 are focusable/interactive
   const tabindex = el.getAttribute('tabindex');
@@ -481,15 +552,38 @@ function isSemanticRole(role: string): boolean {
 /** Maximum number of nodes to process before truncating the tree */
 export const MAX_NODES = 50000;
 
-/** Maximum estimated JSON size (bytes) for the tree — leaves headroom below the 1MB NM limit */
-export const MAX_TREE_BYTES = 800_000;
+/**
+ * Maximum estimated JSON size (bytes) for the tree. Responses over the 1MB
+ * native messaging limit are chunked, so this only bounds how much of a
+ * huge page ends up in the model's context.
+ */
+export const MAX_TREE_BYTES = 4_000_000;
 
 /** Default maximum depth for tree traversal (adaptive — reduced under size pressure) */
 export const DEFAULT_MAX_DEPTH = 30;
 
+/** Depth limit for the current build — DEFAULT_MAX_DEPTH unless a snapshot asks for less or more */
+let maxDepthLimit = DEFAULT_MAX_DEPTH;
+
 /** Running node counter, reset per snapshot */
 let nodeCount = 0;
 
+/** Node budget for the current build — MAX_NODES unless a snapshot asks for smaller pages */
+let maxNodesLimit = MAX_NODES;
+
+/**
+ * Child-index path (in walk order) of the element being built. Together
+ * with resumePath this lets a snapshot page pick up exactly where the
+ * previous one hit its budget, independent of the budget itself.
+ */
+let walkPath: number[] = [];
+
+/** Path of the first element the previous page left out, when continuing */
+let resumePath: number[] | null = null;
+
+/** Path of the first element this page left out, if it hit a limit */
+let stopPath: number[] | null = null;
+
 /** Running estimated byte size of the serialized tree, reset per snapshot */
 let estimatedBytes = 0;
 
@@ -531,8 +625,8 @@ function estimateNodeBytes(name: string, value?: string, interactive?: boolean,
  * Under size pressure, we reduce traversal depth to limit tree growth.
  */
 function getEffectiveMaxDepth(): number {
-  if (estimatedBytes > MAX_TREE_BYTES * 0.7) return 15;
-  return DEFAULT_MAX_DEPTH;
+  if (estimatedBytes > MAX_TREE_BYTES * 0.7) return Math.min(15, maxDepthLimit);
+  return maxDepthLimit;
 }
 
 /**
@@ -540,11 +634,22 @@ function getEffectiveMaxDepth(): number {
  * Returns null if the element should be excluded from the tree.
  */
 export function buildNode(el: Element, depth: number): AccessibilityNode | null {
-  // Bail if we've hit the node or size limit
-  if (nodeCount >= MAX_NODES || estimatedBytes >= MAX_TREE_BYTES) return null;
-  nodeCount++;
+  // When continuing a paginated snapshot, skip what earlier pages delivered
+  const position = positionRelativeToResume();
+  if (position === 'before') return null;
+
+  // Bail if we've hit the node or size limit, remembering where to resume.
+  // Ancestors of the resume point are repeated for context and not charged,
+  // so a budget smaller than the resume depth still delivers a new element.
+  if (position !== 'ancestor') {
+    if (nodeCount >= maxNodesLimit || estimatedBytes >= MAX_TREE_BYTES) {
+      if (!stopPath) stopPath = [...walkPath];
+      return null;
+    }
+    nodeCount++;
+  }
 
-  // Adaptive depth limit: DEFAULT_MAX_DEPTH normally, reduced under size pressure
+  // Adaptive depth limit: maxDepthLimit normally, reduced under size pressure
   // Hard cap at 100 to prevent stack overflow on pathological DOMs
   if (depth > 100 || depth > getEffectiveMaxDepth()) return null;
 
@@ -564,8 +669,9 @@ export function buildNode(el: Element, depth: number): AccessibilityNode | null
       const iframeDoc = (el as HTMLIFrameElement).contentDocument;
       if (iframeDoc?.body) {
         const iframeChildren: AccessibilityNode[] = [];
+        let index = 0;
         for (const child of iframeDoc.body.children) {
-          const childNode = buildNode(child, depth + 1);
+          const childNode = buildChildNode(child, index++, depth + 1);
           if (childNode) iframeChildren.push(childNode);
         }
         const flat = flattenGenericChildren(iframeChildren);
@@ -586,14 +692,17 @@ export function buildNode(el: Element, depth: number): AccessibilityNode | null
   // Build children by walking childNodes in document order, interleaving
   // element children and text pseudo-nodes to preserve correct ordering.
   const childNodes: AccessibilityNode[] = [];
+  let elementIndex = 0;
 
   for (const child of el.childNodes) {
     if (child.nodeType === Node.ELEMENT_NODE) {
-      const childNode = buildNode(child as Element, depth + 1);
+      const childNode = buildChildNode(child as Element, elementIndex++, depth + 1);
       if (childNode) {
         childNodes.push(childNode);
       }
-    } else if (child.nodeType === Node.TEXT_NODE) {
+    } else if (child.nodeType === Node.TEXT_NODE && position !== 'ancestor') {
+      // An ancestor of the resume point is only repeated for context; its
+      // own text went out with the page that first included it
       const text = (child.textContent || '').trim();
       if (text && text !== name) {
         const truncated = truncateText(text);
@@ -610,13 +719,15 @@ export function buildNode(el: Element, depth: number): AccessibilityNode | null
   // Traverse open shadow DOM
   if (el.shadowRoot) {
     for (const child of el.shadowRoot.children) {
-      const childNode = buildNode(child as Element, depth + 1);
+      const childNode = buildChildNode(child as Element, elementIndex++, depth + 1);
       if (childNode) {
         childNodes.push(childNode);
       }
     }
   }
 
+  if (position === 'ancestor' && childNodes.length === 0) return null;
+
   // Flatten generic containers: if a non-interactive, non-semantic element
   // has no meaningful name, promote its children directly
   if (!interactive && !semantic && !name) {
@@ -704,6 +815,33 @@ export function buildNode(el: Element, depth: number): AccessibilityNode | null
   return node;
 }
 
+/** Build a child element's node, tracking its index in walkPath */
+function buildChildNode(child: Element, index: number, depth: number): AccessibilityNode | null {
+  walkPath.push(index);
+  try {
+    return buildNode(child, depth);
+  } finally {
+    walkPath.pop();
+  }
+}
+
+/**
+ * Where the element at walkPath sits relative to resumePath: delivered by
+ * an earlier page, an ancestor of the resume point (repeated for context),
+ * or still to be delivered.
+ */
+function positionRelativeToResume(): 'before' | 'ancestor' | 'after' {
+  if (!resumePath) return 'after';
+  for (let i = 0; i < walkPath.length; i++) {
+    // Descendants of the resume element are all still to come
+    if (i >= resumePath.length) return 'after';
+    if (walkPath[i] !== resumePath[i]) {
+      return walkPath[i] < resumePath[i] ? 'before' : 'after';
+    }
+  }
+  return walkPath.length < resumePath.length ? 'ancestor' : 'after';
+}
+
 /**
  * Flatten children: if a child is a nameless generic node, promote
  * its children to the parent level.
@@ -721,26 +859,68 @@ export function flattenGenericChildren(children: AccessibilityNode[]): Accessibi
   return result;
 }
 
+/** Restricts a tree build to one subtree and/or depth */
+export interface TreeScope {
+  /** Element to root the tree at instead of document.body */
+  root?: Element;
+  /** Maximum DOM depth to walk below the root (default DEFAULT_MAX_DEPTH) */
+  maxDepth?: number;
+  /** Continue after the element at this walk path (from a previous page's cursor) */
+  resumeAt?: number[];
+  /** Elements to walk before stopping the page (default and maximum MAX_NODES) */
+  maxNodes?: number;
+}
+
+/** Pagination details of the most recent tree build */
+let lastPage: { cursor?: string; nodeCount: number; totalNodes: number } = {
+  nodeCount: 0,
+  totalNodes: 0,
+};
+
 /**
- * Build the full accessibility tree for the current page.
- * Returns the root AccessibilityNode (role: "document").
+ * Build the accessibility tree for the current page, or for one subtree
+ * of it. Returns the root AccessibilityNode (role: "document").
  */
-export function buildAccessibilityTree(): AccessibilityNode {
-  // Reset state for fresh build
-  resetRefState();
+export function buildAccessibilityTree(scope: TreeScope = {}): AccessibilityNode {
+  // Start a fresh ref map; elements seen before keep their refs. A scoped
+  // build only re-walks its subtree, and a continued page only the part
+  // after the cursor, so refs outside what is walked stay valid.
+  const previousRefs = refMap;
+  refMap = new Map();
+  if (scope.root || scope.resumeAt) {
+    for (const [ref, el] of previousRefs) {
+      if (!el.isConnected) continue;
+      if (scope.resumeAt || !scope.root!.contains(el)) refMap.set(ref, el);
+    }
+  }
   nodeCount = 0;
   estimatedBytes = 0;
+  maxDepthLimit = scope.maxDepth ?? DEFAULT_MAX_DEPTH;
+  maxNodesLimit = Math.min(scope.maxNodes ?? MAX_NODES, MAX_NODES);
+  walkPath = [];
+  resumePath = scope.resumeAt ?? null;
+  stopPath = null;
+  const scopeRoot = scope.root ?? document.body;
+  lastPage = {
+    nodeCount: 0,
+    totalNodes: scopeRoot ? scopeRoot.getElementsByTagName('*').length + (scope.root ? 1 : 0) : 0,
+  };
 
   const root: AccessibilityNode = {
     role: 'document',
     name: document.title || '',
   };
 
-  if (!document.body) return root;
+  if (!document.body) {
+    lastRetiredRefs = retireRefs(previousRefs);
+    return root;
+  }
 
   const children: AccessibilityNode[] = [];
-  for (const child of document.body.children) {
-    const node = buildNode(child, 0);
+  const topLevel = scope.root ? [scope.root] : document.body.children;
+  let index = 0;
+  for (const child of topLevel) {
+    const node = buildChildNode(child, index++, 0);
     if (node) children.push(node);
   }
 
@@ -749,38 +929,255 @@ export function buildAccessibilityTree(): AccessibilityNode {
     root.children = flatChildren;
   }
 
-  // If we hit the node limit, add a truncation indicator
-  if (nodeCount >= MAX_NODES) {
-    if (!root.children) root.children = [];
-    root.children.push({
-      role: 'text',
-      name: `[Tree truncated at ${MAX_NODES} nodes]`,
-    });
-  }
-
-  // If we hit the size limit, add a size-based truncation indicator
-  if (estimatedBytes >= MAX_TREE_BYTES) {
-    if (!root.children) root.children = [];
-    root.children.push({
-      role: 'text',
-      name: `[Tree truncated: estimated size ${Math.round(estimatedBytes / 1024)}KB exceeds limit]`,
-    });
-  }
+  // If we hit the node or size limit, the cursor says where the next page starts
+  lastPage.nodeCount = nodeCount;
+  // stopPath is set inside buildNode, which TS cannot see from here
+  const stoppedAt = stopPath as number[] | null;
+  if (stoppedAt) lastPage.cursor = stoppedAt.join('.');
+  resumePath = null;
 
+  lastRetiredRefs = retireRefs(previousRefs);
   return root;
 }
 
+/** Parse a snapshot cursor ("0.3.12") back into a walk path */
+function parseCursor(cursor: string): number[] {
+  if (!/^\d+(\.\d+)*$/.test(cursor)) {
+    throw new Error(`Invalid snapshot cursor "${cursor}". Use the cursor returned by the previous snapshot.`);
+  }
+  return cursor.split('.').map(Number);
+}
+
 // ============================================================
 // Snapshot handler
 // ============================================================
 
-export function handleSnapshot(): SnapshotResult {
-  const tree = buildAccessibilityTree();
-  return {
-    tree,
-    url: window.location.href,
-    title: document.title,
+export function handleSnapshot(params: SnapshotParams = {}): SnapshotResult {
+  if (params.maxDepth !== undefined && (!Number.isInteger(params.maxDepth) || params.maxDepth < 0)) {
+    throw new Error(`maxDepth must be a non-negative integer, got ${params.maxDepth}`);
+  }
+  if (params.maxNodes !== undefined && (!Number.isInteger(params.maxNodes) || params.maxNodes < 1)) {
+    throw new Error(`maxNodes must be a positive integer, got ${params.maxNodes}`);
+  }
+  const { root, scope } = resolveSnapshotRoot(params);
+  const resumeAt = params.cursor !== undefined ? parseCursor(params.cursor) : undefined;
+  const tree = buildAccessibilityTree({
+    root,
+    maxDepth: params.maxDepth,
+    maxNodes: params.maxNodes,
+    resumeAt,
+  });
+  const url = window.location.href;
+  const extras = {
+    truncated: lastPage.cursor !== undefined,
+    ...(lastPage.cursor !== undefined ? { cursor: lastPage.cursor } : {}),
+    nodeCount: lastPage.nodeCount,
+    totalNodes: lastPage.totalNodes,
+    ...(scope ? { scope } : {}),
+    ...(lastRetiredRefs.length > 0 ? { retiredRefs: lastRetiredRefs } : {}),
   };
+
+  // Continuation pages are neither diffed nor used as a diff baseline
+  if (resumeAt) {
+    return { tree, url, title: document.title, ...extras };
+  }
+
+  const baseline = previousSnapshot;
+  const scopeKey = `${scope ?? ''}|${params.maxDepth ?? ''}`;
+  previousSnapshot = { url, scopeKey, tree };
+
+  // A diff is only meaningful against the same page and scope; otherwise
+  // fall back to the full tree, which becomes the baseline for the next diff
+  if (params.diff && baseline && baseline.url === url && baseline.scopeKey === scopeKey) {
+    return { url, title: document.title, diff: diffTrees(baseline.tree, tree), ...extras };
+  }
+  return { tree, url, title: document.title, ...extras };
+}
+
+/**
+ * Find the element a scoped snapshot is rooted at. Returns no root for a
+ * whole-page snapshot.
+ */
+function resolveSnapshotRoot(params: SnapshotParams): { root?: Element; scope?: string } {
+  if (params.ref) {
+    return { root: resolveRef(params.ref), scope: `ref ${params.ref}` };
+  }
+  if (params.selector) {
+    const root = document.querySelector(params.selector);
+    if (!root) {
+      throw new Error(`No element found matching selector: ${params.selector}`);
+    }
+    return { root, scope: `selector ${params.selector}` };
+  }
+  if (params.landmark) {
+    const root = findLandmark(params.landmark);
+    if (!root) {
+      throw new Error(`No visible "${params.landmark}" landmark found on the page`);
+    }
+    return { root, scope: `landmark ${params.landmark}` };
+  }
+  return {};
+}
+
+/** First visible element in document order with the given landmark role */
+function findLandmark(role: LandmarkRole): Element | null {
+  if (!document.body) return null;
+  for (const el of document.body.querySelectorAll('*')) {
+    if (getRole(el) === role && !isHidden(el)) return el;
+  }
+  return null;
+}
+
+// ============================================================
+// Snapshot diffing
+// ============================================================
+
+/** Tree from the previous snapshot — the baseline for diff mode */
+let previousSnapshot: { url: string; scopeKey: string; tree: AccessibilityNode } | null = null;
+
+/** Forget the previous snapshot so the next diff returns a full tree */
+export function resetSnapshotBaseline(): void {
+  previousSnapshot = null;
+}
+
+/** Above this many old × new sibling pairs, align children by position instead of LCS */
+const MAX_DIFF_ALIGNMENT_CELLS = 1_000_000;
+
+/** Properties compared when deciding whether a matched node changed */
+const DIFFED_PROPS = [
+  'role', 'name', 'ref', 'value', 'level', 'checked', 'disabled',
+  'expanded', 'selected', 'required', 'description',
+] as const;
+
+/** Identity used to match siblings across snapshots */
+function nodeSignature(node: AccessibilityNode): string {
+  return `${node.role}\u0000${node.name}`;
+}
+
+/** Short label for a node in a change path */
+function nodeLabel(node: AccessibilityNode): string {
+  return node.name ? `${node.role} "${node.name}"` : node.role;
+}
+
+function propsChanged(prev: AccessibilityNode, next: AccessibilityNode): boolean {
+  return DIFFED_PROPS.some((prop) => prev[prop] !== next[prop]);
+}
+
+function withoutChildren(node: AccessibilityNode): AccessibilityNode {
+  const { children: _children, ...rest } = node;
+  return rest;
+}
+
+/**
+ * Match old and new siblings by signature, preserving order (longest
+ * common subsequence). Returns matched [oldIndex, newIndex] pairs.
+ */
+function alignChildren(
+  prev: AccessibilityNode[],
+  next: AccessibilityNode[],
+): Array<[number, number]> {
+  const a = prev.map(nodeSignature);
+  const b = next.map(nodeSignature);
+
+  // Common prefix and suffix are matched directly, shrinking the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const pairs: Array<[number, number]> = [];
+  for (let i = 0; i < start; i++) pairs.push([i, i]);
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n > 0 && m > 0) {
+    if (n * m > MAX_DIFF_ALIGNMENT_CELLS) {
+      // Too large to align precisely — pair up equal siblings by position
+      for (let k = 0; k < Math.min(n, m); k++) {
+        if (a[start + k] === b[start + k]) pairs.push([start + k, start + k]);
+      }
+    } else {
+      // lcs[i * (m + 1) + j] = LCS length of a[start+i..endA) and b[start+j..endB)
+      const lcs = new Uint32Array((n + 1) * (m + 1));
+      for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+          lcs[i * (m + 1) + j] = a[start + i] === b[start + j]
+            ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+        }
+      }
+      let i = 0;
+      let j = 0;
+      while (i < n && j < m) {
+        if (a[start + i] === b[start + j]) {
+          pairs.push([start + i, start + j]);
+          i++;
+          j++;
+        } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+          i++;
+        } else {
+          j++;
+        }
+      }
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) pairs.push([endA + k, endB + k]);
+  return pairs;
+}
+
+function diffChildren(
+  prev: AccessibilityNode[],
+  next: AccessibilityNode[],
+  path: string[],
+  changes: SnapshotChange[],
+): void {
+  let i = 0;
+  let j = 0;
+  for (const [pi, ni] of [...alignChildren(prev, next), [prev.length, next.length]]) {
+    for (; i < pi; i++) changes.push({ kind: 'removed', path, node: prev[i] });
+    for (; j < ni; j++) changes.push({ kind: 'added', path, node: next[j] });
+    if (pi < prev.length) {
+      diffNode(prev[pi], next[ni], path, changes);
+      i = pi + 1;
+      j = ni + 1;
+    }
+  }
+}
+
+function diffNode(
+  prev: AccessibilityNode,
+  next: AccessibilityNode,
+  path: string[],
+  changes: SnapshotChange[],
+): void {
+  if (propsChanged(prev, next)) {
+    changes.push({
+      kind: 'changed',
+      path,
+      node: withoutChildren(next),
+      previous: withoutChildren(prev),
+    });
+  }
+  diffChildren(prev.children ?? [], next.children ?? [], [...path, nodeLabel(next)], changes);
+}
+
+/**
+ * Compute the changes between two snapshots, in document order. Siblings
+ * are matched by role and name, so a renamed node shows up as removed and
+ * added, while value and state changes show up as changed.
+ */
+export function diffTrees(prev: AccessibilityNode, next: AccessibilityNode): SnapshotChange[] {
+  const changes: SnapshotChange[] = [];
+  if (propsChanged(prev, next)) {
+    changes.push({ kind: 'changed', path: [], node: withoutChildren(next), previous: withoutChildren(prev) });
+  }
+  diffChildren(prev.children ?? [], next.children ?? [], [], changes);
+  return changes;
 }
 
 // ============================================================
@@ -794,13 +1191,25 @@ export function handleSnapshot(): SnapshotResult {
 export function resolveRef(ref: string): Element {
   const el = refMap.get(ref);
   if (!el) {
+    const retirement = retiredRefs.get(ref);
+    if (retirement === 'removed') {
+      throw new Error(
+        `Element ref "${ref}" was retired — its element was removed from the page. Refs are never reused for other elements; take a new snapshot to find its replacement.`,
+      );
+    }
+    if (retirement === 'hidden') {
+      throw new Error(
+        `Element ref "${ref}" was retired — its element is still on the page but no longer appears in the snapshot (hidden or out of scope). Take a new snapshot.`,
+      );
+    }
     throw new Error(
       `Element ref "${ref}" not found. The page may have changed since the last snapshot. Take a new snapshot and use updated refs.`,
     );
   }
   // Verify the element is still in the document
-  if (!document.contains(el)) {
+  if (!isOnPage(el)) {
     refMap.delete(ref);
+    retiredRefs.set(ref, 'removed');
     throw new Error(
       `Element ref "${ref}" is stale — the element is no longer in the DOM. Take a new snapshot.`,
     );
@@ -809,20 +1218,205 @@ export function resolveRef(ref: string): Element {
 }
 
 // ============================================================
-// Click handler
+// Actionability checks
 // ============================================================
 
-export function handleClick(params: ClickParams): void {
-  const el = resolveRef(params.ref);
+/** How long click and type keep retrying an element that is not yet actionable */
+const ACTIONABILITY_TIMEOUT_MS = 5000;
+/** Pause between actionability attempts */
+const ACTIONABILITY_RETRY_MS = 100;
+/** Gap between the two box measurements that decide whether an element holds still */
+const STABILITY_SAMPLE_MS = 50;
 
-  // Scroll element into view so coordinates are within the viewport
-  if (el instanceof HTMLElement) {
-    el.scrollIntoView({ block: 'center', behavior: 'instant' as ScrollBehavior });
+/**
+ * The element's parent in the tree snapshots walk: out of a shadow root to
+ * its host, and out of a same-origin frame's document to the <iframe>
+ */
+function composedParent(el: Element): Element | null {
+  if (el.parentElement) return el.parentElement;
+  const parent = el.parentNode;
+  if (parent?.nodeType === Node.DOCUMENT_FRAGMENT_NODE && 'host' in parent) {
+    return (parent as ShadowRoot).host;
   }
+  return el.ownerDocument.defaultView?.frameElement ?? null;
+}
 
-  const rect = el.getBoundingClientRect();
-  const x = rect.left + rect.width / 2;
-  const y = rect.top + rect.height / 2;
+/** Whether the element is still in this page, or in a shadow tree or same-origin frame of it */
+function isOnPage(el: Element): boolean {
+  let top = el;
+  for (let node = composedParent(el); node; node = composedParent(node)) top = node;
+  return top === document.documentElement;
+}
+
+/** Shown the way snapshots see it: neither the element nor an ancestor is hidden */
+function isShown(el: Element): boolean {
+  for (let node: Element | null = el; node; node = composedParent(node)) {
+    if (isHidden(node)) return false;
+  }
+  return true;
+}
+
+/** Whether `node` is `ancestor` or inside it, counting shadow roots as inside their host */
+function composedContains(ancestor: Element, node: Element): boolean {
+  for (let n: Node | null = node; n; n = n.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? (n as ShadowRoot).host : n.parentNode) {
+    if (n === ancestor) return true;
+  }
+  return false;
+}
+
+/**
+ * What would receive pointer input at (x, y), a point in the element's own
+ * viewport, when that is not the element. Each tree is hit-tested on its
+ * own: the element's shadow root or document, then every frame it is in,
+ * at the point moved by the frame's offset, against the <iframe>. A hit on
+ * a shadow-including ancestor or descendant counts as the element's own,
+ * since hit-testing retargets to the host or stops at slotted content.
+ */
+function hitTestProblem(el: Element, x: number, y: number): string | null {
+  let target = el;
+  for (;;) {
+    const root = target.getRootNode() as Document | ShadowRoot;
+    const hit = root.elementFromPoint(x, y);
+    if (!hit) return 'is outside the viewport';
+    if (!composedContains(target, hit) && !composedContains(hit, target)) {
+      return `is covered by ${describeElement(hit)}, which would receive the click instead`;
+    }
+    const frame = target.ownerDocument.defaultView?.frameElement;
+    if (!frame) return null;
+    const rect = frame.getBoundingClientRect();
+    x += rect.left + frame.clientLeft;
+    y += rect.top + frame.clientTop;
+    target = frame;
+  }
+}
+
+/** Disabled natively (including by a disabled fieldset) or via aria-disabled on it or an ancestor */
+function isDisabled(el: Element): boolean {
+  return el.matches(':disabled') || el.closest('[aria-disabled="true"]') !== null;
+}
+
+/** Short CSS-like label for an element in error messages, e.g. <div#dialog.backdrop.open> */
+function describeElement(el: Element): string {
+  let label = el.tagName.toLowerCase();
+  if (el.id) label += `#${el.id}`;
+  for (const cls of Array.from(el.classList).slice(0, 3)) label += `.${cls}`;
+  const role = el.getAttribute('role');
+  if (role) label += ` role="${role}"`;
+  return `<${label}>`;
+}
+
+/**
+ * The point at the element's center if it can receive input right now, or
+ * why not. The element must be shown with a non-empty box, enabled and holding
+ * still; for pointer input it must also be the topmost element at that point.
+ */
+async function checkActionability(
+  el: Element,
+  hitTest: boolean,
+): Promise<{ problem: string } | { x: number; y: number }> {
+  if (!isShown(el)) return { problem: 'is not visible' };
+  const before = el.getBoundingClientRect();
+  if (before.width === 0 || before.height === 0) {
+    return { problem: 'is not visible (its bounding box is empty)' };
+  }
+  if (isDisabled(el)) return { problem: 'is disabled' };
+
+  await new Promise((r) => setTimeout(r, STABILITY_SAMPLE_MS));
+  const after = el.getBoundingClientRect();
+  if (
+    after.left !== before.left || after.top !== before.top ||
+    after.width !== before.width || after.height !== before.height
+  ) {
+    return { problem: 'is not stable (it is still moving or resizing)' };
+  }
+
+  const x = after.left + after.width / 2;
+  const y = after.top + after.height / 2;
+  const problem = hitTest ? hitTestProblem(el, x, y) : null;
+  if (problem) return { problem };
+  return { x, y };
+}
+
+/**
+ * Wait until the ref's element can receive input, retrying for a bounded time
+ * since overlays close and animations settle. Resolves with the element and
+ * the viewport point pointer events should target; throws naming the check
+ * that still fails when time runs out.
+ */
+async function waitForActionable(
+  ref: string,
+  verb: string,
+  hitTest: boolean,
+): Promise<{ el: Element; x: number; y: number }> {
+  const deadline = Date.now() + ACTIONABILITY_TIMEOUT_MS;
+  for (;;) {
+    // Re-resolve on every attempt so a removed element fails as stale
+    const el = resolveRef(ref);
+    if (hitTest && el instanceof HTMLElement) {
+      el.scrollIntoView({ block: 'center', behavior: 'instant' as ScrollBehavior });
+    }
+    const outcome = await checkActionability(el, hitTest);
+    if (!('problem' in outcome)) return { el, ...outcome };
+    if (Date.now() >= deadline) {
+      throw new Error(
+        `Cannot ${verb} element ref "${ref}": it ${outcome.problem}. Gave up after ${ACTIONABILITY_TIMEOUT_MS / 1000}s; take a new snapshot to check the page state, or pass force: true to skip these checks.`,
+      );
+    }
+    await new Promise((r) => setTimeout(r, ACTIONABILITY_RETRY_MS));
+  }
+}
+
+/** Result of click, type and press_key when the content script dispatched the events itself */
+const SYNTHETIC_INPUT: InteractionResult = { input: 'synthetic' };
+
+/** Firefox's screen position of the viewport's top-left corner, in CSS pixels */
+interface ViewportScreenOrigin {
+  mozInnerScreenX: number;
+  mozInnerScreenY: number;
+}
+
+/** Convert a viewport point to screen device pixels for OS-level input */
+function toScreenPoint(x: number, y: number): TrustedInputTarget {
+  const origin = window as unknown as ViewportScreenOrigin;
+  return {
+    screenX: Math.round((origin.mozInnerScreenX + x) * window.devicePixelRatio),
+    screenY: Math.round((origin.mozInnerScreenY + y) * window.devicePixelRatio),
+  };
+}
+
+// ============================================================
+// Click handler
+// ============================================================
+
+/**
+ * PointerEvent fields of the primary mouse, as Firefox reports them. Left
+ * out, events read as pointerId 0 with no pointerType and not primary, and
+ * pointer-driven libraries ignore them.
+ */
+const MOUSE_POINTER: PointerEventInit = { pointerId: 1, pointerType: 'mouse', isPrimary: true };
+
+/**
+ * Click the ref's element with synthetic events. With input: 'trusted' the
+ * element is only checked and scrolled into view, and the screen point to
+ * click is returned for the background to deliver real input.
+ */
+export async function handleClick(params: ClickParams): Promise<TrustedInputTarget | undefined> {
+  let el: Element;
+  let x: number;
+  let y: number;
+  if (params.force) {
+    el = resolveRef(params.ref);
+    // Scroll element into view so coordinates are within the viewport
+    if (el instanceof HTMLElement) {
+      el.scrollIntoView({ block: 'center', behavior: 'instant' as ScrollBehavior });
+    }
+    const rect = el.getBoundingClientRect();
+    x = rect.left + rect.width / 2;
+    y = rect.top + rect.height / 2;
+  } else {
+    ({ el, x, y } = await waitForActionable(params.ref, 'click', true));
+  }
+  if (params.input === 'trusted') return toScreenPoint(x, y);
 
   const buttonCode =
     params.button === 'right' ? 2 : params.button === 'middle' ? 1 : 0;
@@ -834,7 +1428,7 @@ export function handleClick(params: ClickParams): void {
     shiftKey: params.modifiers?.includes('Shift') ?? false,
   };
 
-  const commonOpts: MouseEventInit = {
+  const commonOpts: PointerEventInit = {
     bubbles: true,
     cancelable: true,
     view: window,
@@ -842,6 +1436,7 @@ export function handleClick(params: ClickParams): void {
     clientY: y,
     button: buttonCode,
     ...modifiers,
+    ...MOUSE_POINTER,
   };
 
   // Dispatch pointer + mouse events in the correct browser order
@@ -866,20 +1461,50 @@ export function handleClick(params: ClickParams): void {
   if (el instanceof HTMLElement) {
     el.focus();
   }
+  return undefined;
 }
 
 // ============================================================
 // Type handler
 // ============================================================
 
-export async function handleType(params: TypeParams): Promise<void> {
+/**
+ * Replace the contents of the ref's editable element with synthetic events.
+ * With input: 'trusted' the element is only focused and its contents
+ * selected, so the real keystrokes the background sends replace them.
+ */
+export async function handleType(params: TypeParams): Promise<TrustedInputTarget | undefined> {
   const el = resolveRef(params.ref);
+  const isField = el instanceof HTMLInputElement || el instanceof HTMLTextAreaElement;
+  if (!isField && !(el instanceof HTMLElement && el.isContentEditable)) {
+    throw new Error(
+      `Element ref "${params.ref}" is not an editable element (input, textarea, or contenteditable)`,
+    );
+  }
+  if (!params.force) {
+    if (isField && el.readOnly) {
+      throw new Error(`Cannot type into element ref "${params.ref}": it is read-only`);
+    }
+    await waitForActionable(params.ref, 'type into', false);
+  }
 
   // Focus the element
   if (el instanceof HTMLElement) {
     el.focus();
   }
 
+  if (params.input === 'trusted') {
+    if (isField) {
+      el.select();
+    } else {
+      const range = document.createRange();
+      range.selectNodeContents(el);
+      window.getSelection()?.removeAllRanges();
+      window.getSelection()?.addRange(range);
+    }
+    return {};
+  }
+
   // Clear existing value and set new one
   if (
     el instanceof HTMLInputElement ||
@@ -911,7 +1536,7 @@ export async function handleType(params: TypeParams): Promise<void> {
 
     // Fire change event
     el.dispatchEvent(new Event('change', { bubbles: true }));
-  } else if (el instanceof HTMLElement && el.isContentEditable) {
+  } else {
     // Content-editable element — use execCommand to work with rich text editors
     // Select all existing content first
     const selection = window.getSelection();
@@ -931,10 +1556,6 @@ export async function handleType(params: TypeParams): Promise<void> {
       // Replace all selected content at once
       document.execCommand('insertText', false, params.text);
     }
-  } else {
-    throw new Error(
-      `Element ref "${params.ref}" is not an editable element (input, textarea, or contenteditable)`,
-    );
   }
 
   // Submit if requested (press Enter)
@@ -952,6 +1573,7 @@ export async function handleType(params: TypeParams): Promise<void> {
       form.requestSubmit();
     }
   }
+  return undefined;
 }
 
 // ============================================================
@@ -974,48 +1596,220 @@ export function keyToCode(key: string): string {
     };
     return punctMap[key] || key;
   }
+  // Modifiers report the left-hand key
+  if (MODIFIER_KEYS.has(key)) return `${key}Left`;
   // Named keys where key and code match (Enter, Tab, Escape, Arrow*, etc.)
   return key;
 }
 
-export function handlePressKey(params: PressKeyParams): void {
-  // Dispatch to the focused element or document body
-  const target = document.activeElement || document.body;
+/** Legacy keyCode values (as Firefox reports them) for named keys */
+const NAMED_KEY_CODES: Record<string, number> = {
+  Backspace: 8, Tab: 9, Enter: 13, Shift: 16, Control: 17, Alt: 18,
+  Pause: 19, CapsLock: 20, Escape: 27, PageUp: 33, PageDown: 34,
+  End: 35, Home: 36, ArrowLeft: 37, ArrowUp: 38, ArrowRight: 39,
+  ArrowDown: 40, Insert: 45, Delete: 46, ContextMenu: 93, Meta: 224,
+};
 
-  const opts: KeyboardEventInit = {
-    key: params.key,
-    code: keyToCode(params.key),
-    bubbles: true,
-    cancelable: true,
-  };
+/** Legacy keyCode values (as Firefox reports them) for punctuation */
+const PUNCTUATION_KEY_CODES: Record<string, number> = {
+  ';': 59, '=': 61, ',': 188, '-': 173, '.': 190, '/': 191,
+  '`': 192, '[': 219, '\\': 220, ']': 221, "'": 222,
+};
 
-  target.dispatchEvent(new KeyboardEvent('keydown', opts));
-  target.dispatchEvent(new KeyboardEvent('keyup', opts));
+/** Map a key name to the legacy keyCode many shortcut handlers still check */
+export function keyToKeyCode(key: string): number {
+  if (key.length === 1) {
+    const upper = key.toUpperCase();
+    if ((upper >= 'A' && upper <= 'Z') || (upper >= '0' && upper <= '9') || key === ' ') {
+      return upper.charCodeAt(0);
+    }
+    return PUNCTUATION_KEY_CODES[key] ?? 0;
+  }
+  const fn = /^F(\d{1,2})$/.exec(key);
+  if (fn) return 111 + Number(fn[1]);
+  return NAMED_KEY_CODES[key] ?? 0;
 }
 
-// ============================================================
-// Hover handler
-// ============================================================
+const MODIFIER_KEYS: ReadonlySet<string> = new Set(['Alt', 'Control', 'Meta', 'Shift']);
 
-export function handleHover(params: HoverParams): void {
-  const el = resolveRef(params.ref);
+/** Other spellings accepted for modifiers in chords */
+const MODIFIER_ALIASES: Record<string, KeyModifier> = {
+  Ctrl: 'Control',
+  Cmd: 'Meta',
+  Command: 'Meta',
+  Option: 'Alt',
+};
 
-  // Scroll into view before hovering
-  if (el instanceof HTMLElement) {
-    el.scrollIntoView({ block: 'center', behavior: 'instant' as ScrollBehavior });
+/** Parse one chord such as "Control+Shift+K", "+" or "Control++" */
+function parseChord(chord: string): KeyChord {
+  const parts = chord.split('+');
+  let key = parts.pop()!;
+  // The plus key itself leaves an empty part on either side of its "+"
+  if (key === '' && parts.length > 0 && parts[parts.length - 1] === '') {
+    parts.pop();
+    key = '+';
   }
+  if (key === 'Space') key = ' ';
+  if ([...key].length !== 1 && !/^[A-Z][A-Za-z0-9]*$/.test(key)) {
+    throw new Error(
+      `Unknown key "${key}" in "${chord}". Use a single character or a key name such as Enter, Tab or ArrowLeft; to enter text use browser_type.`,
+    );
+  }
+  const modifiers = parts.map((part): KeyModifier => {
+    const modifier = MODIFIER_KEYS.has(part) ? (part as KeyModifier) : MODIFIER_ALIASES[part];
+    if (!modifier) {
+      throw new Error(`Unknown modifier "${part}" in "${chord}". Use Alt, Control, Meta or Shift.`);
+    }
+    return modifier;
+  });
+  return { key, modifiers };
+}
 
-  const rect = el.getBoundingClientRect();
-  const x = rect.left + rect.width / 2;
-  const y = rect.top + rect.height / 2;
-
-  const opts: MouseEventInit = {
-    bubbles: true,
-    cancelable: true,
-    view: window,
-    clientX: x,
-    clientY: y,
-  };
+/**
+ * Parse press_key notation into chords: modifiers and a key joined by "+",
+ * several chords separated by spaces. A lone " " is the space bar.
+ */
+export function parseKeySequence(notation: string): KeyChord[] {
+  if (notation === ' ') return [{ key: ' ', modifiers: [] }];
+  const chords = notation.trim().split(/\s+/);
+  if (chords[0] === '') throw new Error('No key given to press');
+  return chords.map(parseChord);
+}
+
+/** Insert a typed character at the caret, as the browser's default action would */
+function insertTypedText(target: Element, text: string): void {
+  if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) {
+    if (target.readOnly || target.disabled) return;
+    const init: InputEventInit = { data: text, inputType: 'insertText', bubbles: true };
+    if (!target.dispatchEvent(new InputEvent('beforeinput', { ...init, cancelable: true }))) return;
+    // Inputs without a caret (email, number, ...) report a null selection
+    const start = target.selectionStart;
+    if (start === null) {
+      target.value += text;
+    } else {
+      target.setRangeText(text, start, target.selectionEnd ?? start, 'end');
+    }
+    target.dispatchEvent(new InputEvent('input', init));
+  } else if (target instanceof HTMLElement && target.isContentEditable) {
+    // execCommand fires beforeinput and input itself
+    document.execCommand('insertText', false, text);
+  }
+}
+
+/**
+ * Press one chord on the focused element: modifier keydowns, the key's
+ * keydown, then for a printable key without Control or Meta a keypress and
+ * the text insertion it causes, then keyups in reverse. Each event carries
+ * the modifier flags held at that moment; a cancelled keydown or keypress
+ * suppresses the text, as in a real browser.
+ */
+async function pressChord(chord: KeyChord, holdMs: number): Promise<void> {
+  // Dispatch to the focused element or document body
+  const target = document.activeElement || document.body;
+  const held = new Set<string>();
+
+  const fire = (type: 'keydown' | 'keypress' | 'keyup', key: string): boolean =>
+    target.dispatchEvent(
+      new KeyboardEvent(type, {
+        key,
+        code: keyToCode(key),
+        keyCode: type === 'keypress' ? 0 : keyToKeyCode(key),
+        charCode: type === 'keypress' ? key.codePointAt(0) : 0,
+        altKey: held.has('Alt'),
+        ctrlKey: held.has('Control'),
+        metaKey: held.has('Meta'),
+        shiftKey: held.has('Shift'),
+        bubbles: true,
+        cancelable: true,
+      }),
+    );
+
+  for (const modifier of chord.modifiers) {
+    held.add(modifier);
+    fire('keydown', modifier);
+  }
+  if (MODIFIER_KEYS.has(chord.key)) held.add(chord.key);
+  const printable = [...chord.key].length === 1;
+  // Shift+a produces "A", as a US layout would; other characters are left as written
+  const key = printable && held.has('Shift') ? chord.key.toUpperCase() : chord.key;
+  const inserts = printable && !held.has('Control') && !held.has('Meta');
+  if (fire('keydown', key) && inserts && fire('keypress', key)) {
+    insertTypedText(target, key);
+  }
+
+  if (holdMs > 0) await new Promise((r) => setTimeout(r, holdMs));
+
+  held.delete(chord.key);
+  fire('keyup', key);
+  for (const modifier of [...chord.modifiers].reverse()) {
+    held.delete(modifier);
+    fire('keyup', modifier);
+  }
+}
+
+/** Longest a chord may be held down */
+const MAX_KEY_HOLD_MS = 10_000;
+
+/**
+ * Longest the holds of one press_key may add up to, leaving the rest of the
+ * command timeout for readying the page and relaying the answer
+ */
+const MAX_KEY_HOLD_TOTAL_MS = COMMAND_TIMEOUT_MS - 10_000;
+
+/**
+ * Press the key, chord or sequence in params.key, params.repeat times. With
+ * input: 'trusted' nothing is dispatched; the parsed chords are returned for
+ * the background to deliver as real input.
+ */
+export async function handlePressKey(params: PressKeyParams): Promise<TrustedInputTarget | undefined> {
+  const repeat = params.repeat ?? 1;
+  if (!Number.isInteger(repeat) || repeat < 1) {
+    throw new Error('repeat must be a positive whole number');
+  }
+  const holdMs = params.holdMs ?? 0;
+  if (!(holdMs >= 0 && holdMs <= MAX_KEY_HOLD_MS)) {
+    throw new Error(`holdMs must be between 0 and ${MAX_KEY_HOLD_MS}`);
+  }
+
+  const sequence = parseKeySequence(params.key);
+  const chords: KeyChord[] = [];
+  for (let i = 0; i < repeat; i++) chords.push(...sequence);
+  if (chords.length * holdMs > MAX_KEY_HOLD_TOTAL_MS) {
+    throw new Error(
+      `Holding ${chords.length} chord(s) for ${holdMs}ms each takes longer than the ${MAX_KEY_HOLD_TOTAL_MS}ms a press_key allows; lower repeat or holdMs.`,
+    );
+  }
+  if (params.input === 'trusted') return { chords };
+
+  for (const chord of chords) {
+    await pressChord(chord, holdMs);
+  }
+  return undefined;
+}
+
+// ============================================================
+// Hover handler
+// ============================================================
+
+export function handleHover(params: HoverParams): void {
+  const el = resolveRef(params.ref);
+
+  // Scroll into view before hovering
+  if (el instanceof HTMLElement) {
+    el.scrollIntoView({ block: 'center', behavior: 'instant' as ScrollBehavior });
+  }
+
+  const rect = el.getBoundingClientRect();
+  const x = rect.left + rect.width / 2;
+  const y = rect.top + rect.height / 2;
+
+  const opts: MouseEventInit = {
+    bubbles: true,
+    cancelable: true,
+    view: window,
+    clientX: x,
+    clientY: y,
+  };
 
   // Dispatch pointer events first (modern frameworks rely on these)
   el.dispatchEvent(new PointerEvent('pointerenter', { ...opts, bubbles: false }));
@@ -1028,6 +1822,450 @@ export function handleHover(params: HoverParams): void {
   el.dispatchEvent(new MouseEvent('mousemove', opts));
 }
 
+// ============================================================
+// Drag handler
+// ============================================================
+
+/** Pointer moves between the start and drop points when none are given */
+const DEFAULT_DRAG_STEPS = 5;
+
+/** The element HTML5 drag-and-drop would pick up: the start element or its nearest draggable ancestor */
+function findDraggable(el: Element): HTMLElement | null {
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    if (node instanceof HTMLElement && node.draggable) return node;
+  }
+  return null;
+}
+
+/**
+ * Drag the start element to the end element (or by an offset). Pages build
+ * drag-and-drop on one of two event models, so both run in one pass: a
+ * pointer/mouse press, moves and release for pointer-driven libraries, and,
+ * when the element is draggable, the HTML5 dragstart/dragenter/dragover/drop/
+ * dragend sequence sharing one DataTransfer. Moves go to whatever element is
+ * under the pointer at each step.
+ */
+export async function handleDrag(params: DragParams): Promise<DragResult> {
+  if (!params.endRef && params.offsetX === undefined && params.offsetY === undefined) {
+    throw new Error('Provide endRef to drop onto, or offsetX/offsetY to drag by');
+  }
+  const steps = params.steps ?? DEFAULT_DRAG_STEPS;
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error('steps must be a positive whole number');
+  }
+  // Resolve the drop target up front so a bad ref fails before anything is pressed
+  const endEl = params.endRef ? resolveRef(params.endRef) : null;
+
+  let source: Element;
+  let x: number;
+  let y: number;
+  if (params.force) {
+    source = resolveRef(params.startRef);
+    if (source instanceof HTMLElement) {
+      source.scrollIntoView({ block: 'center', behavior: 'instant' as ScrollBehavior });
+    }
+    const rect = source.getBoundingClientRect();
+    x = rect.left + rect.width / 2;
+    y = rect.top + rect.height / 2;
+  } else {
+    ({ el: source, x, y } = await waitForActionable(params.startRef, 'drag', true));
+  }
+
+  const press: PointerEventInit = {
+    ...MOUSE_POINTER,
+    bubbles: true,
+    cancelable: true,
+    view: window,
+    clientX: x,
+    clientY: y,
+    button: 0,
+    buttons: 1,
+  };
+  source.dispatchEvent(new PointerEvent('pointerdown', press));
+  source.dispatchEvent(new MouseEvent('mousedown', press));
+
+  let endX = x + (params.offsetX ?? 0);
+  let endY = y + (params.offsetY ?? 0);
+  if (endEl) {
+    if (endEl instanceof HTMLElement) {
+      endEl.scrollIntoView({ block: 'nearest', behavior: 'instant' as ScrollBehavior });
+    }
+    const rect = endEl.getBoundingClientRect();
+    endX = rect.left + rect.width / 2 + (params.offsetX ?? 0);
+    endY = rect.top + rect.height / 2 + (params.offsetY ?? 0);
+  }
+
+  const draggable = findDraggable(source);
+  const dataTransfer = new DataTransfer();
+  const dragInit = (clientX: number, clientY: number): DragEventInit => ({
+    bubbles: true,
+    cancelable: true,
+    view: window,
+    clientX,
+    clientY,
+    dataTransfer,
+  });
+  let html5Drag = false;
+  let dropAccepted = false;
+  let over: Element | null = null;
+  let under: Element = source;
+
+  for (let i = 1; i <= steps; i++) {
+    const px = x + ((endX - x) * i) / steps;
+    const py = y + ((endY - y) * i) / steps;
+    under = document.elementFromPoint(px, py) ?? (i === steps && endEl ? endEl : under);
+
+    const move: PointerEventInit = { ...press, clientX: px, clientY: py };
+    under.dispatchEvent(new PointerEvent('pointermove', move));
+    under.dispatchEvent(new MouseEvent('mousemove', move));
+
+    // The first move past the press is what starts a native drag
+    if (i === 1 && draggable) {
+      html5Drag = draggable.dispatchEvent(new DragEvent('dragstart', dragInit(x, y)));
+    }
+    if (!html5Drag) continue;
+
+    draggable!.dispatchEvent(new DragEvent('drag', dragInit(px, py)));
+    if (under !== over) {
+      under.dispatchEvent(new DragEvent('dragenter', dragInit(px, py)));
+      over?.dispatchEvent(new DragEvent('dragleave', dragInit(px, py)));
+      over = under;
+    }
+    // A drop target signals it accepts the drop by cancelling dragover
+    dropAccepted = !under.dispatchEvent(new DragEvent('dragover', dragInit(px, py)));
+  }
+
+  if (html5Drag) {
+    if (dropAccepted) {
+      under.dispatchEvent(new DragEvent('drop', dragInit(endX, endY)));
+    } else {
+      under.dispatchEvent(new DragEvent('dragleave', dragInit(endX, endY)));
+    }
+    draggable!.dispatchEvent(new DragEvent('dragend', dragInit(endX, endY)));
+  }
+
+  const release: PointerEventInit = { ...press, clientX: endX, clientY: endY, buttons: 0 };
+  under.dispatchEvent(new PointerEvent('pointerup', release));
+  under.dispatchEvent(new MouseEvent('mouseup', release));
+
+  return html5Drag
+    ? { droppedOn: describeElement(under), html5Drag, dropAccepted }
+    : { droppedOn: describeElement(under), html5Drag };
+}
+
+// ============================================================
+// Scroll handler
+// ============================================================
+
+/** Scrolls untilNoNewContent makes at most when maxScrolls is not given */
+const DEFAULT_MAX_SCROLLS = 10;
+
+/** How long untilNoNewContent waits for new content after each scroll by default */
+const DEFAULT_SCROLL_WAIT_MS = 1000;
+
+/** How often to check for new content after a scroll */
+const SCROLL_POLL_MS = 100;
+
+/**
+ * Longest untilNoNewContent may spend waiting in all (maxScrolls × waitMs),
+ * leaving the rest of the command timeout for polling and the relay
+ */
+const MAX_SCROLL_WAIT_TOTAL_MS = COMMAND_TIMEOUT_MS - 5_000;
+
+/** How much content a scroller holds: its scrollable height and element count */
+function measureContent(scroller: Element): { height: number; elements: number } {
+  return { height: scroller.scrollHeight, elements: scroller.getElementsByTagName('*').length };
+}
+
+function hasGrown(scroller: Element, before: { height: number; elements: number }): boolean {
+  const now = measureContent(scroller);
+  return now.height > before.height || now.elements > before.elements;
+}
+
+/** Resolve true as soon as the scroller's content grows, false after waitMs without growth */
+async function waitForNewContent(
+  scroller: Element,
+  before: { height: number; elements: number },
+  waitMs: number,
+): Promise<boolean> {
+  const deadline = Date.now() + waitMs;
+  while (Date.now() < deadline) {
+    await new Promise((r) => setTimeout(r, SCROLL_POLL_MS));
+    if (hasGrown(scroller, before)) return true;
+  }
+  return false;
+}
+
+/**
+ * Scroll the page, or a scrollable container, in one of four modes: bring
+ * a ref into view, move by a pixel delta, jump to the top or bottom, or keep
+ * jumping to the bottom while an infinite feed loads more. Scrolling is
+ * instant, overriding any smooth-scroll CSS, so the reported position is final.
+ */
+export async function handleScroll(params: ScrollParams): Promise<ScrollResult> {
+  const modes = [
+    params.ref !== undefined,
+    params.deltaX !== undefined || params.deltaY !== undefined,
+    params.to !== undefined,
+    params.untilNoNewContent === true,
+  ].filter(Boolean).length;
+  if (modes !== 1) {
+    throw new Error('Give exactly one of ref, deltaX/deltaY, to or untilNoNewContent');
+  }
+
+  const scroller = params.containerRef
+    ? resolveRef(params.containerRef)
+    : document.scrollingElement ?? document.documentElement;
+  if (
+    params.containerRef &&
+    scroller.scrollHeight <= scroller.clientHeight &&
+    scroller.scrollWidth <= scroller.clientWidth
+  ) {
+    throw new Error(
+      `Element ref "${params.containerRef}" is not scrollable: its content fits inside it. Use the element that has the scrollbar, or omit containerRef to scroll the page.`,
+    );
+  }
+
+  const initial = measureContent(scroller);
+  const instant = 'instant' as ScrollBehavior;
+  let loads: number | undefined;
+
+  if (params.ref !== undefined) {
+    resolveRef(params.ref).scrollIntoView({ block: 'center', behavior: instant });
+  } else if (params.to !== undefined) {
+    scroller.scrollTo({ top: params.to === 'top' ? 0 : scroller.scrollHeight, behavior: instant });
+  } else if (!params.untilNoNewContent) {
+    scroller.scrollBy({ left: params.deltaX ?? 0, top: params.deltaY ?? 0, behavior: instant });
+  } else {
+    const maxScrolls = params.maxScrolls ?? DEFAULT_MAX_SCROLLS;
+    const waitMs = params.waitMs ?? DEFAULT_SCROLL_WAIT_MS;
+    if (!Number.isInteger(maxScrolls) || maxScrolls < 1) {
+      throw new Error('maxScrolls must be a positive whole number');
+    }
+    if (!(waitMs > 0)) throw new Error('waitMs must be positive');
+    if (maxScrolls * waitMs > MAX_SCROLL_WAIT_TOTAL_MS) {
+      throw new Error(
+        `maxScrolls × waitMs may be at most ${MAX_SCROLL_WAIT_TOTAL_MS}ms, or the command times out; ${maxScrolls} × ${waitMs}ms is more. Lower either, and scroll again if the feed has more.`,
+      );
+    }
+
+    loads = 0;
+    for (let i = 0; i < maxScrolls; i++) {
+      const before = measureContent(scroller);
+      scroller.scrollTo({ top: scroller.scrollHeight, behavior: instant });
+      if (!(await waitForNewContent(scroller, before, waitMs))) break;
+      loads++;
+    }
+  }
+
+  return {
+    scrollLeft: scroller.scrollLeft,
+    scrollTop: scroller.scrollTop,
+    scrollWidth: scroller.scrollWidth,
+    scrollHeight: scroller.scrollHeight,
+    atBottom: scroller.scrollTop + scroller.clientHeight >= scroller.scrollHeight - 1,
+    contentGrew: hasGrown(scroller, initial),
+    ...(loads !== undefined ? { loads } : {}),
+  };
+}
+
+// ============================================================
+// Coordinate mouse handler
+// ============================================================
+
+/** MouseEvent.button for each button name */
+const BUTTON_CODES: Record<'left' | 'middle' | 'right', number> = { left: 0, middle: 1, right: 2 };
+
+/** MouseEvent.buttons bit for each button name */
+const BUTTON_BITS: Record<'left' | 'middle' | 'right', number> = { left: 1, middle: 4, right: 2 };
+
+/**
+ * The coordinate mouse between commands: the element it is over, for
+ * over/out and enter/leave transitions, the buttons it holds down, and
+ * where the left button went down, so releasing it there clicks.
+ */
+const mouse: { over: Element | null; buttons: number; pressedOn: Element | null } = {
+  over: null,
+  buttons: 0,
+  pressedOn: null,
+};
+
+/** Forget the coordinate mouse's position and buttons (for testing) */
+export function resetMouseState(): void {
+  mouse.over = null;
+  mouse.buttons = 0;
+  mouse.pressedOn = null;
+}
+
+/** The element at a viewport point, or an error naming the viewport size */
+function elementAtPoint(x: number, y: number): Element {
+  const el = document.elementFromPoint(x, y);
+  if (!el) {
+    throw new Error(
+      `Point (${x}, ${y}) is outside the viewport, which is ${window.innerWidth}x${window.innerHeight} CSS pixels`,
+    );
+  }
+  return el;
+}
+
+/** An element and its ancestors, innermost first */
+function ancestorsOf(el: Element): Element[] {
+  const chain: Element[] = [];
+  for (let node: Element | null = el; node; node = node.parentElement) chain.push(node);
+  return chain;
+}
+
+/**
+ * Move the coordinate mouse onto an element: out/leave events for the
+ * element it leaves, over/enter for the one it enters, then the move itself.
+ */
+function moveMouseTo(target: Element, init: PointerEventInit): void {
+  const previous = mouse.over?.isConnected ? mouse.over : null;
+  if (previous !== target) {
+    const left = previous ? ancestorsOf(previous) : [];
+    const entered = ancestorsOf(target);
+    const leaveOnly = { ...init, bubbles: false, cancelable: false };
+    if (previous) {
+      previous.dispatchEvent(new PointerEvent('pointerout', init));
+      previous.dispatchEvent(new MouseEvent('mouseout', init));
+      for (const el of left.filter((el) => !entered.includes(el))) {
+        el.dispatchEvent(new PointerEvent('pointerleave', leaveOnly));
+        el.dispatchEvent(new MouseEvent('mouseleave', leaveOnly));
+      }
+    }
+    target.dispatchEvent(new PointerEvent('pointerover', init));
+    target.dispatchEvent(new MouseEvent('mouseover', init));
+    for (const el of entered.filter((el) => !left.includes(el)).reverse()) {
+      el.dispatchEvent(new PointerEvent('pointerenter', leaveOnly));
+      el.dispatchEvent(new MouseEvent('mouseenter', leaveOnly));
+    }
+    mouse.over = target;
+  }
+  target.dispatchEvent(new PointerEvent('pointermove', init));
+  target.dispatchEvent(new MouseEvent('mousemove', init));
+}
+
+/** The nearest element at or above el that can scroll further by the delta, else the page */
+function wheelScroller(el: Element, deltaX: number, deltaY: number): Element {
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    const style = getComputedStyle(node);
+    const canScrollY = /auto|scroll/.test(style.overflowY) && node.scrollHeight > node.clientHeight;
+    const canScrollX = /auto|scroll/.test(style.overflowX) && node.scrollWidth > node.clientWidth;
+    if ((deltaY !== 0 && canScrollY) || (deltaX !== 0 && canScrollX)) return node;
+  }
+  return document.scrollingElement ?? document.documentElement;
+}
+
+/**
+ * Perform a mouse action at a viewport point. Every action first moves the
+ * mouse there, as a real pointer would, so hover effects and drag handlers
+ * that track pointermove see the path. Events go to the element at the point,
+ * which is a <canvas> for most charts, maps and games.
+ */
+export function handleMouse(params: MouseParams): MouseResult {
+  const button = params.button ?? 'left';
+  const clickCount = params.clickCount ?? 1;
+  if (params.action === 'click' && (!Number.isInteger(clickCount) || clickCount < 1)) {
+    throw new Error('clickCount must be a positive whole number');
+  }
+  const deltaX = params.deltaX ?? 0;
+  const deltaY = params.deltaY ?? 0;
+  if (params.action === 'wheel' && deltaX === 0 && deltaY === 0) {
+    throw new Error('wheel needs deltaX or deltaY');
+  }
+  const target = elementAtPoint(params.x, params.y);
+
+  const base: PointerEventInit = {
+    ...MOUSE_POINTER,
+    bubbles: true,
+    cancelable: true,
+    view: window,
+    clientX: params.x,
+    clientY: params.y,
+    altKey: params.modifiers?.includes('Alt') ?? false,
+    ctrlKey: params.modifiers?.includes('Control') ?? false,
+    metaKey: params.modifiers?.includes('Meta') ?? false,
+    shiftKey: params.modifiers?.includes('Shift') ?? false,
+  };
+  moveMouseTo(target, { ...base, buttons: mouse.buttons });
+
+  const result: MouseResult = { target: describeElement(target), devicePixelRatio: window.devicePixelRatio };
+  const withButton = (detail: number): PointerEventInit & { detail: number } => ({
+    ...base,
+    button: BUTTON_CODES[button],
+    buttons: mouse.buttons,
+    detail,
+  });
+  const press = (detail: number): void => {
+    mouse.buttons |= BUTTON_BITS[button];
+    target.dispatchEvent(new PointerEvent('pointerdown', withButton(detail)));
+    target.dispatchEvent(new MouseEvent('mousedown', withButton(detail)));
+    if (button === 'right') target.dispatchEvent(new MouseEvent('contextmenu', withButton(detail)));
+    if (button === 'left') mouse.pressedOn = target;
+  };
+  const release = (detail: number): void => {
+    mouse.buttons &= ~BUTTON_BITS[button];
+    target.dispatchEvent(new PointerEvent('pointerup', withButton(detail)));
+    target.dispatchEvent(new MouseEvent('mouseup', withButton(detail)));
+    if (button !== 'left') {
+      target.dispatchEvent(new MouseEvent('auxclick', withButton(detail)));
+      return;
+    }
+    // A click needs the press and release on the same element
+    const pressedOn = mouse.pressedOn;
+    mouse.pressedOn = null;
+    if (pressedOn !== target) return;
+    target.dispatchEvent(new MouseEvent('click', withButton(detail)));
+    if (detail === 2) target.dispatchEvent(new MouseEvent('dblclick', withButton(detail)));
+  };
+
+  switch (params.action) {
+    case 'move':
+      break;
+
+    case 'down':
+      press(1);
+      break;
+
+    case 'up':
+      release(1);
+      break;
+
+    case 'click':
+      for (let detail = 1; detail <= clickCount; detail++) {
+        press(detail);
+        release(detail);
+      }
+      if (target instanceof HTMLElement) target.focus();
+      break;
+
+    case 'wheel': {
+      const wheel = new WheelEvent('wheel', {
+        ...base,
+        buttons: mouse.buttons,
+        deltaX,
+        deltaY,
+        deltaMode: WheelEvent.DOM_DELTA_PIXEL,
+      });
+      // Synthetic wheel events never scroll by themselves, so scroll unless the
+      // page claimed the wheel (zooming a map, say) by cancelling it
+      result.scrolled = target.dispatchEvent(wheel);
+      if (result.scrolled) {
+        wheelScroller(target, deltaX, deltaY).scrollBy({
+          left: deltaX,
+          top: deltaY,
+          behavior: 'instant' as ScrollBehavior,
+        });
+      }
+      break;
+    }
+
+    default:
+      throw new Error(`Unknown mouse action: ${params.action}`);
+  }
+  return result;
+}
+
 // ============================================================
 // Fill form handler
 // ============================================================
@@ -1234,9 +2472,9 @@ export async function handleEvaluate(params: EvaluateParams): Promise<{ value: u
               value = '[DOM Node: ' + (result.nodeName || 'unknown') + ']';
             } else {
               const serialized = JSON.stringify(result);
-              // Guard against oversized results (> 1MB)
-              if (serialized && serialized.length > 1048576) {
-                value = '[Result truncated: serialized size ' + serialized.length + ' bytes exceeds 1MB limit]';
+              // Guard against oversized results (> 16MB)
+              if (serialized && serialized.length > 16777216) {
+                value = '[Result truncated: serialized size ' + serialized.length + ' bytes exceeds 16MB limit]';
               } else {
                 value = result;
               }
@@ -1271,34 +2509,254 @@ export async function handleEvaluate(params: EvaluateParams): Promise<{ value: u
   return { value: result };
 }
 
+// ============================================================
+// Console capture
+// ============================================================
+
+let consoleMessages: ConsoleMessage[] = [];
+let consoleDropped = 0;
+let consoleRecording = false;
+
+function onConsoleMessage(event: Event): void {
+  let message: ConsoleMessage;
+  try {
+    message = JSON.parse((event as CustomEvent).detail as string);
+  } catch {
+    return;
+  }
+  consoleMessages.push(message);
+  if (consoleMessages.length > MAX_CONSOLE_MESSAGES) {
+    consoleMessages.shift();
+    consoleDropped++;
+  }
+}
+
+/** Install the console hook in the page's main world (a no-op if already there) */
+function installConsoleHook(): void {
+  const script = document.createElement('script');
+  script.textContent = consoleHookSource();
+  document.documentElement.appendChild(script);
+  script.remove();
+}
+
+/** Stop capturing and discard all buffered messages (used by tests) */
+export function resetConsoleCapture(): void {
+  window.removeEventListener(CONSOLE_EVENT, onConsoleMessage);
+  consoleRecording = false;
+  consoleMessages = [];
+  consoleDropped = 0;
+}
+
+export function handleConsoleMessages(params: ConsoleMessagesParams): ConsoleMessagesResult {
+  switch (params.action) {
+    case 'start':
+      if (!consoleRecording) {
+        installConsoleHook();
+        window.addEventListener(CONSOLE_EVENT, onConsoleMessage);
+        // Take what was logged while the page loaded
+        window.dispatchEvent(new CustomEvent(CONSOLE_CLAIM_EVENT));
+        consoleRecording = true;
+      }
+      return { recording: true, count: consoleMessages.length };
+
+    case 'stop':
+      window.removeEventListener(CONSOLE_EVENT, onConsoleMessage);
+      consoleRecording = false;
+      return { recording: false, count: consoleMessages.length };
+
+    case 'get': {
+      const messages = params.level
+        ? consoleMessages.filter((m) => m.level === params.level)
+        : [...consoleMessages];
+      return { messages, dropped: consoleDropped, recording: consoleRecording };
+    }
+
+    case 'clear':
+      consoleMessages = [];
+      consoleDropped = 0;
+      return { recording: consoleRecording, count: 0 };
+
+    default:
+      throw new Error(`Unknown console action: ${params.action}`);
+  }
+}
+
+// ============================================================
+// WebSocket and EventSource frame capture
+// ============================================================
+
+let socketFrames: SocketFrame[] = [];
+let socketFramesDropped = 0;
+let socketRecording = false;
+
+function onSocketFrame(event: Event): void {
+  let frame: SocketFrame;
+  try {
+    frame = JSON.parse((event as CustomEvent).detail as string);
+  } catch {
+    return;
+  }
+  socketFrames.push(frame);
+  if (socketFrames.length > MAX_SOCKET_FRAMES) {
+    socketFrames.shift();
+    socketFramesDropped++;
+  }
+}
+
+/** Install the socket hook in the page's main world (a no-op if already there) */
+function installSocketHook(): void {
+  const script = document.createElement('script');
+  script.textContent = socketHookSource();
+  document.documentElement.appendChild(script);
+  script.remove();
+}
+
+/** Stop capturing and discard all buffered frames (used by tests) */
+export function resetSocketCapture(): void {
+  window.removeEventListener(FRAME_EVENT, onSocketFrame);
+  socketRecording = false;
+  socketFrames = [];
+  socketFramesDropped = 0;
+}
+
+/**
+ * The page's share of browser_network_requests: the background forwards
+ * start/stop/clear here alongside its own webRequest recording, and
+ * frames reads this page's buffer.
+ */
+export function handleSocketFrames(params: NetworkRequestsParams): NetworkRequestsResult {
+  switch (params.action) {
+    case 'start':
+      if (!socketRecording) {
+        installSocketHook();
+        window.addEventListener(FRAME_EVENT, onSocketFrame);
+        // Take the frames of sockets opened while the page loaded
+        window.dispatchEvent(new CustomEvent(FRAME_CLAIM_EVENT));
+        socketRecording = true;
+      }
+      return { recording: true, count: socketFrames.length };
+
+    case 'stop':
+      window.removeEventListener(FRAME_EVENT, onSocketFrame);
+      socketRecording = false;
+      return { recording: false, count: socketFrames.length };
+
+    case 'clear':
+      socketFrames = [];
+      socketFramesDropped = 0;
+      return { recording: socketRecording, count: 0 };
+
+    case 'frames': {
+      const url = params.filter?.toLowerCase();
+      const frames = socketFrames.filter(
+        (f) =>
+          (!url || f.url.toLowerCase().includes(url)) &&
+          (!params.direction || f.direction === params.direction),
+      );
+      return { frames, framesDropped: socketFramesDropped, recording: socketRecording };
+    }
+
+    default:
+      throw new Error(`Network action '${params.action}' is not handled by the content script`);
+  }
+}
+
 // ============================================================
 // Wait for handler
 // ============================================================
 
+/** Whether a wait_for has a selector/ref condition */
+function hasElementCondition(params: WaitForParams): boolean {
+  return params.selector !== undefined || params.ref !== undefined;
+}
+
+/** The element a selector/ref wait watches, or null while it is not attached */
+function findWaitTarget(params: WaitForParams): Element | null {
+  if (params.ref) {
+    const el = refMap.get(params.ref);
+    return el && el.isConnected ? el : null;
+  }
+  return document.querySelector(params.selector!);
+}
+
+function elementConditionMet(params: WaitForParams): boolean {
+  const el = findWaitTarget(params);
+  if (params.value !== undefined) {
+    if (!el || !('value' in el) || (el as HTMLInputElement).value !== params.value) return false;
+  }
+  if (params.hasText !== undefined) {
+    const text = el instanceof HTMLElement && typeof el.innerText === 'string'
+      ? el.innerText
+      : el?.textContent ?? '';
+    if (!el || !text.includes(params.hasText)) return false;
+  }
+
+  // A value or text check only needs the element; otherwise wait for it to show
+  const state = params.state ?? (params.value !== undefined || params.hasText !== undefined
+    ? 'attached'
+    : 'visible');
+  switch (state) {
+    case 'attached':
+      return el !== null;
+    case 'detached':
+      return el === null;
+    case 'visible':
+      return el !== null && isShown(el);
+    case 'hidden':
+      return el === null || !isShown(el);
+    case 'enabled':
+      return el !== null && !el.matches(':disabled') && el.getAttribute('aria-disabled') !== 'true';
+  }
+}
+
 export function handleWaitFor(params: WaitForParams): Promise<{ matched: boolean }> {
+  const watchesElement = hasElementCondition(params);
   // Validate that at least one parameter is provided
-  if (!params.text && !params.textGone && params.time == null) {
+  if (!params.text && !params.textGone && params.time == null && !watchesElement) {
     return Promise.reject(
-      new Error('At least one of "text", "textGone", or "time" must be provided'),
+      new Error('At least one of "text", "textGone", "selector", "ref", or "time" must be provided'),
     );
   }
+  if (params.selector !== undefined && params.ref !== undefined) {
+    return Promise.reject(new Error('Provide either "selector" or "ref", not both'));
+  }
+  if (params.selector !== undefined) {
+    try {
+      document.querySelector(params.selector);
+    } catch {
+      return Promise.reject(new Error(`Invalid selector: "${params.selector}"`));
+    }
+  }
+  if (params.ref && !refMap.has(params.ref) && !retiredRefs.has(params.ref)) {
+    // Never issued: fail now with the usual message rather than time out
+    try {
+      resolveRef(params.ref);
+    } catch (err) {
+      return Promise.reject(err);
+    }
+  }
 
   const timeoutMs = params.time ? params.time * 1000 : 30000;
 
   return new Promise((resolve) => {
     // If just waiting for time, use setTimeout
-    if (!params.text && !params.textGone) {
+    if (!params.text && !params.textGone && !watchesElement) {
       setTimeout(() => resolve({ matched: true }), timeoutMs);
       return;
     }
 
-    const searchText = params.text || params.textGone!;
+    const searchText = params.text || params.textGone;
     const waitForAppear = !!params.text;
+    const conditionMet = (): boolean => {
+      if (searchText) {
+        const found = (document.body?.textContent || '').includes(searchText);
+        if (found !== waitForAppear) return false;
+      }
+      return !watchesElement || elementConditionMet(params);
+    };
 
     // Check immediately
-    const bodyText = document.body?.textContent || '';
-    const found = bodyText.includes(searchText);
-    if ((waitForAppear && found) || (!waitForAppear && !found)) {
+    if (conditionMet()) {
       resolve({ matched: true });
       return;
     }
@@ -1309,43 +2767,177 @@ export function handleWaitFor(params: WaitForParams): Promise<{ matched: boolean
     // on attribute-heavy pages (at most once per 100ms)
     let debounceTimer: ReturnType<typeof setTimeout> | null = null;
 
+    const finish = (matched: boolean) => {
+      resolved = true;
+      if (debounceTimer !== null) clearTimeout(debounceTimer);
+      clearTimeout(timeout);
+      observer.disconnect();
+      document.removeEventListener('input', scheduleCheck, true);
+      resolve({ matched });
+    };
+
     const timeout = setTimeout(() => {
-      if (!resolved) {
-        resolved = true;
-        if (debounceTimer !== null) clearTimeout(debounceTimer);
-        observer.disconnect();
-        resolve({ matched: false });
-      }
+      if (!resolved) finish(false);
     }, timeoutMs);
-    const checkText = () => {
-      if (resolved) return;
-      const currentText = document.body?.textContent || '';
-      const nowFound = currentText.includes(searchText);
-      if ((waitForAppear && nowFound) || (!waitForAppear && !nowFound)) {
-        resolved = true;
-        clearTimeout(timeout);
-        observer.disconnect();
-        resolve({ matched: true });
-      }
-    };
 
-    const observer = new MutationObserver(() => {
+    const scheduleCheck = () => {
       if (resolved) return;
       if (debounceTimer !== null) clearTimeout(debounceTimer);
       debounceTimer = setTimeout(() => {
         debounceTimer = null;
-        checkText();
+        if (!resolved && conditionMet()) finish(true);
       }, 100);
-    });
+    };
 
+    const observer = new MutationObserver(scheduleCheck);
     observer.observe(document.body, {
       childList: true,
       subtree: true,
       characterData: true,
+      // Visibility and disabled state live in attributes (class, style, hidden, disabled)
+      attributes: watchesElement,
     });
+    // Typing changes an input's value without any mutation
+    if (watchesElement) document.addEventListener('input', scheduleCheck, true);
   });
 }
 
+// ============================================================
+// Screenshot region handler
+// ============================================================
+
+/**
+ * Largest capture edge in CSS pixels. Firefox cannot allocate capture
+ * canvases much beyond 32K device pixels, so very long pages are clipped.
+ */
+export const MAX_CAPTURE_DIMENSION = 16_384;
+
+/**
+ * Measure the area of the page to capture. The background script owns the
+ * actual capture (tabs.captureTab with a rect), but only the content script
+ * can resolve refs and read the document's scroll size.
+ */
+export function handleScreenshotRegion(params: ScreenshotParams): ScreenshotRegion {
+  let x: number;
+  let y: number;
+  let width: number;
+  let height: number;
+
+  if (params.ref) {
+    const el = resolveRef(params.ref);
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) {
+      throw new Error(`Element ref "${params.ref}" has no visible area to capture`);
+    }
+    // Convert from viewport to document coordinates
+    x = rect.left + window.scrollX;
+    y = rect.top + window.scrollY;
+    width = rect.width;
+    height = rect.height;
+  } else if (params.fullPage) {
+    const doc = document.documentElement;
+    x = 0;
+    y = 0;
+    width = Math.max(doc.scrollWidth, document.body?.scrollWidth ?? 0, window.innerWidth);
+    height = Math.max(doc.scrollHeight, document.body?.scrollHeight ?? 0, window.innerHeight);
+  } else {
+    // Current viewport
+    x = window.scrollX;
+    y = window.scrollY;
+    width = window.innerWidth;
+    height = window.innerHeight;
+  }
+
+  const clipped = width > MAX_CAPTURE_DIMENSION || height > MAX_CAPTURE_DIMENSION;
+  return {
+    x: Math.max(0, Math.floor(x)),
+    y: Math.max(0, Math.floor(y)),
+    width: Math.ceil(Math.min(width, MAX_CAPTURE_DIMENSION)),
+    height: Math.ceil(Math.min(height, MAX_CAPTURE_DIMENSION)),
+    clipped,
+  };
+}
+
+// ============================================================
+// Screenshot annotations (set-of-marks)
+// ============================================================
+
+/** ID of the overlay container, so it can be found and removed again */
+export const ANNOTATION_OVERLAY_ID = '__agentfox_annotations';
+
+/**
+ * Overlay a numbered box on every ref from the last snapshot that falls
+ * inside the capture region. Returns the label → ref legend; the overlay
+ * stays on the page until removeAnnotations() is called after capture.
+ */
+export function addAnnotations(region: ScreenshotRegion): ScreenshotAnnotation[] {
+  removeAnnotations();
+  if (refMap.size === 0) {
+    throw new Error('No element refs to annotate. Take a snapshot first.');
+  }
+
+  const overlay = document.createElement('div');
+  overlay.id = ANNOTATION_OVERLAY_ID;
+  overlay.setAttribute('aria-hidden', 'true');
+  overlay.style.cssText =
+    'position:absolute;top:0;left:0;width:0;height:0;overflow:visible;' +
+    'pointer-events:none;z-index:2147483647;';
+
+  const legend: ScreenshotAnnotation[] = [];
+  for (const [ref, el] of refMap) {
+    if (!document.contains(el)) continue;
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) continue;
+
+    // Document coordinates, so boxes stay put wherever the capture region is
+    const x = rect.left + window.scrollX;
+    const y = rect.top + window.scrollY;
+    const inRegion =
+      x < region.x + region.width && x + rect.width > region.x &&
+      y < region.y + region.height && y + rect.height > region.y;
+    if (!inRegion) continue;
+
+    const label = legend.length + 1;
+    const box = document.createElement('div');
+    box.style.cssText =
+      `position:absolute;left:${x}px;top:${y}px;width:${rect.width}px;height:${rect.height}px;` +
+      'box-sizing:border-box;border:2px solid #e5197d;';
+    const tag = document.createElement('span');
+    tag.textContent = String(label);
+    tag.style.cssText =
+      'position:absolute;left:-2px;top:-2px;padding:0 3px;background:#e5197d;color:#fff;' +
+      'font:bold 11px/14px sans-serif;';
+    box.appendChild(tag);
+    overlay.appendChild(box);
+
+    legend.push({ label, ref, role: getRole(el), name: getAccessibleName(el) });
+  }
+
+  document.documentElement.appendChild(overlay);
+  return legend;
+}
+
+/** Remove the annotation overlay, if present */
+export function removeAnnotations(): void {
+  document.getElementById(ANNOTATION_OVERLAY_ID)?.remove();
+}
+
+/**
+ * Content-side half of browser_take_screenshot: measure the region and,
+ * for annotated captures, put up (or take down) the overlay.
+ */
+export function handleScreenshot(params: ScreenshotParams): ScreenshotRegion | Record<string, never> {
+  if (params.clearAnnotations) {
+    removeAnnotations();
+    return {};
+  }
+  const region = handleScreenshotRegion(params);
+  if (params.annotate) {
+    region.legend = addAnnotations(region);
+  }
+  return region;
+}
+
 // ============================================================
 // Page content handler
 // ============================================================
@@ -1387,11 +2979,17 @@ export const IMPLEMENTED_ACTIONS: ReadonlySet<ActionType> = new Set([
   'type',
   'press_key',
   'hover',
+  'drag',
+  'scroll',
+  'mouse',
   'fill_form',
   'select_option',
   'evaluate',
   'wait_for',
   'page_content',
+  'screenshot',
+  'console_messages',
+  'network_requests',
 ]);
 
 export function isContentRequest(message: unknown): message is ContentRequest {
@@ -1442,22 +3040,19 @@ export async function processRequest(
 
     switch (action) {
       case 'snapshot':
-        result = handleSnapshot();
+        result = handleSnapshot(params as SnapshotParams);
         break;
 
       case 'click':
-        handleClick(params as ClickParams);
-        result = {};
+        result = (await handleClick(params as ClickParams)) ?? SYNTHETIC_INPUT;
         break;
 
       case 'type':
-        await handleType(params as TypeParams);
-        result = {};
+        result = (await handleType(params as TypeParams)) ?? SYNTHETIC_INPUT;
         break;
 
       case 'press_key':
-        handlePressKey(params as PressKeyParams);
-        result = {};
+        result = (await handlePressKey(params as PressKeyParams)) ?? SYNTHETIC_INPUT;
         break;
 
       case 'hover':
@@ -1465,6 +3060,18 @@ export async function processRequest(
         result = {};
         break;
 
+      case 'drag':
+        result = await handleDrag(params as DragParams);
+        break;
+
+      case 'scroll':
+        result = await handleScroll(params as ScrollParams);
+        break;
+
+      case 'mouse':
+        result = handleMouse(params as MouseParams);
+        break;
+
       case 'fill_form':
         result = handleFillForm(params as FillFormParams);
         break;
@@ -1485,6 +3092,18 @@ export async function processRequest(
         result = handlePageContent(params as PageContentParams);
         break;
 
+      case 'screenshot':
+        result = handleScreenshot(params as ScreenshotParams);
+        break;
+
+      case 'console_messages':
+        result = handleConsoleMessages(params as ConsoleMessagesParams);
+        break;
+
+      case 'network_requests':
+        result = handleSocketFrames(params as NetworkRequestsParams);
+        break;
+
       default:
         return makeResponse(
           id,
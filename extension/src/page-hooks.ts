@@ -0,0 +1,350 @@
+// Agent Fox Firefox Extension — Page Hooks
+// Sources of the scripts that capture page activity from the page's main
+// world. The content script installs them when capture starts on a loaded
+// page; after a navigation the background installs them again at
+// document_start, since the content script only arrives at document_idle
+// and pages do much of their work while loading. Until the content script
+// listens and claims them, the hooks buffer what they see. The fulfill hook
+// is the background's alone: it answers requests for interception rules.
+
+import type { InterceptRule } from '@agentfox/shared';
+
+// ============================================================
+// Shared
+// ============================================================
+
+/**
+ * Main-world JS defining `deliver(detail)`: dispatch `event` with the
+ * detail once `claimEvent` has fired, buffering up to `max` details before
+ * that and replaying them on the claim.
+ */
+function deliverySource(event: string, claimEvent: string, max: number): string {
+  return `
+      const pending = [];
+      let claimed = false;
+      const dispatch = (detail) => window.dispatchEvent(new CustomEvent('${event}', { detail }));
+      const deliver = (detail) => {
+        if (claimed) return dispatch(detail);
+        pending.push(detail);
+        if (pending.length > ${max}) pending.shift();
+      };
+      window.addEventListener('${claimEvent}', () => {
+        claimed = true;
+        pending.splice(0).forEach(dispatch);
+      });`;
+}
+
+/**
+ * Content-script code for tabs.executeScript that runs a hook source in the
+ * page's main world, the same way the content script injects it.
+ */
+export function pageInjectionCode(source: string): string {
+  return `(() => {
+    const script = document.createElement('script');
+    script.textContent = ${JSON.stringify(source)};
+    document.documentElement.appendChild(script);
+    script.remove();
+  })();`;
+}
+
+// ============================================================
+// Console messages and uncaught errors
+// ============================================================
+
+/** Event the console hook dispatches for each message */
+export const CONSOLE_EVENT = '__agentfox_console';
+
+/** Event the content script dispatches to receive messages, including those buffered so far */
+export const CONSOLE_CLAIM_EVENT = '__agentfox_console_claim';
+
+/** Messages kept per page; the oldest are dropped beyond this */
+export const MAX_CONSOLE_MESSAGES = 1000;
+
+/** Message text beyond this many characters is cut off */
+const MAX_CONSOLE_TEXT = 4000;
+
+/**
+ * Hook console.* and uncaught errors. The hook stays installed for the
+ * page's lifetime, so installing it again is a no-op.
+ */
+export function consoleHookSource(): string {
+  return `
+    (() => {
+      if (window.__agentfoxConsoleHooked) return;
+      window.__agentfoxConsoleHooked = true;
+      ${deliverySource(CONSOLE_EVENT, CONSOLE_CLAIM_EVENT, MAX_CONSOLE_MESSAGES)}
+      const emit = (entry) => {
+        if (entry.text.length > ${MAX_CONSOLE_TEXT}) {
+          entry.text = entry.text.slice(0, ${MAX_CONSOLE_TEXT}) + '…';
+        }
+        entry.timestamp = Date.now();
+        deliver(JSON.stringify(entry));
+      };
+      const describe = (value) => {
+        if (typeof value === 'string') return value;
+        if (value instanceof Error) return value.name + ': ' + value.message;
+        if (value instanceof Node) return '[DOM Node: ' + value.nodeName + ']';
+        try {
+          const json = JSON.stringify(value);
+          if (json !== undefined) return json;
+        } catch {}
+        return String(value);
+      };
+      // Frame "depth" of a stack, in Firefox (fn@url:1:2) or V8 (at fn (url:1:2)) format
+      const locate = (stack, depth) => {
+        const frames = String(stack || '').split('\\n').filter((l) => /:\\d+:\\d+\\)?$/.test(l));
+        const match = frames[depth] && frames[depth].match(/(?:@|\\(|at )(\\S+?):(\\d+):(\\d+)\\)?$/);
+        return match ? { url: match[1], line: Number(match[2]), column: Number(match[3]) } : {};
+      };
+      for (const level of ['log', 'info', 'warn', 'error', 'debug']) {
+        const original = console[level];
+        console[level] = function (...args) {
+          try {
+            // Frame 0 is this wrapper, frame 1 its caller
+            emit({ level, kind: 'console', text: args.map(describe).join(' '), ...locate(new Error().stack, 1) });
+          } catch {}
+          return original.apply(this, args);
+        };
+      }
+      window.addEventListener('error', (event) => {
+        emit({
+          level: 'error',
+          kind: 'exception',
+          text: 'Uncaught ' + (event.error ? describe(event.error) : event.message),
+          url: event.filename,
+          line: event.lineno,
+          column: event.colno,
+        });
+      });
+      window.addEventListener('unhandledrejection', (event) => {
+        const reason = event.reason;
+        emit({
+          level: 'error',
+          kind: 'rejection',
+          text: 'Unhandled rejection: ' + describe(reason),
+          ...locate(reason && reason.stack, 0),
+        });
+      });
+    })();
+  `;
+}
+
+// ============================================================
+// WebSocket and EventSource frames
+// ============================================================
+
+/** Event the socket hook dispatches for each frame */
+export const FRAME_EVENT = '__agentfox_frame';
+
+/** Event the content script dispatches to receive frames, including those buffered so far */
+export const FRAME_CLAIM_EVENT = '__agentfox_frame_claim';
+
+/** Frames kept per page; the oldest are dropped beyond this */
+export const MAX_SOCKET_FRAMES = 1000;
+
+/** Frame text beyond this many characters is cut off */
+const MAX_FRAME_TEXT = 4000;
+
+/**
+ * Replace WebSocket and EventSource with subclasses that report every
+ * frame. Only connections opened after the hook is installed are seen;
+ * installing it again is a no-op.
+ */
+export function socketHookSource(): string {
+  return `
+    (() => {
+      if (window.__agentfoxSocketsHooked) return;
+      window.__agentfoxSocketsHooked = true;
+      ${deliverySource(FRAME_EVENT, FRAME_CLAIM_EVENT, MAX_SOCKET_FRAMES)}
+      let nextId = 0;
+      const emit = (frame, payload) => {
+        if (typeof payload === 'string') {
+          frame.data = payload.length > ${MAX_FRAME_TEXT} ? payload.slice(0, ${MAX_FRAME_TEXT}) + '…' : payload;
+        } else {
+          const size = payload && (payload.byteLength ?? payload.size);
+          frame.data = '[binary ' + (size ?? '?') + ' bytes]';
+          frame.binary = true;
+        }
+        frame.timestamp = Date.now();
+        deliver(JSON.stringify(frame));
+      };
+
+      const NativeWebSocket = window.WebSocket;
+      if (NativeWebSocket) {
+        window.WebSocket = class WebSocket extends NativeWebSocket {
+          constructor(...args) {
+            super(...args);
+            this.__agentfoxConnection = 'ws-' + ++nextId;
+            super.addEventListener('message', (event) => {
+              emit({ connection: this.__agentfoxConnection, protocol: 'websocket', url: this.url, direction: 'received' }, event.data);
+            });
+          }
+          send(data) {
+            // Only record what actually went out: send throws while connecting
+            super.send(data);
+            emit({ connection: this.__agentfoxConnection, protocol: 'websocket', url: this.url, direction: 'sent' }, data);
+          }
+        };
+      }
+
+      const NativeEventSource = window.EventSource;
+      if (NativeEventSource) {
+        window.EventSource = class EventSource extends NativeEventSource {
+          constructor(...args) {
+            super(...args);
+            this.__agentfoxConnection = 'sse-' + ++nextId;
+            this.__agentfoxWatched = new Set();
+            this.__agentfoxWatch('message');
+          }
+          // Named events only reach listeners registered for their type
+          __agentfoxWatch(type) {
+            if (this.__agentfoxWatched.has(type)) return;
+            this.__agentfoxWatched.add(type);
+            super.addEventListener(type, (event) => {
+              const frame = { connection: this.__agentfoxConnection, protocol: 'sse', url: this.url, direction: 'received' };
+              if (type !== 'message') frame.event = type;
+              emit(frame, event.data);
+            });
+          }
+          addEventListener(type, ...rest) {
+            if (type !== 'open' && type !== 'error') this.__agentfoxWatch(type);
+            return super.addEventListener(type, ...rest);
+          }
+        };
+      }
+    })();
+  `;
+}
+
+// ============================================================
+// Fulfilled fetch and XHR requests
+// ============================================================
+
+/** Event the fulfill hook dispatches with a rule ID each time it answers a request */
+export const FULFILL_HIT_EVENT = '__agentfox_fulfill_hit';
+
+/** Event that hands an installed fulfill hook its tab's current rules */
+const FULFILL_RULES_EVENT = '__agentfox_fulfill_rules';
+
+/** Runtime message the content script sends the background for each FULFILL_HIT_EVENT */
+export const FULFILL_HIT_MESSAGE = 'intercept-hit';
+
+/** An interception rule in scope for a tab, as the fulfill hook matches it */
+export interface PageInterceptRule {
+  id: string;
+  /** Source of the case-insensitive RegExp for the rule's urlPattern */
+  url: string;
+  method?: string;
+  behavior: InterceptRule['behavior'];
+  status?: number;
+  contentType?: string;
+  body?: string;
+}
+
+/**
+ * Replace fetch and XMLHttpRequest.send so that requests whose first
+ * matching rule is a fulfill rule get its canned response, status
+ * included, without reaching the network. Other rules are left to the
+ * background's webRequest listener. Installing the hook again only
+ * replaces its rules.
+ */
+export function fulfillHookSource(rules: PageInterceptRule[]): string {
+  return `
+    (() => {
+      const rules = ${JSON.stringify(rules)};
+      if (window.__agentfoxFulfillHooked) {
+        window.dispatchEvent(new CustomEvent('${FULFILL_RULES_EVENT}', { detail: JSON.stringify(rules) }));
+        return;
+      }
+      if (rules.length === 0) return;
+      window.__agentfoxFulfillHooked = true;
+      let active = rules;
+      window.addEventListener('${FULFILL_RULES_EVENT}', (event) => {
+        active = JSON.parse(event.detail);
+      });
+      const find = (url, method) => {
+        const rule = active.find((r) =>
+          (!r.method || r.method === String(method).toUpperCase()) && new RegExp(r.url, 'i').test(url));
+        if (!rule || rule.behavior !== 'fulfill') return null;
+        window.dispatchEvent(new CustomEvent('${FULFILL_HIT_EVENT}', { detail: rule.id }));
+        return rule;
+      };
+      // Statuses whose responses cannot have a body
+      const bodyless = (status) => status === 204 || status === 205 || status === 304;
+
+      const nativeFetch = window.fetch;
+      if (nativeFetch) {
+        window.fetch = function fetch(input, init) {
+          const url = input instanceof Request ? input.url : new URL(String(input), document.baseURI).href;
+          const method = (init && init.method) || (input instanceof Request ? input.method : 'GET');
+          const rule = find(url, method);
+          if (!rule) return nativeFetch.call(this, input, init);
+          const response = new Response(bodyless(rule.status) ? null : rule.body, {
+            status: rule.status,
+            headers: rule.contentType ? { 'Content-Type': rule.contentType } : {},
+          });
+          Object.defineProperty(response, 'url', { value: url });
+          return Promise.resolve(response);
+        };
+      }
+
+      const NativeXHR = window.XMLHttpRequest;
+      if (NativeXHR) {
+        const { open, send } = NativeXHR.prototype;
+        NativeXHR.prototype.open = function (method, url, ...rest) {
+          const result = open.call(this, method, url, ...rest);
+          this.__agentfoxRequest = { method, url: new URL(String(url), document.baseURI).href, async: rest[0] !== false };
+          return result;
+        };
+        NativeXHR.prototype.send = function (body) {
+          const request = this.__agentfoxRequest;
+          const rule = request && find(request.url, request.method);
+          if (!rule) return send.call(this, body);
+          const text = bodyless(rule.status) ? '' : rule.body;
+          let response = text;
+          if (this.responseType === 'json') {
+            try { response = JSON.parse(text); } catch { response = null; }
+          } else if (this.responseType === 'arraybuffer') {
+            response = new TextEncoder().encode(text).buffer;
+          } else if (this.responseType === 'blob') {
+            response = new Blob([text], { type: rule.contentType || '' });
+          }
+          const define = (name, value) => Object.defineProperty(this, name, { value, configurable: true });
+          const complete = () => {
+            define('readyState', 4);
+            define('status', rule.status);
+            define('statusText', '');
+            define('responseURL', request.url);
+            define('response', response);
+            define('responseText', text);
+            define('getResponseHeader', (name) =>
+              rule.contentType && String(name).toLowerCase() === 'content-type' ? rule.contentType : null);
+            define('getAllResponseHeaders', () => rule.contentType ? 'content-type: ' + rule.contentType + '\\r\\n' : '');
+            this.dispatchEvent(new Event('readystatechange'));
+            this.dispatchEvent(new ProgressEvent('load'));
+            this.dispatchEvent(new ProgressEvent('loadend'));
+          };
+          if (request.async) setTimeout(complete, 0);
+          else complete();
+        };
+      }
+    })();
+  `;
+}
+
+/**
+ * Content-script code for tabs.executeScript that installs the fulfill
+ * hook with a tab's rules, relaying the hook's hits to the background.
+ * The relay is set up once per page, in the content script's world.
+ */
+export function fulfillInjectionCode(rules: PageInterceptRule[]): string {
+  return `(() => {
+    if (!window.__agentfoxFulfillRelay) {
+      window.__agentfoxFulfillRelay = true;
+      window.addEventListener('${FULFILL_HIT_EVENT}', (event) => {
+        browser.runtime.sendMessage({ type: '${FULFILL_HIT_MESSAGE}', ruleId: event.detail }).catch(() => {});
+      });
+    }
+  })();
+  ${pageInjectionCode(fulfillHookSource(rules))}`;
+}
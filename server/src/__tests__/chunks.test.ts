@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import type { CommandResponse, ResponseChunk } from '@agentfox/shared';
+import { ChunkAssembler, splitIntoChunks } from '@agentfox/shared';
+
+/** Split a response the way the extension does, with a small chunk size */
+function toChunks(response: CommandResponse, size: number): ResponseChunk[] {
+  const parts = splitIntoChunks(JSON.stringify(response), size);
+  return parts.map((data, index) => ({
+    type: 'response-chunk',
+    id: response.id,
+    index,
+    total: parts.length,
+    data,
+  }));
+}
+
+// ============================================================
+// splitIntoChunks
+// ============================================================
+
+describe('splitIntoChunks', () => {
+  it('splits into pieces no longer than the chunk size', () => {
+    const parts = splitIntoChunks('abcdefghij', 4);
+    expect(parts).toEqual(['abcd', 'efgh', 'ij']);
+  });
+
+  it('never splits a surrogate pair', () => {
+    // Each emoji is two UTF-16 code units; an odd size would cut one in half
+    const text = 'a😀😀😀';
+    const parts = splitIntoChunks(text, 2);
+    expect(parts.join('')).toBe(text);
+    for (const part of parts) {
+      expect(() => encodeURIComponent(part)).not.toThrow();
+    }
+  });
+
+  it('returns no chunks for an empty string', () => {
+    expect(splitIntoChunks('', 4)).toEqual([]);
+  });
+});
+
+// ============================================================
+// ChunkAssembler
+// ============================================================
+
+describe('ChunkAssembler', () => {
+  const response: CommandResponse = {
+    id: 'cmd-1',
+    success: true,
+    result: { text: 'snapshot ✓ 😀 '.repeat(20) },
+  };
+
+  it('round-trips a response split by splitIntoChunks', () => {
+    const assembler = new ChunkAssembler();
+    const chunks = toChunks(response, 16);
+    expect(chunks.length).toBeGreaterThan(10);
+
+    const results = chunks.map((chunk) => assembler.add(chunk));
+    expect(results.slice(0, -1).every((r) => r === null)).toBe(true);
+    expect(results[results.length - 1]).toEqual(response);
+    expect(assembler.size).toBe(0);
+  });
+
+  it('reassembles chunks that arrive out of order, interleaved with another response', () => {
+    const assembler = new ChunkAssembler();
+    const other: CommandResponse = { id: 'cmd-2', success: false, error: 'x'.repeat(40) };
+    const first = toChunks(response, 32).reverse();
+    const second = toChunks(other, 32);
+
+    const done: CommandResponse[] = [];
+    for (let i = 0; i < Math.max(first.length, second.length); i++) {
+      for (const chunk of [first[i], second[i]]) {
+        const assembled = chunk && assembler.add(chunk);
+        if (assembled) done.push(assembled);
+      }
+    }
+    expect(done).toContainEqual(response);
+    expect(done).toContainEqual(other);
+    expect(done).toHaveLength(2);
+  });
+
+  it('ignores a repeated chunk', () => {
+    const assembler = new ChunkAssembler();
+    const [a, b] = toChunks({ id: 'cmd-3', success: true }, 15);
+    expect(assembler.add(a)).toBeNull();
+    expect(assembler.add(a)).toBeNull();
+    expect(assembler.add(b)).toEqual({ id: 'cmd-3', success: true });
+  });
+
+  it('rejects chunks that do not fit and drops the partial response', () => {
+    const assembler = new ChunkAssembler();
+    const chunks = toChunks(response, 64);
+    assembler.add(chunks[0]);
+
+    expect(() => assembler.add({ ...chunks[1], total: chunks.length + 1 })).toThrow('Invalid chunk');
+    expect(assembler.size).toBe(0);
+    expect(() => assembler.add({ ...chunks[0], index: chunks.length })).toThrow('Invalid chunk');
+    expect(() => assembler.add({ ...chunks[0], total: 0 })).toThrow('Invalid chunk');
+    expect(assembler.size).toBe(0);
+  });
+
+  it('throws on corrupt data and drops the partial response', () => {
+    const assembler = new ChunkAssembler();
+    const chunks = toChunks(response, 64);
+    // Cut the closing quote and braces off the end
+    const last = chunks[chunks.length - 1];
+    chunks[chunks.length - 1] = { ...last, data: last.data.slice(0, -3) };
+    for (const chunk of chunks.slice(0, -1)) assembler.add(chunk);
+    expect(() => assembler.add(chunks[chunks.length - 1])).toThrow(SyntaxError);
+    expect(assembler.size).toBe(0);
+  });
+
+  it('forgets a discarded response', () => {
+    const assembler = new ChunkAssembler();
+    assembler.add(toChunks(response, 64)[0]);
+    assembler.discard('cmd-1');
+    expect(assembler.size).toBe(0);
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type { Command } from '@agentfox/shared';
+import { IpcServer, IpcClient } from '../ipc.js';
+
+// ============================================================
+// Helpers
+// ============================================================
+
+let dir: string;
+const servers: IpcServer[] = [];
+const clients: IpcClient[] = [];
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentfox-ipc-'));
+});
+
+afterEach(() => {
+  for (const client of clients.splice(0)) client.close();
+  for (const server of servers.splice(0)) server.close();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function startServer(name: string, sessionId?: string): Promise<IpcServer> {
+  const server = new IpcServer({
+    socketPath: path.join(dir, `${name}.sock`),
+    defaultTimeout: 2000,
+    ...(sessionId ? { sessionId } : {}),
+  });
+  servers.push(server);
+  await server.start();
+  return server;
+}
+
+/** A client that records the commands it receives with their session */
+function makeClient(
+  name: string,
+  extra: { onDisconnect?: (reason: string) => void; onGoodbye?: () => void } = {},
+): { client: IpcClient; received: Array<{ command: Command; sessionId: string | null }> } {
+  const received: Array<{ command: Command; sessionId: string | null }> = [];
+  const client = new IpcClient({
+    socketPath: path.join(dir, `${name}.sock`),
+    onCommand: (command, sessionId) => received.push({ command, sessionId }),
+    ...extra,
+  });
+  clients.push(client);
+  return { client, received };
+}
+
+function command(id: string): Command {
+  return { id, action: 'snapshot', params: {} } as Command;
+}
+
+/** Wait until a condition holds, polling the event loop */
+async function until(condition: () => boolean): Promise<void> {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise((r) => setTimeout(r, 5));
+  }
+  expect(condition()).toBe(true);
+}
+
+// ============================================================
+// Handshake and routing
+// ============================================================
+
+describe('IPC handshake', () => {
+  it('announces the broker session before the first command', async () => {
+    const server = await startServer('a', 'session-a');
+    const { client, received } = makeClient('a');
+    await client.connect();
+    await server.waitForConnection(1000);
+
+    const pending = server.sendCommand(command('c1'));
+    await until(() => received.length === 1);
+    expect(client.sessionId).toBe('session-a');
+    expect(received[0]).toEqual({ command: command('c1'), sessionId: 'session-a' });
+
+    client.sendResponse({ id: 'c1', success: true, result: { ok: 1 } });
+    await expect(pending).resolves.toEqual({ id: 'c1', success: true, result: { ok: 1 } });
+  });
+
+  it('reports no session on the single-session socket', async () => {
+    const server = await startServer('default');
+    const { client, received } = makeClient('default');
+    await client.connect();
+    await server.waitForConnection(1000);
+
+    void server.sendCommand(command('c1')).catch(() => {});
+    await until(() => received.length === 1);
+    expect(received[0].sessionId).toBeNull();
+    expect(client.sessionId).toBeNull();
+  });
+
+  it('refuses a second client on the same socket', async () => {
+    const server = await startServer('a', 'session-a');
+    const first = makeClient('a');
+    await first.client.connect();
+    await server.waitForConnection(1000);
+
+    let dropped = false;
+    const second = makeClient('a', { onDisconnect: () => { dropped = true; } });
+    await second.client.connect();
+    await until(() => dropped);
+    expect(first.client.connected).toBe(true);
+  });
+});
+
+describe('IPC command timeouts', () => {
+  it('times out after the per-command timeout instead of the default', async () => {
+    const server = await startServer('a');
+    const { client, received } = makeClient('a');
+    await client.connect();
+    await server.waitForConnection(1000);
+
+    const started = Date.now();
+    await expect(server.sendCommand(command('slow'), 50)).rejects.toThrow('timed out after 50ms');
+    expect(Date.now() - started).toBeLessThan(1000);
+    await until(() => received.length === 1);
+
+    // A late answer to a timed-out command resolves nothing
+    client.sendResponse({ id: 'slow', success: true });
+    const pending = server.sendCommand(command('next'));
+    await until(() => received.length === 2);
+    client.sendResponse({ id: 'next', success: true });
+    await expect(pending).resolves.toMatchObject({ id: 'next' });
+  });
+});
+
+describe('IPC with several sessions', () => {
+  it('keeps each session on its own connection and routes responses back to it', async () => {
+    const serverA = await startServer('a', 'session-a');
+    const serverB = await startServer('b', 'session-b');
+    const a = makeClient('a');
+    const b = makeClient('b');
+    await Promise.all([a.client.connect(), b.client.connect()]);
+    await Promise.all([serverA.waitForConnection(1000), serverB.waitForConnection(1000)]);
+
+    const pendingA = serverA.sendCommand(command('a1'));
+    const pendingB = serverB.sendCommand(command('b1'));
+    await until(() => a.received.length === 1 && b.received.length === 1);
+    expect(a.received[0].sessionId).toBe('session-a');
+    expect(b.received[0].sessionId).toBe('session-b');
+
+    // A response sent on the wrong connection resolves nothing there
+    a.client.sendResponse({ id: 'b1', success: true, result: 'misrouted' });
+    b.client.sendResponse({ id: 'b1', success: true, result: 'from b' });
+    a.client.sendResponse({ id: 'a1', success: true, result: 'from a' });
+
+    await expect(pendingA).resolves.toMatchObject({ result: 'from a' });
+    await expect(pendingB).resolves.toMatchObject({ result: 'from b' });
+  });
+
+  it('rejects in-flight commands of only the session whose connection drops', async () => {
+    const serverA = await startServer('a', 'session-a');
+    const serverB = await startServer('b', 'session-b');
+    const a = makeClient('a');
+    const b = makeClient('b');
+    await Promise.all([a.client.connect(), b.client.connect()]);
+    await Promise.all([serverA.waitForConnection(1000), serverB.waitForConnection(1000)]);
+
+    const pendingA = serverA.sendCommand(command('a1'));
+    const pendingB = serverB.sendCommand(command('b1'));
+    await until(() => a.received.length === 1 && b.received.length === 1);
+
+    a.client.close();
+    await expect(pendingA).rejects.toThrow('Client disconnected');
+    b.client.sendResponse({ id: 'b1', success: true });
+    await expect(pendingB).resolves.toMatchObject({ id: 'b1', success: true });
+  });
+});
+
+describe('IPC shutdown', () => {
+  it('says goodbye before closing, so the session can be ended', async () => {
+    const server = await startServer('a', 'session-a');
+    const events: string[] = [];
+    const { client } = makeClient('a', {
+      onGoodbye: () => events.push(`goodbye ${client.sessionId}`),
+      onDisconnect: () => events.push('disconnect'),
+    });
+    await client.connect();
+    await server.waitForConnection(1000);
+
+    server.close();
+    await until(() => events.includes('disconnect'));
+    expect(events).toEqual(['goodbye session-a', 'disconnect']);
+    expect(fs.existsSync(path.join(dir, 'a.sock'))).toBe(false);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { performNativeInput, unavailableReason, xdotoolArgs } from '../native-input.js';
+
+// ============================================================
+// xdotoolArgs
+// ============================================================
+
+describe('xdotoolArgs', () => {
+  it('moves to the rounded position and clicks, holding modifiers around the click', () => {
+    const args = xdotoolArgs({
+      kind: 'click',
+      x: 100.6,
+      y: 40.2,
+      button: 'right',
+      count: 2,
+      modifiers: ['Control', 'Shift'],
+    });
+    expect(args).toEqual([
+      'mousemove', '--sync', '101', '40',
+      'keydown', 'ctrl', 'keydown', 'shift',
+      'click', '--repeat', '2', '--delay', '80', '3',
+      'keyup', 'shift', 'keyup', 'ctrl',
+    ]);
+  });
+
+  it('types text verbatim, even when it looks like an option', () => {
+    expect(xdotoolArgs({ kind: 'type', text: '--help', delayMs: 12 })).toEqual([
+      'type', '--delay', '12', '--', '--help',
+    ]);
+  });
+
+  it('presses a chord of X keysyms', () => {
+    expect(xdotoolArgs({ kind: 'key', key: 'a', modifiers: ['Control', 'Alt', 'Meta'] })).toEqual([
+      'key', '--clearmodifiers', 'ctrl+alt+super+a',
+    ]);
+  });
+
+  it('holds a chord down for holdMs', () => {
+    expect(xdotoolArgs({ kind: 'key', key: 'ArrowDown', modifiers: ['Shift'], holdMs: 1500 })).toEqual([
+      'keydown', '--clearmodifiers', 'shift+Down',
+      'sleep', '1.5',
+      'keyup', 'shift+Down',
+    ]);
+  });
+
+  it.each([
+    ['Enter', 'Return'],
+    ['Backspace', 'BackSpace'],
+    ['ArrowLeft', 'Left'],
+    ['PageUp', 'Prior'],
+    ['PageDown', 'Next'],
+    [' ', 'space'],
+    ['+', 'plus'],
+    ['/', 'slash'],
+    ['\\', 'backslash'],
+    ['Tab', 'Tab'],
+    ['Escape', 'Escape'],
+    ['F5', 'F5'],
+    ['z', 'z'],
+  ])('maps the DOM key %j to the keysym %s', (key, keysym) => {
+    expect(xdotoolArgs({ kind: 'key', key, modifiers: [] })).toEqual(['key', '--clearmodifiers', keysym]);
+  });
+});
+
+// ============================================================
+// unavailableReason
+// ============================================================
+
+describe('unavailableReason', () => {
+  it('allows an X11 session with a display', () => {
+    expect(unavailableReason('linux', { DISPLAY: ':0', XDG_SESSION_TYPE: 'x11' })).toBeNull();
+  });
+
+  it('rejects platforms without X11', () => {
+    expect(unavailableReason('darwin', { DISPLAY: ':0' })).toMatch(/darwin/);
+    expect(unavailableReason('win32', {})).toMatch(/win32/);
+  });
+
+  it('rejects a missing display', () => {
+    expect(unavailableReason('linux', {})).toMatch(/DISPLAY is not set/);
+  });
+
+  it('rejects Wayland sessions, even with XWayland providing DISPLAY', () => {
+    expect(unavailableReason('linux', { DISPLAY: ':0', WAYLAND_DISPLAY: 'wayland-0' })).toMatch(/Wayland/);
+    expect(unavailableReason('linux', { DISPLAY: ':0', XDG_SESSION_TYPE: 'wayland' })).toMatch(/Wayland/);
+  });
+});
+
+// ============================================================
+// performNativeInput
+// ============================================================
+
+describe('performNativeInput', () => {
+  let emptyDir: string | undefined;
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    if (emptyDir) fs.rmSync(emptyDir, { recursive: true, force: true });
+    emptyDir = undefined;
+  });
+
+  it('answers unavailable without trying when the system has no X11 display', async () => {
+    vi.stubEnv('DISPLAY', undefined);
+    const result = await performNativeInput({
+      type: 'native-input',
+      id: 'input-1',
+      steps: [{ kind: 'type', text: 'hi', delayMs: 12 }],
+    });
+    expect(result).toMatchObject({ type: 'native-input-result', id: 'input-1', success: false, unavailable: true });
+  });
+
+  it.runIf(process.platform === 'linux')('answers unavailable when xdotool is not installed', async () => {
+    emptyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'agentfox-path-'));
+    vi.stubEnv('PATH', emptyDir);
+    vi.stubEnv('DISPLAY', ':99');
+    vi.stubEnv('WAYLAND_DISPLAY', undefined);
+    vi.stubEnv('XDG_SESSION_TYPE', 'x11');
+
+    const result = await performNativeInput({
+      type: 'native-input',
+      id: 'input-2',
+      steps: [{ kind: 'key', key: 'Enter', modifiers: [] }],
+    });
+    expect(result).toEqual({
+      type: 'native-input-result',
+      id: 'input-2',
+      success: false,
+      unavailable: true,
+      error: 'trusted input needs xdotool, which is not installed',
+    });
+  });
+});
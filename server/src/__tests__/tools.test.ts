@@ -1,4 +1,7 @@
 import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { tools, getToolByName } from '../tools/index.js';
 import type { ToolDefinition } from '../tools/index.js';
 
@@ -17,6 +20,9 @@ describe('tool registry', () => {
       'browser_type',
       'browser_press_key',
       'browser_hover',
+      'browser_drag',
+      'browser_scroll',
+      'browser_mouse',
       'browser_fill_form',
       'browser_select_option',
       'browser_tabs',
@@ -28,6 +34,9 @@ describe('tool registry', () => {
       'browser_get_bookmarks',
       'browser_get_history',
       'browser_network_requests',
+      'browser_network_intercept',
+      'browser_network_headers',
+      'browser_console_messages',
       'browser_save_pdf',
       'browser_page_content',
     ];
@@ -83,6 +92,8 @@ describe('input schemas', () => {
       ['browser_type', ['ref', 'text']],
       ['browser_press_key', ['key']],
       ['browser_hover', ['ref']],
+      ['browser_drag', ['startRef']],
+      ['browser_mouse', ['action', 'x', 'y']],
       ['browser_fill_form', ['fields']],
       ['browser_select_option', ['ref', 'values']],
       ['browser_evaluate', ['function']],
@@ -102,7 +113,7 @@ describe('input schemas', () => {
   });
 
   it('tools without required params have no required field or empty required', () => {
-    const optionalTools = ['browser_navigate_back', 'browser_snapshot', 'browser_close'];
+    const optionalTools = ['browser_navigate_back', 'browser_snapshot', 'browser_close', 'browser_scroll'];
     for (const name of optionalTools) {
       const tool = getToolByName(name)!;
       if (tool.inputSchema.required) {
@@ -121,7 +132,37 @@ describe('input schemas', () => {
   it('tabs tool has correct action enum', () => {
     const tool = getToolByName('browser_tabs')!;
     const props = tool.inputSchema.properties as Record<string, any>;
-    expect(props.action.enum).toEqual(['list', 'new', 'close', 'select']);
+    expect(props.action.enum).toEqual([
+      'list', 'new', 'close', 'select', 'move', 'list_windows', 'focus_window',
+    ]);
+  });
+
+  it('tab-scoped tools accept an optional tabId', () => {
+    const tabScoped = [
+      'browser_navigate', 'browser_navigate_back', 'browser_snapshot',
+      'browser_take_screenshot', 'browser_click', 'browser_type',
+      'browser_press_key', 'browser_hover', 'browser_drag', 'browser_scroll',
+      'browser_mouse', 'browser_fill_form', 'browser_select_option', 'browser_tabs', 'browser_close',
+      'browser_resize', 'browser_evaluate', 'browser_wait_for',
+      'browser_get_cookies', 'browser_page_content',
+      'browser_network_intercept', 'browser_network_headers',
+      'browser_console_messages',
+    ];
+    for (const name of tabScoped) {
+      const tool = getToolByName(name)!;
+      const props = tool.inputSchema.properties as Record<string, any>;
+      expect(props.tabId?.type).toBe('number');
+      expect(tool.inputSchema.required ?? []).not.toContain('tabId');
+    }
+  });
+
+  it('snapshot tool exposes scoping parameters', () => {
+    const tool = getToolByName('browser_snapshot')!;
+    const props = tool.inputSchema.properties as Record<string, any>;
+    expect(props.ref.type).toBe('string');
+    expect(props.selector.type).toBe('string');
+    expect(props.landmark.enum).toContain('main');
+    expect(props.maxDepth.type).toBe('number');
   });
 
   it('screenshot tool has correct type enum', () => {
@@ -130,6 +171,16 @@ describe('input schemas', () => {
     expect(props.type.enum).toEqual(['png', 'jpeg']);
   });
 
+  it('screenshot tool exposes fullPage and element capture', () => {
+    const tool = getToolByName('browser_take_screenshot')!;
+    const props = tool.inputSchema.properties as Record<string, any>;
+    expect(props.fullPage.type).toBe('boolean');
+    expect(props.ref.type).toBe('string');
+    expect(props.element.type).toBe('string');
+    expect(props.annotate.type).toBe('boolean');
+    expect(tool.inputSchema.required ?? []).toEqual([]);
+  });
+
   it('fill_form fields items have correct type enum', () => {
     const tool = getToolByName('browser_fill_form')!;
     const props = tool.inputSchema.properties as Record<string, any>;
@@ -228,6 +279,80 @@ describe('snapshot formatResult', () => {
     expect(text).toContain('disabled=true');
   });
 
+  it('renders a diff against the previous snapshot', () => {
+    const result = tool.formatResult({
+      url: 'http://test.com',
+      title: 'Doc',
+      diff: [
+        { kind: 'added', path: ['main', 'form "Login"'], node: { role: 'button', name: 'Submit', ref: 'e5' } },
+        { kind: 'removed', path: [], node: { role: 'text', name: 'Loading' } },
+        {
+          kind: 'changed',
+          path: ['main'],
+          node: { role: 'textbox', name: 'Email', ref: 'e1', value: 'a' },
+          previous: { role: 'textbox', name: 'Email', ref: 'e1', value: '' },
+        },
+      ],
+    });
+    const text = (result[0] as any).text;
+    expect(text).toContain('1 added, 1 removed, 1 changed');
+    expect(text).toContain('+ in main > form "Login":\n  - button "Submit" [ref=e5]');
+    expect(text).toContain('- in document:\n  - text "Loading"');
+    expect(text).toContain('    was: textbox "Email" [ref=e1, value=""]');
+  });
+
+  it('shows the scope of a scoped snapshot', () => {
+    const result = tool.formatResult({
+      tree: { role: 'document', name: '', children: [{ role: 'main', name: '' }] },
+      url: 'http://test.com',
+      title: 'Doc',
+      scope: 'landmark main',
+    });
+    expect((result[0] as any).text).toContain('URL: http://test.com\nScope: landmark main');
+  });
+
+  it('explains how to fetch the next page of a truncated snapshot', () => {
+    const result = tool.formatResult({
+      tree: { role: 'document', name: '', children: [{ role: 'button', name: 'A' }] },
+      url: 'http://test.com',
+      title: 'Doc',
+      truncated: true,
+      cursor: '0.4.2',
+      nodeCount: 50000,
+      totalNodes: 81234,
+    });
+    const text = (result[0] as any).text;
+    expect(text).toContain('truncated after 50000 of ~81234 elements');
+    expect(text).toContain('cursor="0.4.2"');
+  });
+
+  it('does not mention pagination for complete snapshots', () => {
+    const result = tool.formatResult({
+      tree: { role: 'document', name: '' },
+      url: 'http://test.com',
+      title: 'Doc',
+      truncated: false,
+      nodeCount: 1,
+      totalNodes: 1,
+    });
+    expect((result[0] as any).text).not.toContain('cursor');
+  });
+
+  it('lists retired refs', () => {
+    const result = tool.formatResult({
+      tree: { role: 'document', name: '' },
+      url: 'http://test.com',
+      title: 'Doc',
+      retiredRefs: ['e3', 'e7'],
+    });
+    expect((result[0] as any).text).toContain('Retired refs (element removed or no longer shown): e3, e7');
+  });
+
+  it('reports an empty diff', () => {
+    const result = tool.formatResult({ url: 'http://test.com', title: 'Doc', diff: [] });
+    expect((result[0] as any).text).toContain('No changes');
+  });
+
   it('renders tree with value and description', () => {
     const result = tool.formatResult({
       tree: {
@@ -288,6 +413,33 @@ describe('screenshot formatResult', () => {
     expect(result[0].type).toBe('text');
     expect((result[0] as any).text).toContain('empty');
   });
+
+  it('appends a legend for annotated screenshots', () => {
+    const result = tool.formatResult({
+      data: 'base64data',
+      mimeType: 'image/png',
+      legend: [
+        { label: 1, ref: 'e3', role: 'button', name: 'Save' },
+        { label: 2, ref: 'e7', role: 'textbox', name: '' },
+      ],
+    });
+    expect(result).toHaveLength(2);
+    const text = (result[1] as any).text;
+    expect(text).toContain('[1] e3 button "Save"');
+    expect(text).toContain('[2] e7 textbox');
+  });
+
+  it('reports an empty legend', () => {
+    const result = tool.formatResult({ data: 'x', mimeType: 'image/png', legend: [] });
+    expect((result[1] as any).text).toContain('no snapshot refs');
+  });
+
+  it('adds a note when a full-page capture was clipped', () => {
+    const result = tool.formatResult({ data: 'base64data', mimeType: 'image/png', clipped: true });
+    expect(result).toHaveLength(2);
+    expect(result[0].type).toBe('image');
+    expect((result[1] as any).text).toContain('clipped');
+  });
 });
 
 // ============================================================
@@ -320,6 +472,48 @@ describe('interaction tool formatResults', () => {
     const result = tool.formatResult({});
     expect((result[0] as any).text).toBeTruthy();
   });
+
+  it('drag names the drop target and how the drop went', () => {
+    const tool = getToolByName('browser_drag')!;
+    expect((tool.formatResult({ droppedOn: '<li#done>', html5Drag: true, dropAccepted: true })[0] as any).text)
+      .toBe('Dragged element onto <li#done>');
+    expect((tool.formatResult({ droppedOn: '<li#done>', html5Drag: true, dropAccepted: false })[0] as any).text)
+      .toContain('did not accept the drop');
+    expect((tool.formatResult({ droppedOn: '<div.lane>', html5Drag: false })[0] as any).text)
+      .toContain('pointer events only');
+  });
+
+  it('scroll reports the position and what loaded', () => {
+    const tool = getToolByName('browser_scroll')!;
+    const base = { scrollLeft: 0, scrollTop: 400, scrollWidth: 800, scrollHeight: 1000, atBottom: false };
+    expect((tool.formatResult({ ...base, contentGrew: false })[0] as any).text).toBe(
+      'Scrolled to (0, 400) of 800x1000\nNo new content appeared',
+    );
+    const feed = (tool.formatResult({ ...base, atBottom: true, contentGrew: true, loads: 3 })[0] as any).text;
+    expect(feed).toContain('at the bottom');
+    expect(feed).toContain('New content loaded 3 time(s)');
+  });
+
+  it('mouse names the element at the point and the display scale', () => {
+    const tool = getToolByName('browser_mouse')!;
+    expect((tool.formatResult({ target: '<canvas#map>', devicePixelRatio: 1 })[0] as any).text)
+      .toBe('Dispatched mouse events to <canvas#map>');
+    const text = (tool.formatResult({ target: '<canvas#map>', devicePixelRatio: 2, scrolled: false })[0] as any).text;
+    expect(text).toContain('the page handled the wheel itself');
+    expect(text).toContain('Screenshot pixels are 2x CSS pixels');
+  });
+
+  it('notes which input backend delivered a click or keystroke', () => {
+    const click = getToolByName('browser_click')!;
+    expect((click.formatResult({ input: 'synthetic' })[0] as any).text).toBe('Clicked element');
+    expect((click.formatResult({ input: 'trusted' })[0] as any).text).toBe(
+      'Clicked element with trusted input',
+    );
+    const type = getToolByName('browser_type')!;
+    expect(
+      (type.formatResult({ input: 'synthetic', fallbackReason: 'xdotool is not installed' })[0] as any).text,
+    ).toBe('Typed text into element with synthetic events; trusted input was unavailable: xdotool is not installed');
+  });
 });
 
 // ============================================================
@@ -391,6 +585,37 @@ describe('tabs formatResult', () => {
     expect(text).toContain('  [1] Tab 2');
   });
 
+  it('includes stable tab IDs when present', () => {
+    const result = tool.formatResult({
+      tabs: [{ id: 42, index: 0, title: 'Tab 1', url: 'http://a.com', active: true }],
+    });
+    expect((result[0] as any).text).toContain('* [0] Tab 1 (http://a.com) [tabId=42]');
+  });
+
+  it('groups tabs by window when several windows are listed', () => {
+    const result = tool.formatResult({
+      tabs: [
+        { id: 1, windowId: 3, index: 0, title: 'Research', url: 'http://a.com', active: true },
+        { id: 2, windowId: 7, index: 0, title: 'Work', url: 'http://b.com', active: true },
+      ],
+    });
+    const text = (result[0] as any).text;
+    expect(text).toContain('Window 3:\n* [0] Research');
+    expect(text).toContain('Window 7:\n* [0] Work');
+  });
+
+  it('formats window list', () => {
+    const result = tool.formatResult({
+      windows: [
+        { id: 3, focused: true, incognito: false, type: 'normal', state: 'maximized', tabCount: 4, activeTabTitle: 'Docs' },
+        { id: 7, focused: false, incognito: true, type: 'normal', state: 'normal', tabCount: 1, activeTabTitle: '' },
+      ],
+    });
+    const text = (result[0] as any).text;
+    expect(text).toContain('* Window 3 (normal, maximized) — 4 tab(s), active: Docs');
+    expect(text).toContain('  Window 7 (normal, normal, private)');
+  });
+
   it('handles empty tab list', () => {
     const result = tool.formatResult({ tabs: [] });
     expect((result[0] as any).text).toContain('No tabs');
@@ -480,10 +705,36 @@ describe('wait_for formatResult', () => {
     expect((result[0] as any).text).toContain('timed out');
   });
 
+  it('names the condition that timed out', () => {
+    const result = tool.formatResult({ matched: false, timedOut: 'networkIdle' });
+    expect((result[0] as any).text).toBe('Wait condition timed out waiting for network idle');
+  });
+
+  it('exposes page conditions in the schema', () => {
+    const props = tool.inputSchema.properties as Record<string, any>;
+    expect(props.url.type).toBe('string');
+    expect(props.loadState.enum).toEqual(['domcontentloaded', 'load']);
+    expect(props.networkIdle.type).toBe('number');
+  });
+
+  it('exposes element conditions in the schema', () => {
+    const props = tool.inputSchema.properties as Record<string, any>;
+    expect(props.selector.type).toBe('string');
+    expect(props.ref.type).toBe('string');
+    expect(props.state.enum).toEqual(['attached', 'detached', 'visible', 'hidden', 'enabled']);
+    expect(props.hasText.type).toBe('string');
+  });
+
   it('handles null result', () => {
     const result = tool.formatResult(null);
     expect((result[0] as any).text).toContain('Wait completed');
   });
+
+  it('gives the command longer than the wait, so the extension reports the timeout', () => {
+    expect(tool.commandTimeoutMs!({})).toBe(35_000);
+    expect(tool.commandTimeoutMs!({ text: 'Done', time: 90 })).toBe(95_000);
+    expect(tool.commandTimeoutMs!({ time: 0 })).toBe(35_000);
+  });
 });
 
 describe('page_content formatResult', () => {
@@ -701,6 +952,68 @@ describe('network formatResult', () => {
     expect(text).toContain('Recording: active');
   });
 
+  it('shows request IDs and errors in the list', () => {
+    const result = tool.formatResult({
+      requests: [
+        { requestId: '17', method: 'GET', statusCode: 0, type: 'script', url: 'https://cdn.example.com/a.js', error: 'NS_ERROR_NET_RESET' },
+      ],
+      recording: true,
+    });
+    expect((result[0] as any).text).toContain('17 | GET | 0 | script | https://cdn.example.com/a.js (NS_ERROR_NET_RESET)');
+  });
+
+  it('formats the detail view with headers and bodies', () => {
+    const result = tool.formatResult({
+      request: {
+        requestId: '42',
+        method: 'POST',
+        url: 'https://api.example.com/login',
+        statusCode: 401,
+        type: 'xmlhttprequest',
+        timeStamp: 0,
+        tabId: 3,
+        requestHeaders: [{ name: 'Content-Type', value: 'application/json' }],
+        requestBody: '{"user":"a"}',
+        responseHeaders: [{ name: 'WWW-Authenticate', value: 'Bearer' }],
+        responseBody: '{"error":"denied"}',
+        responseBodyEncoding: 'text',
+        responseBodyTruncated: true,
+      },
+      recording: true,
+    });
+    const text = (result[0] as any).text;
+    expect(text).toContain('POST https://api.example.com/login');
+    expect(text).toContain('Request ID: 42 | Type: xmlhttprequest | Tab: 3');
+    expect(text).toContain('Status: 401');
+    expect(text).toContain('Request headers:\n  Content-Type: application/json');
+    expect(text).toContain('Request body:\n{"user":"a"}');
+    expect(text).toContain('Response headers:\n  WWW-Authenticate: Bearer');
+    expect(text).toContain('Response body (truncated):\n{"error":"denied"}');
+  });
+
+  it('writes exported HAR documents to the requested path', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'agentfox-test-'));
+    try {
+      const harPath = path.join(dir, 'nested', 'trace.har');
+      const har = {
+        log: { version: '1.2', creator: { name: 'Agent Fox', version: '0.1.0' }, entries: [{}, {}] },
+      };
+      const processed = await tool.processResult!({ har, recording: true }, { action: 'export', path: harPath });
+      expect(processed).toEqual({ harPath, count: 2, recording: true });
+      expect(JSON.parse(await fs.readFile(harPath, 'utf-8'))).toEqual(har);
+
+      const text = (tool.formatResult(processed)[0] as any).text;
+      expect(text).toBe(`HAR exported to ${harPath} (2 request(s))`);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('passes non-export results through processResult unchanged', async () => {
+    const result = { requests: [], recording: true };
+    expect(await tool.processResult!(result, { action: 'get' })).toBe(result);
+  });
+
   it('formats get with empty requests', () => {
     const result = tool.formatResult({
       requests: [],
@@ -711,6 +1024,69 @@ describe('network formatResult', () => {
     expect(text).toContain('Recording: stopped');
   });
 
+  it('shows the page position and how to get the next page', () => {
+    const result = tool.formatResult({
+      requests: [
+        { requestId: '31', method: 'GET', statusCode: 404, type: 'xmlhttprequest', url: 'https://api.example.com/a' },
+        { requestId: '32', method: 'GET', statusCode: 500, type: 'xmlhttprequest', url: 'https://api.example.com/b' },
+      ],
+      total: 7,
+      offset: 2,
+      count: 40,
+      recording: true,
+    });
+    const text = (result[0] as any).text;
+    expect(text).toContain('Requests 3-4 of 7:');
+    expect(text).toContain('31 | GET | 404 | xmlhttprequest | https://api.example.com/a');
+    expect(text).toContain('[3 more. Call get with offset=4 to see them.]');
+  });
+
+  it('keeps the plain heading when every match is shown', () => {
+    const result = tool.formatResult({
+      requests: [{ requestId: '5', method: 'GET', statusCode: 200, type: 'script', url: 'https://x.test/a.js' }],
+      total: 1,
+      offset: 0,
+      recording: true,
+    });
+    const text = (result[0] as any).text;
+    expect(text).toContain('Requests (1):');
+    expect(text).not.toContain('more. Call get');
+  });
+
+  it('groups WebSocket and SSE frames by connection', () => {
+    const result = tool.formatResult({
+      frames: [
+        { connection: 'ws-1', protocol: 'websocket', url: 'wss://example.com/socket', direction: 'sent', data: '{"op":"subscribe"}', timestamp: Date.UTC(2024, 0, 1, 9, 30, 0) },
+        { connection: 'sse-2', protocol: 'sse', url: 'https://example.com/events', direction: 'received', data: '{"n":1}', event: 'update', timestamp: Date.UTC(2024, 0, 1, 9, 30, 1) },
+        { connection: 'ws-1', protocol: 'websocket', url: 'wss://example.com/socket', direction: 'received', data: '[binary 8 bytes]', binary: true, timestamp: Date.UTC(2024, 0, 1, 9, 30, 2) },
+      ],
+      framesDropped: 4,
+      recording: true,
+    });
+    const text = (result[0] as any).text;
+    expect(text).toContain('Frames (3):');
+    expect(text).toContain(
+      'ws-1 (websocket wss://example.com/socket):\n  09:30:00.000 sent {"op":"subscribe"}\n  09:30:02.000 received [binary 8 bytes]',
+    );
+    expect(text).toContain('sse-2 (sse https://example.com/events):\n  09:30:01.000 received [update] {"n":1}');
+    expect(text).toContain('[4 older frame(s) dropped because the buffer was full]');
+  });
+
+  it('formats an empty frame list', () => {
+    const result = tool.formatResult({ frames: [], framesDropped: 0, recording: false });
+    const text = (result[0] as any).text;
+    expect(text).toContain('No WebSocket or EventSource frames captured');
+    expect(text).toContain('Recording: stopped');
+  });
+
+  it('distinguishes no matches from an empty buffer', () => {
+    const noMatch = tool.formatResult({ requests: [], total: 0, offset: 0, count: 12, recording: true });
+    expect((noMatch[0] as any).text).toContain('No recorded requests match the filters (12 buffered)');
+
+    const pastEnd = tool.formatResult({ requests: [], total: 5, offset: 10, count: 12, recording: true });
+    expect((pastEnd[0] as any).text).toContain('No requests at offset 10 (5 matched)');
+  });
+
   it('formats start response', () => {
     const result = tool.formatResult({
       recording: true,
@@ -744,6 +1120,173 @@ describe('network formatResult', () => {
   });
 });
 
+// ============================================================
+// formatResult — Network interception
+// ============================================================
+
+describe('network_intercept formatResult', () => {
+  const tool = getToolByName('browser_network_intercept')!;
+
+  it('lists rules with their effect, scope and hit count', () => {
+    const result = tool.formatResult({
+      rules: [
+        { id: 'rule-1', urlPattern: '*://api.example.com/*', behavior: 'block', tabId: 7, hits: 3 },
+        { id: 'rule-2', urlPattern: 'analytics', method: 'POST', behavior: 'delay', delayMs: 2000, hits: 0 },
+        { id: 'rule-3', urlPattern: '/old', behavior: 'redirect', redirectUrl: 'https://example.com/new', hits: 1 },
+      ],
+    });
+    expect(result).toHaveLength(1);
+    const text = (result[0] as any).text;
+    expect(text).toContain('Interception rules (3):');
+    expect(text).toContain('rule-1: *://api.example.com/* -> block [tab 7, 3 hit(s)]');
+    expect(text).toContain('rule-2: POST analytics -> delay 2000ms [all tabs, 0 hit(s)]');
+    expect(text).toContain('rule-3: /old -> redirect to https://example.com/new');
+  });
+
+  it('reports the added rule', () => {
+    const added = {
+      id: 'rule-4',
+      urlPattern: '/api/users',
+      behavior: 'fulfill',
+      body: '{"users":[]}',
+      contentType: 'application/json',
+      status: 503,
+      tabId: 2,
+      hits: 0,
+    };
+    const result = tool.formatResult({ rules: [added], added });
+    const text = (result[0] as any).text;
+    expect(text).toContain(
+      'Added rule rule-4: /api/users -> fulfill with 503, 12-char body (application/json) [tab 2, 0 hit(s)]',
+    );
+    expect(text).toContain('Interception rules (1):');
+  });
+
+  it('reports removals and an empty rule list', () => {
+    const result = tool.formatResult({ rules: [], removed: 2 });
+    const text = (result[0] as any).text;
+    expect(text).toContain('Removed 2 rule(s)');
+    expect(text).toContain('No interception rules installed.');
+  });
+
+  it('handles undefined result', () => {
+    const result = tool.formatResult(undefined);
+    const text = (result[0] as any).text;
+    expect(text).toContain('No interception rules installed.');
+  });
+});
+
+// ============================================================
+// formatResult — Network header rules
+// ============================================================
+
+describe('network_headers formatResult', () => {
+  const tool = getToolByName('browser_network_headers')!;
+
+  it('lists rules with their edits, scope and hit count', () => {
+    const result = tool.formatResult({
+      rules: [
+        {
+          id: 'headers-1',
+          urlPattern: 'https://staging.example.com/*',
+          set: [{ name: 'Authorization', value: 'Bearer abc' }],
+          remove: ['Cookie'],
+          tabId: 4,
+          hits: 2,
+        },
+        { id: 'headers-2', urlPattern: 'staging', set: [{ name: 'X-Flag', value: 'on' }], remove: [], hits: 0 },
+      ],
+    });
+    expect(result).toHaveLength(1);
+    const text = (result[0] as any).text;
+    expect(text).toContain('Header rules (2):');
+    expect(text).toContain(
+      'headers-1: https://staging.example.com/* -> set Authorization: Bearer abc, remove Cookie [tab 4, 2 hit(s)]',
+    );
+    expect(text).toContain('headers-2: staging -> set X-Flag: on [all tabs, 0 hit(s)]');
+  });
+
+  it('reports the added rule', () => {
+    const added = { id: 'headers-3', urlPattern: 'api', set: [], remove: ['Referer'], hits: 0 };
+    const result = tool.formatResult({ rules: [added], added });
+    const text = (result[0] as any).text;
+    expect(text).toContain('Added rule headers-3: api -> remove Referer [all tabs, 0 hit(s)]');
+  });
+
+  it('reports removals and an empty rule list', () => {
+    const result = tool.formatResult({ rules: [], removed: 1 });
+    const text = (result[0] as any).text;
+    expect(text).toContain('Removed 1 rule(s)');
+    expect(text).toContain('No header rules installed.');
+  });
+});
+
+// ============================================================
+// formatResult — Console messages
+// ============================================================
+
+describe('console formatResult', () => {
+  const tool = getToolByName('browser_console_messages')!;
+
+  it('lists messages with level, time, text and location', () => {
+    const result = tool.formatResult({
+      messages: [
+        { level: 'log', kind: 'console', text: 'ready', timestamp: Date.UTC(2024, 0, 1, 12, 0, 1, 5) },
+        {
+          level: 'error',
+          kind: 'exception',
+          text: 'Uncaught TypeError: x is undefined',
+          url: 'https://example.com/app.js',
+          line: 10,
+          column: 5,
+          timestamp: Date.UTC(2024, 0, 1, 12, 0, 2),
+        },
+      ],
+      dropped: 0,
+      recording: true,
+    });
+    expect(result).toHaveLength(1);
+    const text = (result[0] as any).text;
+    expect(text).toContain('Console messages (2):');
+    expect(text).toContain('[log] 12:00:01.005 ready');
+    expect(text).toContain(
+      '[error] 12:00:02.000 Uncaught TypeError: x is undefined (https://example.com/app.js:10:5)',
+    );
+    expect(text).toContain('Recording: active');
+    expect(text).not.toContain('dropped');
+  });
+
+  it('notes dropped messages', () => {
+    const result = tool.formatResult({
+      messages: [{ level: 'warn', kind: 'console', text: 'late', timestamp: 0 }],
+      dropped: 12,
+      recording: true,
+    });
+    const text = (result[0] as any).text;
+    expect(text).toContain('[12 older message(s) dropped because the buffer was full]');
+  });
+
+  it('formats an empty buffer', () => {
+    const result = tool.formatResult({ messages: [], dropped: 0, recording: false });
+    const text = (result[0] as any).text;
+    expect(text).toContain('No console messages captured');
+    expect(text).toContain('Recording: stopped');
+  });
+
+  it('formats start response', () => {
+    const result = tool.formatResult({ recording: true, count: 0 });
+    const text = (result[0] as any).text;
+    expect(text).toContain('Recording: active');
+    expect(text).toContain('Buffered messages: 0');
+  });
+
+  it('handles undefined result', () => {
+    const result = tool.formatResult(undefined);
+    const text = (result[0] as any).text;
+    expect(text).toContain('no details');
+  });
+});
+
 // ============================================================
 // formatResult — PDF
 // ============================================================
@@ -787,11 +1330,11 @@ describe('tool action mapping', () => {
   it('every tool maps to a valid ActionType', () => {
     const validActions = new Set([
       'navigate', 'navigate_back', 'snapshot', 'screenshot',
-      'click', 'type', 'press_key', 'hover',
+      'click', 'type', 'press_key', 'hover', 'drag', 'scroll', 'mouse',
       'fill_form', 'select_option', 'evaluate', 'wait_for',
       'tabs', 'close', 'resize',
       'get_cookies', 'get_bookmarks', 'get_history',
-      'network_requests', 'save_pdf', 'page_content',
+      'network_requests', 'network_intercept', 'network_headers', 'console_messages', 'save_pdf', 'page_content',
     ]);
     for (const tool of tools) {
       expect(validActions.has(tool.action)).toBe(true);
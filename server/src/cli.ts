@@ -1,10 +1,10 @@
-import { existsSync, mkdirSync, writeFileSync, realpathSync, unlinkSync } from 'node:fs';
+import { existsSync, mkdirSync, writeFileSync, realpathSync, unlinkSync, readdirSync } from 'node:fs';
 import * as net from 'node:net';
 import { homedir, platform } from 'node:os';
 import { dirname, resolve, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
 
-import { getDefaultSocketPath } from './ipc.js';
+import { getDefaultSocketPath, getSessionSocketDir } from './ipc.js';
 
 const EXTENSION_ID = 'agentfox@willow.sh';
 
@@ -193,6 +193,26 @@ async function status(): Promise<void> {
     console.log(`MCP server:       \u2717 Not running (no socket at ${socketPath})`);
   }
 
+  // Check broker sessions (MCP servers started with --broker)
+  const sessionDir = getSessionSocketDir();
+  let sessionSockets: string[] = [];
+  try {
+    sessionSockets = readdirSync(sessionDir).filter((entry) => entry.endsWith('.sock'));
+  } catch {
+    // No session directory — broker mode has never been used
+  }
+  const liveSessions: string[] = [];
+  for (const entry of sessionSockets) {
+    if (await checkSocketConnectivity(join(sessionDir, entry))) {
+      liveSessions.push(entry.slice(0, -'.sock'.length));
+    }
+  }
+  if (liveSessions.length > 0) {
+    console.log(`Broker sessions:  \u2713 ${liveSessions.length} running (${liveSessions.join(', ')})`);
+  } else {
+    console.log('Broker sessions:  - None running');
+  }
+
   // Extension status — can't check from CLI
   console.log('Extension:        ? (cannot check from CLI)');
 }
@@ -1,6 +1,7 @@
 import { EventEmitter } from 'node:events';
 import * as fs from 'node:fs';
 import * as net from 'node:net';
+import * as path from 'node:path';
 import type { Command, CommandResponse, IpcMessage } from '@agentfox/shared';
 import type { PendingCommand, ServerConfig } from './types.js';
 
@@ -17,6 +18,24 @@ export function getDefaultSocketPath(): string {
   return `/tmp/agentfox-${process.getuid?.() ?? process.pid}.sock`;
 }
 
+/**
+ * Returns the directory holding per-session sockets in broker mode.
+ * Each MCP server started with `--broker` listens on its own socket here,
+ * and the NM host connects to every socket it finds.
+ */
+export function getSessionSocketDir(): string {
+  const xdgRuntime = process.env['XDG_RUNTIME_DIR'];
+  if (xdgRuntime) {
+    return `${xdgRuntime}/agentfox-sessions`;
+  }
+  return `/tmp/agentfox-${process.getuid?.() ?? process.pid}-sessions`;
+}
+
+/** Returns the socket path for a broker session. */
+export function getSessionSocketPath(sessionId: string): string {
+  return path.join(getSessionSocketDir(), `${sessionId}.sock`);
+}
+
 // ============================================================
 // Length-prefix framing helpers
 // ============================================================
@@ -90,6 +109,7 @@ export interface IpcServerEvents {
 export class IpcServer extends EventEmitter<IpcServerEvents> {
   private readonly socketPath: string;
   private readonly defaultTimeout: number;
+  private readonly sessionId: string | null;
   private server: net.Server | null = null;
   private client: net.Socket | null = null;
   private decoder = new FrameDecoder();
@@ -109,6 +129,7 @@ export class IpcServer extends EventEmitter<IpcServerEvents> {
     super();
     this.socketPath = config.socketPath;
     this.defaultTimeout = config.defaultTimeout;
+    this.sessionId = config.sessionId ?? null;
   }
 
   /** Whether a client (the NM host) is currently connected. */
@@ -148,6 +169,9 @@ export class IpcServer extends EventEmitter<IpcServerEvents> {
 
   /** Start listening on the Unix domain socket. */
   async start(): Promise<void> {
+    // Session sockets live in a per-user directory that may not exist yet
+    fs.mkdirSync(path.dirname(this.socketPath), { recursive: true, mode: 0o700 });
+
     // Clean up stale socket file
     try {
       fs.unlinkSync(this.socketPath);
@@ -182,8 +206,11 @@ export class IpcServer extends EventEmitter<IpcServerEvents> {
     });
   }
 
-  /** Send a command to the connected NM host and wait for the response. */
-  sendCommand(command: Command): Promise<CommandResponse> {
+  /**
+   * Send a command to the connected NM host and wait for the response, for
+   * timeoutMs or the server's default timeout.
+   */
+  sendCommand(command: Command, timeoutMs = this.defaultTimeout): Promise<CommandResponse> {
     if (!this.client) {
       return Promise.reject(new Error('No client connected'));
     }
@@ -194,8 +221,8 @@ export class IpcServer extends EventEmitter<IpcServerEvents> {
     return new Promise<CommandResponse>((resolve, reject) => {
       const timeout = setTimeout(() => {
         this.pending.delete(command.id);
-        reject(new Error(`Command ${command.id} timed out after ${this.defaultTimeout}ms`));
-      }, this.defaultTimeout);
+        reject(new Error(`Command ${command.id} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
 
       const pending: PendingCommand = {
         id: command.id,
@@ -228,10 +255,15 @@ export class IpcServer extends EventEmitter<IpcServerEvents> {
     }
     this.pending.clear();
 
-    // Disconnect client
+    // Say goodbye so the NM host can end this session, then disconnect
     if (this.client) {
-      this.client.destroy();
+      const client = this.client;
       this.client = null;
+      // The NM host may already be gone; a failed goodbye is not an error
+      client.removeAllListeners('error');
+      client.on('error', () => client.destroy());
+      const goodbye: IpcMessage = { type: 'goodbye', payload: null };
+      client.end(encodeFrame(goodbye));
     }
 
     // Close the server
@@ -305,6 +337,11 @@ export class IpcServer extends EventEmitter<IpcServerEvents> {
     this._hasEverConnected = true;
     this.decoder.reset();
     this.startHeartbeat();
+
+    // Announce which session this socket belongs to before any command
+    const hello: IpcMessage = { type: 'hello', payload: { sessionId: this.sessionId } };
+    socket.write(encodeFrame(hello));
+
     this.emit('client-connected');
 
     socket.on('data', (data: Buffer) => {
@@ -383,22 +420,28 @@ export class IpcServer extends EventEmitter<IpcServerEvents> {
 
 export interface IpcClientOptions {
   socketPath: string;
-  onCommand: (command: Command) => void;
+  /** Called for each command. `sessionId` is set once the server's hello arrives. */
+  onCommand: (command: Command, sessionId: string | null) => void;
   /** Called when the socket closes or errors after a successful connection. */
   onDisconnect?: (reason: string) => void;
+  /** Called when the server announces it is shutting down, before the socket closes. */
+  onGoodbye?: () => void;
 }
 
 export class IpcClient {
   private readonly socketPath: string;
-  private readonly onCommand: (command: Command) => void;
+  private readonly onCommand: (command: Command, sessionId: string | null) => void;
   private readonly onDisconnect?: (reason: string) => void;
+  private readonly onGoodbye?: () => void;
   private socket: net.Socket | null = null;
   private decoder = new FrameDecoder();
+  private _sessionId: string | null = null;
 
   constructor(options: IpcClientOptions) {
     this.socketPath = options.socketPath;
     this.onCommand = options.onCommand;
     this.onDisconnect = options.onDisconnect;
+    this.onGoodbye = options.onGoodbye;
   }
 
   /** Whether the client is connected to the IPC server. */
@@ -406,6 +449,11 @@ export class IpcClient {
     return this.socket !== null && !this.socket.destroyed;
   }
 
+  /** Broker session announced by the server, or null in single-session mode. */
+  get sessionId(): string | null {
+    return this._sessionId;
+  }
+
   /** Connect to the IPC server's Unix domain socket. */
   connect(): Promise<void> {
     return new Promise<void>((resolve, reject) => {
@@ -475,8 +523,18 @@ export class IpcClient {
 
   private handleMessage(msg: IpcMessage): void {
     switch (msg.type) {
+      case 'hello': {
+        this._sessionId = msg.payload.sessionId;
+        break;
+      }
+
       case 'command': {
-        this.onCommand(msg.payload);
+        this.onCommand(msg.payload, this._sessionId);
+        break;
+      }
+
+      case 'goodbye': {
+        this.onGoodbye?.();
         break;
       }
 
@@ -5,7 +5,8 @@ import {
   ListToolsRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import type { Command } from '@agentfox/shared';
-import { IpcServer, getDefaultSocketPath } from './ipc.js';
+import { COMMAND_TIMEOUT_MS } from '@agentfox/shared';
+import { IpcServer, getDefaultSocketPath, getSessionSocketPath } from './ipc.js';
 import { tools, getToolByName } from './tools/index.js';
 import type { ServerConfig } from './types.js';
 
@@ -16,7 +17,6 @@ import type { ServerConfig } from './types.js';
 const SERVER_NAME = 'agentfox';
 // TODO: read from package.json at build time
 const SERVER_VERSION = '0.1.0';
-const DEFAULT_TIMEOUT_MS = 30_000;
 const CONNECTION_WAIT_MS = 5_000;
 
 // ============================================================
@@ -37,9 +37,15 @@ function logError(...args: unknown[]): void {
 
 export async function main(): Promise<void> {
   // ---- IPC Server (connects to the NM host / extension) ----
+  // In broker mode each server gets its own session socket and tab set,
+  // so several agents can share one Firefox instance.
+  const brokerMode = process.argv.includes('--broker');
+  const sessionId = brokerMode ? crypto.randomUUID().slice(0, 8) : undefined;
+
   const config: ServerConfig = {
-    socketPath: getDefaultSocketPath(),
-    defaultTimeout: DEFAULT_TIMEOUT_MS,
+    socketPath: sessionId ? getSessionSocketPath(sessionId) : getDefaultSocketPath(),
+    defaultTimeout: COMMAND_TIMEOUT_MS,
+    sessionId,
   };
 
   const ipcServer = new IpcServer(config);
@@ -56,6 +62,9 @@ export async function main(): Promise<void> {
 
   await ipcServer.start();
   log(`IPC server listening on ${config.socketPath}`);
+  if (sessionId) {
+    log(`Broker mode: session ${sessionId}`);
+  }
 
   // ---- MCP Server (talks to Claude Code over stdio) ----
   const mcpServer = new Server(
@@ -116,14 +125,18 @@ export async function main(): Promise<void> {
     // The MCP SDK validates args against inputSchema before reaching this point,
     // so the action-params pairing is guaranteed correct. The discriminated union
     // cannot be constructed generically without a type assertion.
+    // `tabId` is shared by all tab-scoped tools, so it travels on the Command
+    // itself rather than inside each action's params.
+    const { tabId, ...params } = args ?? {};
     const command = {
       id: crypto.randomUUID(),
       action: tool.action,
-      params: args ?? {},
+      params,
+      ...(typeof tabId === 'number' ? { tabId } : {}),
     } as Command;
 
     try {
-      const response = await ipcServer.sendCommand(command);
+      const response = await ipcServer.sendCommand(command, tool.commandTimeoutMs?.(args ?? {}));
 
       if (!response.success) {
         return {
@@ -134,8 +147,12 @@ export async function main(): Promise<void> {
         };
       }
 
+      const result = tool.processResult
+        ? await tool.processResult(response.result, args ?? {})
+        : response.result;
+
       return {
-        content: tool.formatResult(response.result),
+        content: tool.formatResult(result),
       };
     } catch (err) {
       const message = err instanceof Error ? err.message : String(err);
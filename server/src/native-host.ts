@@ -16,19 +16,54 @@
  *   MCP Server --[IPC: Command]--> NM Host --[stdout]--> Firefox
  *   MCP Server <--[IPC: Response]-- NM Host <--[stdin]-- Firefox
  *
+ * Chunked responses:
+ *   Responses too large for one native message (big snapshots, full-page
+ *   screenshots, ...) arrive as a run of ResponseChunk messages. The host
+ *   reassembles them and forwards a single response over IPC, which has
+ *   no such limit.
+ *
+ * Broker mode:
+ *   The host attaches to the default socket and to every session socket
+ *   under getSessionSocketDir(), so several MCP servers (one per agent
+ *   session) can share this Firefox instance. Commands are stamped with
+ *   the session ID from their connection's hello, and responses are routed
+ *   back to the connection the command arrived on. When a session's MCP
+ *   server says goodbye, or turns out to have exited (its socket refuses
+ *   connections), the host sends the extension a SessionEndedMessage so it
+ *   can close that session's tabs and rules.
+ *
+ * Trusted input:
+ *   The extension may also send NativeInputRequest messages, which are not
+ *   relayed: the host performs the OS-level input itself (see
+ *   native-input.ts) and answers with a NativeInputResponse on stdout.
+ *
  * IMPORTANT: stdout is reserved exclusively for native messaging.
  * All logging MUST go to stderr.
  */
 
-import type { Command, CommandResponse } from '@agentfox/shared';
-import { IpcClient, getDefaultSocketPath } from './ipc.js';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type {
+  Command,
+  CommandResponse,
+  NativeInputRequest,
+  ResponseChunk,
+  SessionEndedMessage,
+} from '@agentfox/shared';
+import { ChunkAssembler } from '@agentfox/shared';
+import {
+  IpcClient,
+  getDefaultSocketPath,
+  getSessionSocketDir,
+} from './ipc.js';
+import { performNativeInput } from './native-input.js';
 
 // ---------------------------------------------------------------------------
 // Constants
 // ---------------------------------------------------------------------------
 
-/** Interval (ms) between IPC connection health checks. */
-const HEALTH_CHECK_INTERVAL_MS = 1000;
+/** Interval (ms) between scans for MCP server sockets to attach to. */
+const SOCKET_DISCOVERY_INTERVAL_MS = 1000;
 
 // ---------------------------------------------------------------------------
 // Logging -- everything goes to stderr, stdout is sacred
@@ -124,10 +159,63 @@ function writeNativeMessage(data: unknown): Promise<void> {
   });
 }
 
+// ---------------------------------------------------------------------------
+// Chunk reassembly
+// ---------------------------------------------------------------------------
+
+function isResponseChunk(message: unknown): message is ResponseChunk {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as ResponseChunk).type === 'response-chunk' &&
+    typeof (message as ResponseChunk).id === 'string' &&
+    typeof (message as ResponseChunk).index === 'number' &&
+    typeof (message as ResponseChunk).total === 'number' &&
+    typeof (message as ResponseChunk).data === 'string'
+  );
+}
+
+function isNativeInputRequest(message: unknown): message is NativeInputRequest {
+  return (
+    typeof message === 'object' &&
+    message !== null &&
+    (message as NativeInputRequest).type === 'native-input' &&
+    typeof (message as NativeInputRequest).id === 'string' &&
+    Array.isArray((message as NativeInputRequest).steps)
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Main relay logic
 // ---------------------------------------------------------------------------
 
+/**
+ * List the IPC sockets an MCP server may be listening on: the default
+ * single-session socket plus any broker session sockets.
+ */
+function discoverSocketPaths(): string[] {
+  const paths: string[] = [];
+  const defaultPath = getDefaultSocketPath();
+  if (fs.existsSync(defaultPath)) {
+    paths.push(defaultPath);
+  }
+
+  const sessionDir = getSessionSocketDir();
+  let entries: string[] = [];
+  try {
+    entries = fs.readdirSync(sessionDir);
+  } catch {
+    // No broker sessions have been started yet
+  }
+  for (const entry of entries) {
+    if (entry.endsWith('.sock')) {
+      paths.push(path.join(sessionDir, entry));
+    }
+  }
+
+  return paths;
+}
+
 async function main(): Promise<void> {
   log('Starting native messaging host relay');
 
@@ -136,83 +224,199 @@ async function main(): Promise<void> {
 
   // Track whether we're shutting down to avoid duplicate cleanup
   let shuttingDown = false;
-  let ipc: IpcClient | null = null;
+
+  /** Live IPC connections, keyed by socket path */
+  const connections = new Map<string, IpcClient>();
+
+  /** The connection each in-flight command arrived on, keyed by command ID */
+  const responseRoutes = new Map<string, IpcClient>();
+
+  /** Partially received chunked responses */
+  const chunks = new ChunkAssembler();
+
+  /** Broker session last seen on each session socket, until the session ends */
+  const socketSessions = new Map<string, string>();
 
   function shutdown(reason: string): void {
     if (shuttingDown) return;
     shuttingDown = true;
     log(`Shutting down: ${reason}`);
 
-    try {
-      ipc?.close();
-    } catch {
-      // Ignore errors during cleanup
+    for (const client of connections.values()) {
+      try {
+        client.close();
+      } catch {
+        // Ignore errors during cleanup
+      }
     }
+    connections.clear();
 
     // Give a brief moment for any final writes to stderr, then exit
     setTimeout(() => process.exit(0), 50);
   }
 
-  // --- Create IPC client with command handler ---
-  // When the MCP server sends a command over IPC, relay it to Firefox via stdout.
+  // When an MCP server sends a command over IPC, relay it to Firefox via stdout.
   // Writes are serialized through a promise chain to prevent interleaving
   // under backpressure (H4 fix).
   let writeChain = Promise.resolve();
-  const socketPath = getDefaultSocketPath();
-  log(`Connecting to MCP server at ${socketPath}`);
-
-  ipc = new IpcClient({
-    socketPath,
-    onCommand: (command: Command): void => {
-      log(`Relaying command to Firefox: ${command.action} (id: ${command.id})`);
-      writeChain = writeChain
-        .then(() => writeNativeMessage(command))
-        .catch((error) => {
-          logError('Failed to write command to stdout', error);
-          shutdown('stdout write failed');
-        });
-    },
-  });
 
-  // --- Connect to MCP server ---
-  try {
-    await ipc.connect();
-    log('Connected to MCP server');
-  } catch (error) {
-    logError('Failed to connect to MCP server', error);
-    process.exit(1);
+  // Native input requests run one after another, each starting once the
+  // previous one has answered.
+  let inputChain = Promise.resolve();
+
+  /** Tell the extension a socket's broker session is over, once. */
+  function endSession(socketPath: string): void {
+    const sessionId = socketSessions.get(socketPath);
+    if (!sessionId) return;
+    socketSessions.delete(socketPath);
+    log(`Session ${sessionId} ended`);
+    const ended: SessionEndedMessage = { type: 'session-ended', sessionId };
+    writeChain = writeChain
+      .then(() => writeNativeMessage(ended))
+      .catch((error) => {
+        logError('Failed to write session end to stdout', error);
+        shutdown('stdout write failed');
+      });
+  }
+
+  /** Connect to one MCP server socket, unless already connected. */
+  async function attach(socketPath: string): Promise<void> {
+    if (connections.has(socketPath)) return;
+
+    const client: IpcClient = new IpcClient({
+      socketPath,
+      onCommand: (command: Command, sessionId: string | null): void => {
+        log(
+          `Relaying command to Firefox: ${command.action} (id: ${command.id}` +
+            `${sessionId ? `, session: ${sessionId}` : ''})`,
+        );
+        responseRoutes.set(command.id, client);
+        if (sessionId) socketSessions.set(socketPath, sessionId);
+        // The session comes from the connection, never from the server payload
+        const relayed: Command = { ...command, sessionId: sessionId ?? undefined };
+        writeChain = writeChain
+          .then(() => writeNativeMessage(relayed))
+          .catch((error) => {
+            logError('Failed to write command to stdout', error);
+            shutdown('stdout write failed');
+          });
+      },
+      onDisconnect: (reason: string): void => {
+        if (connections.get(socketPath) !== client) return;
+        connections.delete(socketPath);
+        for (const [id, route] of responseRoutes) {
+          if (route === client) {
+            responseRoutes.delete(id);
+            chunks.discard(id);
+          }
+        }
+        log(`MCP server at ${socketPath} disconnected: ${reason}`);
+      },
+      onGoodbye: (): void => {
+        if (client.sessionId) socketSessions.set(socketPath, client.sessionId);
+        endSession(socketPath);
+      },
+    });
+
+    // Reserve the slot before awaiting so the next scan doesn't double-connect
+    connections.set(socketPath, client);
+    try {
+      await client.connect();
+      log(`Connected to MCP server at ${socketPath}`);
+    } catch (error) {
+      connections.delete(socketPath);
+      // A refused session socket belongs to an MCP server that exited
+      // without cleaning up -- remove it so we stop retrying
+      const code = (error as NodeJS.ErrnoException).code;
+      if (code === 'ECONNREFUSED' && path.dirname(socketPath) === getSessionSocketDir()) {
+        try {
+          fs.unlinkSync(socketPath);
+        } catch {
+          // Another process may have removed it already
+        }
+        endSession(socketPath);
+      }
+    }
   }
 
-  // --- Monitor IPC connection health ---
-  // The IpcClient doesn't expose an onDisconnect callback, so we poll
-  // the connected property to detect when the MCP server goes away.
-  const healthCheckInterval = setInterval(() => {
-    if (!ipc?.connected) {
-      clearInterval(healthCheckInterval);
-      shutdown('IPC connection lost (MCP server stopped)');
+  // --- Attach to every MCP server that is (or becomes) available ---
+  // The host stays up while Firefox keeps the port open, so MCP servers can
+  // come and go without the extension having to reconnect.
+  function scan(): void {
+    for (const socketPath of discoverSocketPaths()) {
+      void attach(socketPath);
     }
-  }, HEALTH_CHECK_INTERVAL_MS);
+  }
+  scan();
+  const discoveryInterval = setInterval(scan, SOCKET_DISCOVERY_INTERVAL_MS);
 
-  // --- stdin -> IPC: Relay responses from Firefox to MCP server ---
+  // --- stdin -> IPC: Relay responses from Firefox to the issuing MCP server ---
   try {
     for await (const message of readNativeMessages(process.stdin)) {
-      const response = message as CommandResponse;
+      if (isNativeInputRequest(message)) {
+        log(`Performing native input ${message.id} (${message.steps.length} step(s))`);
+        // Don't block the relay while the input is being typed, but perform
+        // requests one at a time so their keystrokes never interleave
+        inputChain = inputChain.then(() => performNativeInput(message)).then((result) => {
+          if (!result.success) {
+            logError(`Native input ${message.id} failed`, result.error);
+          }
+          writeChain = writeChain
+            .then(() => writeNativeMessage(result))
+            .catch((error) => {
+              logError('Failed to write native input result to stdout', error);
+              shutdown('stdout write failed');
+            });
+        });
+        continue;
+      }
+
+      let response: CommandResponse;
+      if (isResponseChunk(message)) {
+        // The rest of a response that already failed, or whose server left
+        if (!responseRoutes.has(message.id)) continue;
+        let assembled: CommandResponse | null;
+        try {
+          assembled = chunks.add(message);
+        } catch (error) {
+          logError(`Failed to reassemble response ${message.id}`, error);
+          // Answer now rather than leave the MCP server waiting for its timeout
+          assembled = {
+            id: message.id,
+            success: false,
+            error: `Failed to reassemble chunked response: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          };
+        }
+        if (!assembled) continue;
+        response = assembled;
+      } else {
+        response = message as CommandResponse;
+      }
 
       if (!response.id) {
         logError('Received message from Firefox without id, skipping');
         continue;
       }
 
+      const route = responseRoutes.get(response.id);
+      responseRoutes.delete(response.id);
+      if (!route) {
+        logError(`No MCP server waiting for response ${response.id}, dropping`);
+        continue;
+      }
+
       log(
         `Relaying response from Firefox: id=${response.id} success=${response.success}`,
       );
 
       try {
-        ipc.sendResponse(response);
+        route.sendResponse(response);
       } catch (error) {
         logError('Failed to send response over IPC', error);
-        // Don't shutdown on individual send failures -- if the IPC
-        // connection is truly gone, the health check will catch it
+        // Don't shutdown on individual send failures -- a dead connection
+        // is dropped by its onDisconnect callback
       }
     }
   } catch (error) {
@@ -220,7 +424,7 @@ async function main(): Promise<void> {
   }
 
   // stdin closed -- Firefox disconnected the native messaging port
-  clearInterval(healthCheckInterval);
+  clearInterval(discoveryInterval);
   shutdown('stdin closed (Firefox disconnected)');
 }
 
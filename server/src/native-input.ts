@@ -0,0 +1,180 @@
+/**
+ * OS-level input for trusted-input mode.
+ *
+ * Events a content script dispatches are marked isTrusted=false, and many
+ * pages ignore them (file pickers, popups, clipboard access, some widget
+ * libraries). When the extension asks for trusted input it readies the
+ * element, raises the Firefox window, and sends the NM host a
+ * NativeInputRequest; the host replays the steps as real mouse and keyboard
+ * input through xdotool.
+ *
+ * Only X11 desktops are supported; xdotool cannot drive a Wayland session.
+ * Elsewhere, or without xdotool installed, the host answers `unavailable`
+ * and the extension falls back to synthetic events.
+ */
+
+import { execFile } from 'node:child_process';
+import type {
+  NativeInputRequest,
+  NativeInputResponse,
+  NativeInputStep,
+} from '@agentfox/shared';
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Time allowed for one xdotool invocation, on top of typing delays and key holds */
+const XDOTOOL_TIMEOUT_MS = 5_000;
+
+/** Pause between the clicks of a double click */
+const DOUBLE_CLICK_DELAY_MS = 80;
+
+/** Platforms where xdotool can run against an X server */
+const X11_PLATFORMS: ReadonlySet<string> = new Set(['linux', 'freebsd', 'openbsd', 'netbsd']);
+
+/** DOM key names whose X keysym differs from the name */
+const KEYSYMS: Record<string, string> = {
+  Enter: 'Return',
+  Backspace: 'BackSpace',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  PageUp: 'Prior',
+  PageDown: 'Next',
+  ' ': 'space',
+  Control: 'ctrl',
+  Shift: 'shift',
+  Alt: 'alt',
+  Meta: 'super',
+  '+': 'plus',
+  '-': 'minus',
+  '=': 'equal',
+  ',': 'comma',
+  '.': 'period',
+  '/': 'slash',
+  ';': 'semicolon',
+  "'": 'apostrophe',
+  '[': 'bracketleft',
+  ']': 'bracketright',
+  '\\': 'backslash',
+  '`': 'grave',
+};
+
+const MOUSE_BUTTONS: Record<'left' | 'middle' | 'right', string> = {
+  left: '1',
+  middle: '2',
+  right: '3',
+};
+
+// ---------------------------------------------------------------------------
+// Step translation
+// ---------------------------------------------------------------------------
+
+/** X keysym (or xdotool alias) for a DOM key name */
+function toKeysym(key: string): string {
+  return KEYSYMS[key] ?? key;
+}
+
+/** xdotool arguments that perform one input step */
+export function xdotoolArgs(step: NativeInputStep): string[] {
+  switch (step.kind) {
+    case 'click': {
+      const modifiers = step.modifiers.map(toKeysym);
+      return [
+        'mousemove', '--sync', String(Math.round(step.x)), String(Math.round(step.y)),
+        ...modifiers.flatMap((m) => ['keydown', m]),
+        'click', '--repeat', String(step.count), '--delay', String(DOUBLE_CLICK_DELAY_MS),
+        MOUSE_BUTTONS[step.button],
+        ...[...modifiers].reverse().flatMap((m) => ['keyup', m]),
+      ];
+    }
+    case 'type':
+      return ['type', '--delay', String(step.delayMs), '--', step.text];
+    case 'key': {
+      const chord = [...step.modifiers, step.key].map(toKeysym).join('+');
+      if (!step.holdMs) return ['key', '--clearmodifiers', chord];
+      return [
+        'keydown', '--clearmodifiers', chord,
+        'sleep', String(step.holdMs / 1000),
+        'keyup', chord,
+      ];
+    }
+  }
+}
+
+function runXdotool(args: string[], timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    execFile('xdotool', args, { timeout: timeoutMs }, (error, _stdout, stderr) => {
+      if (!error) {
+        resolve();
+        return;
+      }
+      // xdotool explains itself on stderr; a spawn failure (ENOENT) has none
+      const detail = stderr.trim();
+      reject(detail ? new Error(detail) : error);
+    });
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Request handling
+// ---------------------------------------------------------------------------
+
+/** Why this system cannot deliver trusted input, or null if it may */
+export function unavailableReason(
+  platform: string = process.platform,
+  env: NodeJS.ProcessEnv = process.env,
+): string | null {
+  if (!X11_PLATFORMS.has(platform)) {
+    return `trusted input needs xdotool on an X11 desktop, which ${platform} does not have`;
+  }
+  // Wayland sessions set DISPLAY too (for XWayland), but Firefox usually
+  // runs as a native Wayland client that xdotool cannot reach
+  if (env['WAYLAND_DISPLAY'] || env['XDG_SESSION_TYPE'] === 'wayland') {
+    return 'trusted input needs an X11 session, but this is a Wayland session';
+  }
+  if (!env['DISPLAY']) {
+    return 'trusted input needs an X11 display, but DISPLAY is not set';
+  }
+  return null;
+}
+
+/**
+ * Perform the steps of a NativeInputRequest in order. Resolves with the
+ * response to send back to the extension; never rejects.
+ */
+export async function performNativeInput(
+  request: NativeInputRequest,
+): Promise<NativeInputResponse> {
+  const reply = (fields: Omit<NativeInputResponse, 'type' | 'id'>): NativeInputResponse => ({
+    type: 'native-input-result',
+    id: request.id,
+    ...fields,
+  });
+
+  const reason = unavailableReason();
+  if (reason) return reply({ success: false, unavailable: true, error: reason });
+
+  for (const [index, step] of request.steps.entries()) {
+    const waitMs = step.kind === 'type'
+      ? step.text.length * step.delayMs
+      : step.kind === 'key' ? step.holdMs ?? 0 : 0;
+    try {
+      await runXdotool(xdotoolArgs(step), XDOTOOL_TIMEOUT_MS + waitMs);
+    } catch (error) {
+      // A missing binary is only discovered on the first step, before any input
+      if (index === 0 && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return reply({
+          success: false,
+          unavailable: true,
+          error: 'trusted input needs xdotool, which is not installed',
+        });
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      return reply({ success: false, error: `xdotool ${step.kind} failed: ${message}` });
+    }
+  }
+  return reply({ success: true });
+}
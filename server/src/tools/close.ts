@@ -1,11 +1,14 @@
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
 
 const closeTool: ToolDefinition = {
   name: 'browser_close',
   description: 'Close the current tab',
   inputSchema: {
     type: 'object',
-    properties: {},
+    properties: {
+      tabId: tabIdProperty,
+    },
   },
   action: 'close',
 
@@ -0,0 +1,13 @@
+// ============================================================
+// Schema fragments shared by several tools
+// ============================================================
+
+/**
+ * Optional `tabId` property for tools that act on a tab. The MCP server
+ * lifts it out of the tool arguments onto Command.tabId.
+ */
+export const tabIdProperty = {
+  type: 'number',
+  description:
+    'Stable tab ID from browser_tabs list to act on. Defaults to the active tab. Lets you work in a background tab without switching to it.',
+};
@@ -0,0 +1,67 @@
+import type { ConsoleMessage, ConsoleMessagesResult } from '@agentfox/shared';
+import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
+
+/** One message as a list line: level, time of day, text and source location */
+function formatMessage(m: ConsoleMessage): string {
+  const time = new Date(m.timestamp).toISOString().slice(11, 23);
+  const location = m.url ? ` (${m.url}${m.line !== undefined ? `:${m.line}:${m.column ?? 0}` : ''})` : '';
+  return `[${m.level}] ${time} ${m.text}${location}`;
+}
+
+const consoleTool: ToolDefinition = {
+  name: 'browser_console_messages',
+  description:
+    "Capture the page's console output and uncaught errors. Use 'start' to begin capturing in the tab, 'stop' to stop, 'get' to retrieve captured messages, 'clear' to clear the buffer. Only messages logged after 'start' are seen; capture resumes after the tab navigates, but each new page starts with an empty buffer.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['start', 'stop', 'get', 'clear'],
+        description:
+          "Action to perform: 'start' begins capturing, 'stop' stops capturing, 'get' retrieves captured messages, 'clear' clears the buffer.",
+      },
+      level: {
+        type: 'string',
+        enum: ['log', 'info', 'warn', 'error', 'debug'],
+        description: 'For "get": only messages of this level. Uncaught errors and unhandled rejections are "error".',
+      },
+      tabId: tabIdProperty,
+    },
+    required: ['action'],
+  },
+  action: 'console_messages',
+
+  formatResult(result: unknown) {
+    if (!result || typeof result !== 'object') {
+      return [
+        {
+          type: 'text' as const,
+          text: 'Console operation completed (no details returned)',
+        },
+      ];
+    }
+
+    const r = result as ConsoleMessagesResult;
+    const recording = `Recording: ${r.recording ? 'active' : 'stopped'}`;
+
+    if (r.messages) {
+      if (r.messages.length === 0) {
+        return [{ type: 'text' as const, text: `No console messages captured. ${recording}` }];
+      }
+      const lines = [`Console messages (${r.messages.length}):`, ...r.messages.map(formatMessage)];
+      if (r.dropped) {
+        lines.push('', `[${r.dropped} older message(s) dropped because the buffer was full]`);
+      }
+      lines.push('', recording);
+      return [{ type: 'text' as const, text: lines.join('\n') }];
+    }
+
+    const parts = [recording];
+    if (r.count !== undefined) parts.push(`Buffered messages: ${r.count}`);
+    return [{ type: 'text' as const, text: parts.join('\n') }];
+  },
+};
+
+export default consoleTool;
@@ -1,5 +1,6 @@
 import type { GetCookiesResult, CookieInfo } from '@agentfox/shared';
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
 
 const cookiesTool: ToolDefinition = {
   name: 'browser_get_cookies',
@@ -15,6 +16,7 @@ const cookiesTool: ToolDefinition = {
         type: 'string',
         description: 'Filter cookies by domain (alternative to url)',
       },
+      tabId: tabIdProperty,
     },
   },
   action: 'get_cookies',
@@ -1,5 +1,6 @@
 import type { EvaluateResult } from '@agentfox/shared';
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
 
 const evaluateTool: ToolDefinition = {
   name: 'browser_evaluate',
@@ -22,6 +23,7 @@ const evaluateTool: ToolDefinition = {
         description:
           'Human-readable element description used to obtain permission to interact with the element',
       },
+      tabId: tabIdProperty,
     },
     required: ['function'],
   },
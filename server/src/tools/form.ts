@@ -1,4 +1,5 @@
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
 
 export const fillFormTool: ToolDefinition = {
   name: 'browser_fill_form',
@@ -35,6 +36,7 @@ export const fillFormTool: ToolDefinition = {
           required: ['name', 'type', 'ref', 'value'],
         },
       },
+      tabId: tabIdProperty,
     },
     required: ['fields'],
   },
@@ -74,6 +76,7 @@ export const selectOptionTool: ToolDefinition = {
         description:
           'Array of values to select in the dropdown. Can be single or multiple values.',
       },
+      tabId: tabIdProperty,
     },
     required: ['ref', 'values'],
   },
@@ -0,0 +1,80 @@
+import type { HeaderRule, NetworkHeadersResult } from '@agentfox/shared';
+import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
+
+/** One rule as a list line: ID, what it matches, its edits, where and how often */
+function describeRule(r: HeaderRule): string {
+  const edits = [
+    ...r.set.map((h) => `set ${h.name}: ${h.value}`),
+    ...r.remove.map((name) => `remove ${name}`),
+  ];
+  const scope = r.tabId !== undefined ? `tab ${r.tabId}` : 'all tabs';
+  return `${r.id}: ${r.urlPattern} -> ${edits.join(', ')} [${scope}, ${r.hits} hit(s)]`;
+}
+
+const headersTool: ToolDefinition = {
+  name: 'browser_network_headers',
+  description:
+    "Rewrite the headers of outgoing requests, e.g. to add an Authorization or feature-flag header a staging environment requires. Use 'add' to install a rule, 'list' to show rules and their hit counts, 'remove' to delete one, 'clear' to delete all. Rules apply to the target tab unless allTabs is set; when several rules match, later ones win.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['add', 'list', 'remove', 'clear'],
+        description: 'Operation to perform',
+      },
+      urlPattern: {
+        type: 'string',
+        description:
+          'For add: URLs whose requests are rewritten. A pattern containing * is matched against the whole URL (e.g. "https://staging.example.com/*"); otherwise it is a case-insensitive substring. Keep it narrow so credentials are not sent to other sites.',
+      },
+      set: {
+        type: 'object',
+        additionalProperties: { type: 'string' },
+        description:
+          'For add: headers to send, as name-value pairs. Replaces any header of the same name the request already has.',
+      },
+      removeHeaders: {
+        type: 'array',
+        items: { type: 'string' },
+        description: 'For add: names of headers to strip from matching requests.',
+      },
+      allTabs: {
+        type: 'boolean',
+        description: 'For add: apply the rule to every tab instead of only the target tab.',
+      },
+      ruleId: {
+        type: 'string',
+        description: 'Rule ID from the list action. Required for remove.',
+      },
+      tabId: tabIdProperty,
+    },
+    required: ['action'],
+  },
+  action: 'network_headers',
+
+  formatResult(result: unknown) {
+    const r = (result ?? {}) as NetworkHeadersResult;
+    const lines: string[] = [];
+
+    if (r.added) {
+      lines.push(`Added rule ${describeRule(r.added)}`);
+    } else if (r.removed !== undefined) {
+      lines.push(`Removed ${r.removed} rule(s)`);
+    }
+
+    const rules = r.rules ?? [];
+    if (lines.length > 0) lines.push('');
+    if (rules.length === 0) {
+      lines.push('No header rules installed.');
+    } else {
+      lines.push(`Header rules (${rules.length}):`);
+      for (const rule of rules) lines.push(`  ${describeRule(rule)}`);
+    }
+
+    return [{ type: 'text' as const, text: lines.join('\n') }];
+  },
+};
+
+export default headersTool;
@@ -25,6 +25,17 @@ export interface ToolDefinition {
   action: ActionType;
   /** Convert the CommandResponse.result into an MCP content array */
   formatResult: (result: unknown) => McpContent[];
+  /**
+   * Optional server-side step run on a successful result before
+   * formatResult, for work the extension cannot do (e.g. writing files).
+   * Receives the tool arguments the command was built from.
+   */
+  processResult?: (result: unknown, args: Record<string, unknown>) => Promise<unknown>;
+  /**
+   * Optional time to allow the extension for a command, for tools whose
+   * arguments can make it outlast the default command timeout.
+   */
+  commandTimeoutMs?: (args: Record<string, unknown>) => number;
 }
 
 // ============================================================
@@ -35,7 +46,8 @@ import navigateTool from './navigate.js';
 import navigateBackTool from './navigate-back.js';
 import snapshotTool from './snapshot.js';
 import screenshotTool from './screenshot.js';
-import { clickTool, typeTool, pressKeyTool, hoverTool } from './interact.js';
+import { clickTool, typeTool, pressKeyTool, hoverTool, dragTool, mouseTool } from './interact.js';
+import scrollTool from './scroll.js';
 import { fillFormTool, selectOptionTool } from './form.js';
 import tabsTool from './tabs.js';
 import closeTool from './close.js';
@@ -46,6 +58,9 @@ import cookiesTool from './cookies.js';
 import bookmarksTool from './bookmarks.js';
 import historyTool from './history.js';
 import networkTool from './network.js';
+import interceptTool from './intercept.js';
+import headersTool from './headers.js';
+import consoleTool from './console.js';
 import pdfTool from './pdf.js';
 import pageContentTool from './page-content.js';
 
@@ -59,6 +74,9 @@ export const tools: ToolDefinition[] = [
   typeTool,
   pressKeyTool,
   hoverTool,
+  dragTool,
+  scrollTool,
+  mouseTool,
   fillFormTool,
   selectOptionTool,
   tabsTool,
@@ -70,6 +88,9 @@ export const tools: ToolDefinition[] = [
   bookmarksTool,
   historyTool,
   networkTool,
+  interceptTool,
+  headersTool,
+  consoleTool,
   pdfTool,
   pageContentTool,
 ];
@@ -1,8 +1,28 @@
+import type { DragResult, InteractionResult, MouseResult } from '@agentfox/shared';
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
+
+/** Input backend choice for tools that deliver clicks or keystrokes */
+const inputProperty = {
+  type: 'string',
+  enum: ['synthetic', 'trusted'],
+  description:
+    "'synthetic' (default) dispatches DOM events, which pages can tell apart from real input. 'trusted' has the native host drive real mouse and keyboard input (needs xdotool on an X11 desktop; the Firefox window is raised), for pages that ignore synthetic events such as file pickers, popups and clipboard access. Falls back to synthetic events when trusted input is unavailable. Trusted typing and key holds must finish within 14s per command: about 1,100 characters, or 450 when typing slowly.",
+};
+
+/** Confirmation text, noting when trusted input was asked for but not used */
+function describeInteraction(done: string, result: unknown): string {
+  const r = (result ?? {}) as Partial<InteractionResult>;
+  if (r.fallbackReason) {
+    return `${done} with synthetic events; trusted input was unavailable: ${r.fallbackReason}`;
+  }
+  return r.input === 'trusted' ? `${done} with trusted input` : done;
+}
 
 export const clickTool: ToolDefinition = {
   name: 'browser_click',
-  description: 'Perform click on a web page',
+  description:
+    'Perform click on a web page. Waits up to 5s for the element to be visible, enabled, holding still and not covered by another element, and reports what is in the way if it never is.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -33,19 +53,27 @@ export const clickTool: ToolDefinition = {
         description:
           'Whether to perform a double click instead of a single click',
       },
+      force: {
+        type: 'boolean',
+        description:
+          'Skip the actionability checks and click immediately, even if the element is covered or disabled',
+      },
+      input: inputProperty,
+      tabId: tabIdProperty,
     },
     required: ['ref'],
   },
   action: 'click',
 
-  formatResult() {
-    return [{ type: 'text' as const, text: 'Clicked element' }];
+  formatResult(result: unknown) {
+    return [{ type: 'text' as const, text: describeInteraction('Clicked element', result) }];
   },
 };
 
 export const typeTool: ToolDefinition = {
   name: 'browser_type',
-  description: 'Type text into editable element',
+  description:
+    'Type text into editable element. Waits up to 5s for the element to be visible, enabled and holding still; read-only fields are refused.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -71,34 +99,51 @@ export const typeTool: ToolDefinition = {
         description:
           'Whether to type one character at a time. Useful for triggering key handlers in the page.',
       },
+      force: {
+        type: 'boolean',
+        description: 'Skip the actionability checks and type immediately',
+      },
+      input: inputProperty,
+      tabId: tabIdProperty,
     },
     required: ['ref', 'text'],
   },
   action: 'type',
 
-  formatResult() {
-    return [{ type: 'text' as const, text: 'Typed text into element' }];
+  formatResult(result: unknown) {
+    return [{ type: 'text' as const, text: describeInteraction('Typed text into element', result) }];
   },
 };
 
 export const pressKeyTool: ToolDefinition = {
   name: 'browser_press_key',
-  description: 'Press a key on the keyboard',
+  description:
+    'Press a key, chord or key sequence on the focused element, with the modifier flags, keypress and text insertion a real keystroke produces, so keyboard shortcuts in web apps fire',
   inputSchema: {
     type: 'object',
     properties: {
       key: {
         type: 'string',
         description:
-          'Name of the key to press or a character to generate, such as `ArrowLeft` or `a`',
+          'Name of the key to press or a character to generate, such as `ArrowLeft` or `a`. Join modifiers (Alt, Control, Meta, Shift) with +, e.g. `Control+Shift+K`; separate chords with spaces for a sequence, e.g. `Control+K Control+C` (write the space bar as `Space` inside a sequence).',
+      },
+      repeat: {
+        type: 'number',
+        description: 'Number of times to press the whole key sequence, defaults to 1',
       },
+      holdMs: {
+        type: 'number',
+        description: 'Milliseconds to hold each chord down before releasing it (up to 10000, and up to 20000 across all chords and repeats)',
+      },
+      input: inputProperty,
+      tabId: tabIdProperty,
     },
     required: ['key'],
   },
   action: 'press_key',
 
-  formatResult() {
-    return [{ type: 'text' as const, text: 'Key pressed' }];
+  formatResult(result: unknown) {
+    return [{ type: 'text' as const, text: describeInteraction('Key pressed', result) }];
   },
 };
 
@@ -117,6 +162,7 @@ export const hoverTool: ToolDefinition = {
         description:
           'Human-readable element description used to obtain permission to interact with the element',
       },
+      tabId: tabIdProperty,
     },
     required: ['ref'],
   },
@@ -126,3 +172,126 @@ export const hoverTool: ToolDefinition = {
     return [{ type: 'text' as const, text: 'Hovered over element' }];
   },
 };
+
+export const dragTool: ToolDefinition = {
+  name: 'browser_drag',
+  description:
+    'Drag an element and drop it onto another element or by an offset. Sends both pointer/mouse events (press, moves, release) and, for draggable elements, the HTML5 drag-and-drop events with a shared DataTransfer, so both kinds of drag-and-drop UI respond. Waits for the dragged element to be actionable, like browser_click.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      startRef: {
+        type: 'string',
+        description: 'Exact source element reference from the page snapshot',
+      },
+      startElement: {
+        type: 'string',
+        description:
+          'Human-readable source element description used to obtain permission to interact with the element',
+      },
+      endRef: {
+        type: 'string',
+        description: 'Exact target element reference from the page snapshot. Omit to drag by offsetX/offsetY.',
+      },
+      endElement: {
+        type: 'string',
+        description:
+          'Human-readable target element description used to obtain permission to interact with the element',
+      },
+      offsetX: {
+        type: 'number',
+        description:
+          "Horizontal offset of the drop point in CSS pixels, from the target's center, or from the source's center when endRef is omitted",
+      },
+      offsetY: {
+        type: 'number',
+        description: 'Vertical offset of the drop point, measured like offsetX',
+      },
+      steps: {
+        type: 'number',
+        description: 'Number of pointer moves between the start and drop points, defaults to 5',
+      },
+      force: {
+        type: 'boolean',
+        description: 'Skip the actionability checks on the source element',
+      },
+      tabId: tabIdProperty,
+    },
+    required: ['startRef'],
+  },
+  action: 'drag',
+
+  formatResult(result: unknown) {
+    const r = (result ?? {}) as Partial<DragResult>;
+    let text = `Dragged element onto ${r.droppedOn ?? 'the page'}`;
+    if (!r.html5Drag) {
+      text += ' (pointer events only; the element is not HTML5-draggable)';
+    } else if (!r.dropAccepted) {
+      text += ' (HTML5 drag ran, but the target did not accept the drop)';
+    }
+    return [{ type: 'text' as const, text }];
+  },
+};
+
+export const mouseTool: ToolDefinition = {
+  name: 'browser_mouse',
+  description:
+    'Mouse action at a viewport position instead of an element ref, for canvas-rendered charts, maps and games that have no refs. Take a screenshot to find the position: x/y are CSS pixels, so divide screenshot pixels by the devicePixelRatio this tool reports. Every action first moves the mouse to the point; events go to the element there. Combine down, move and up to drag.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['move', 'click', 'down', 'up', 'wheel'],
+        description:
+          "'move' moves the mouse, 'click' clicks, 'down' and 'up' press and release a button, 'wheel' scrolls the wheel.",
+      },
+      x: {
+        type: 'number',
+        description: 'Horizontal position from the left edge of the viewport, in CSS pixels',
+      },
+      y: {
+        type: 'number',
+        description: 'Vertical position from the top edge of the viewport, in CSS pixels',
+      },
+      button: {
+        type: 'string',
+        enum: ['left', 'right', 'middle'],
+        description: 'Button for click, down and up, defaults to left',
+      },
+      modifiers: {
+        type: 'array',
+        items: {
+          type: 'string',
+          enum: ['Alt', 'Control', 'Meta', 'Shift'],
+        },
+        description: 'Modifier keys held during the action',
+      },
+      clickCount: {
+        type: 'number',
+        description: 'For click: clicks in a row, 2 for a double click. Defaults to 1.',
+      },
+      deltaX: {
+        type: 'number',
+        description: 'For wheel: pixels to scroll right (negative scrolls left)',
+      },
+      deltaY: {
+        type: 'number',
+        description: 'For wheel: pixels to scroll down (negative scrolls up; on maps this often zooms)',
+      },
+      tabId: tabIdProperty,
+    },
+    required: ['action', 'x', 'y'],
+  },
+  action: 'mouse',
+
+  formatResult(result: unknown) {
+    const r = (result ?? {}) as Partial<MouseResult>;
+    let text = `Dispatched mouse events to ${r.target ?? 'the page'}`;
+    if (r.scrolled === false) text += ' (the page handled the wheel itself, so nothing was scrolled)';
+    if (r.devicePixelRatio !== undefined && r.devicePixelRatio !== 1) {
+      text += `\nScreenshot pixels are ${r.devicePixelRatio}x CSS pixels on this display`;
+    }
+    return [{ type: 'text' as const, text }];
+  },
+};
@@ -0,0 +1,109 @@
+import type { InterceptRule, NetworkInterceptResult } from '@agentfox/shared';
+import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
+
+/** One rule as a list line: ID, what it matches, what it does, where and how often */
+function describeRule(r: InterceptRule): string {
+  let effect: string;
+  switch (r.behavior) {
+    case 'redirect':
+      effect = `redirect to ${r.redirectUrl}`;
+      break;
+    case 'delay':
+      effect = `delay ${r.delayMs}ms`;
+      break;
+    case 'fulfill':
+      effect = `fulfill with ${r.status ?? 200}, ${r.body?.length ?? 0}-char body${r.contentType ? ` (${r.contentType})` : ''}`;
+      break;
+    default:
+      effect = 'block';
+  }
+  const scope = r.tabId !== undefined ? `tab ${r.tabId}` : 'all tabs';
+  return `${r.id}: ${r.method ? `${r.method} ` : ''}${r.urlPattern} -> ${effect} [${scope}, ${r.hits} hit(s)]`;
+}
+
+const interceptTool: ToolDefinition = {
+  name: 'browser_network_intercept',
+  description:
+    "Block, redirect, delay or mock responses for matching network requests, e.g. to test how a page handles a failing API. Use 'add' to install a rule, 'list' to show rules and their hit counts, 'remove' to delete one, 'clear' to delete all. Rules apply to the target tab unless allTabs is set; the first matching rule wins.",
+  inputSchema: {
+    type: 'object',
+    properties: {
+      action: {
+        type: 'string',
+        enum: ['add', 'list', 'remove', 'clear'],
+        description: 'Operation to perform',
+      },
+      urlPattern: {
+        type: 'string',
+        description:
+          'For add: URLs to intercept. A pattern containing * is matched against the whole URL (e.g. "*://api.example.com/users*"); otherwise it is a case-insensitive substring.',
+      },
+      behavior: {
+        type: 'string',
+        enum: ['block', 'redirect', 'delay', 'fulfill'],
+        description:
+          "For add: 'block' fails the request with a network error, 'redirect' sends it to redirectUrl, 'delay' holds it for delayMs before sending, 'fulfill' answers it with a canned response (status, body, contentType) without contacting the server. The status applies to the page's fetch and XMLHttpRequest calls; other requests (documents, scripts, images, workers) get the body with status 200.",
+      },
+      method: {
+        type: 'string',
+        description: 'For add: only intercept requests with this HTTP method (e.g. "POST").',
+      },
+      redirectUrl: {
+        type: 'string',
+        description: 'For redirect rules: absolute URL to send matching requests to.',
+      },
+      delayMs: {
+        type: 'number',
+        description: 'For delay rules: milliseconds to hold each request (max 60000).',
+      },
+      body: {
+        type: 'string',
+        description: 'For fulfill rules: body of the canned response.',
+      },
+      contentType: {
+        type: 'string',
+        description: 'For fulfill rules: Content-Type of the canned body (e.g. "application/json").',
+      },
+      status: {
+        type: 'number',
+        description: 'For fulfill rules: HTTP status of the canned response, 200-599 (default 200).',
+      },
+      allTabs: {
+        type: 'boolean',
+        description: 'For add: apply the rule to every tab instead of only the target tab.',
+      },
+      ruleId: {
+        type: 'string',
+        description: 'Rule ID from the list action. Required for remove.',
+      },
+      tabId: tabIdProperty,
+    },
+    required: ['action'],
+  },
+  action: 'network_intercept',
+
+  formatResult(result: unknown) {
+    const r = (result ?? {}) as NetworkInterceptResult;
+    const lines: string[] = [];
+
+    if (r.added) {
+      lines.push(`Added rule ${describeRule(r.added)}`);
+    } else if (r.removed !== undefined) {
+      lines.push(`Removed ${r.removed} rule(s)`);
+    }
+
+    const rules = r.rules ?? [];
+    if (lines.length > 0) lines.push('');
+    if (rules.length === 0) {
+      lines.push('No interception rules installed.');
+    } else {
+      lines.push(`Interception rules (${rules.length}):`);
+      for (const rule of rules) lines.push(`  ${describeRule(rule)}`);
+    }
+
+    return [{ type: 'text' as const, text: lines.join('\n') }];
+  },
+};
+
+export default interceptTool;
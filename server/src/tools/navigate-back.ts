@@ -1,12 +1,15 @@
 import type { NavigateResult } from '@agentfox/shared';
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
 
 const navigateBackTool: ToolDefinition = {
   name: 'browser_navigate_back',
   description: 'Go back to the previous page in the history',
   inputSchema: {
     type: 'object',
-    properties: {},
+    properties: {
+      tabId: tabIdProperty,
+    },
   },
   action: 'navigate_back',
 
@@ -1,5 +1,6 @@
 import type { NavigateResult } from '@agentfox/shared';
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
 
 const navigateTool: ToolDefinition = {
   name: 'browser_navigate',
@@ -11,6 +12,7 @@ const navigateTool: ToolDefinition = {
         type: 'string',
         description: 'The URL to navigate to',
       },
+      tabId: tabIdProperty,
     },
     required: ['url'],
   },
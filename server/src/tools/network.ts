@@ -1,28 +1,169 @@
-import type { NetworkRequestsResult, NetworkRequestInfo } from '@agentfox/shared';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import type {
+  NetworkRequestsResult,
+  NetworkRequestInfo,
+  HttpHeader,
+  SocketFrame,
+} from '@agentfox/shared';
 import type { ToolDefinition } from './index.js';
 
+/** Timestamped file in the temp directory, used when export gets no path */
+function defaultHarPath(): string {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  return path.join(os.tmpdir(), `agentfox-${stamp}.har`);
+}
+
+function renderHeaders(title: string, headers: HttpHeader[] | undefined): string[] {
+  if (!headers || headers.length === 0) return [];
+  return ['', `${title}:`, ...headers.map((h) => `  ${h.name}: ${h.value}`)];
+}
+
+/** Per-request detail view: status line, headers and captured bodies */
+function renderRequestDetail(req: NetworkRequestInfo): string {
+  const lines = [
+    `${req.method} ${req.url}`,
+    `Request ID: ${req.requestId} | Type: ${req.type}${req.tabId !== undefined ? ` | Tab: ${req.tabId}` : ''}`,
+    `Status: ${req.statusCode}`,
+  ];
+  if (req.error) lines.push(`Error: ${req.error}`);
+
+  lines.push(...renderHeaders('Request headers', req.requestHeaders));
+  if (req.requestBody !== undefined) {
+    lines.push('', `Request body${req.requestBodyTruncated ? ' (truncated)' : ''}:`, req.requestBody);
+  }
+
+  lines.push(...renderHeaders('Response headers', req.responseHeaders));
+  if (req.responseBody !== undefined) {
+    const notes: string[] = [];
+    if (req.responseBodyEncoding === 'base64') notes.push('base64');
+    if (req.responseBodyTruncated) notes.push('truncated');
+    lines.push(
+      '',
+      `Response body${notes.length > 0 ? ` (${notes.join(', ')})` : ''}:`,
+      req.responseBody,
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/** WebSocket/SSE frames grouped under their connection, in arrival order */
+function renderFrames(frames: SocketFrame[]): string[] {
+  const lines: string[] = [];
+  const connections = new Map<string, SocketFrame[]>();
+  for (const f of frames) {
+    const list = connections.get(f.connection) ?? [];
+    list.push(f);
+    connections.set(f.connection, list);
+  }
+  for (const [connection, list] of connections) {
+    lines.push(`${connection} (${list[0].protocol} ${list[0].url}):`);
+    for (const f of list) {
+      const time = new Date(f.timestamp).toISOString().slice(11, 23);
+      lines.push(`  ${time} ${f.direction}${f.event ? ` [${f.event}]` : ''} ${f.data}`);
+    }
+  }
+  return lines;
+}
+
 const networkTool: ToolDefinition = {
   name: 'browser_network_requests',
   description:
-    "Monitor network requests. Use 'start' to begin recording, 'stop' to stop, 'get' to retrieve recorded requests, 'clear' to clear the buffer. Calling 'start' while already recording returns the current state without resetting.",
+    "Monitor network requests. Use 'start' to begin recording, 'stop' to stop, 'get' to retrieve recorded requests (filterable by URL, tab, method, status, type, failure and time, with limit/offset paging), 'detail' to show one request's headers and bodies, 'export' to write them to a HAR file, 'frames' to show WebSocket and Server-Sent Events messages, 'clear' to clear the buffer. Calling 'start' while already recording returns the current state without resetting.",
   inputSchema: {
     type: 'object',
     properties: {
       action: {
         type: 'string',
-        enum: ['start', 'stop', 'get', 'clear'],
+        enum: ['start', 'stop', 'get', 'clear', 'detail', 'export', 'frames'],
         description:
-          "Action to perform: 'start' begins recording, 'stop' stops recording, 'get' retrieves recorded requests, 'clear' clears the buffer.",
+          "Action to perform: 'start' begins recording, 'stop' stops recording, 'get' retrieves recorded requests, 'detail' shows one request in full, 'export' writes recorded requests as a HAR 1.2 file, 'frames' shows WebSocket/EventSource messages of the tab's page (connections opened after 'start'), 'clear' clears the buffer.",
       },
       filter: {
         type: 'string',
-        description: 'URL pattern to filter requests (substring match). Only used with the "get" action.',
+        description:
+          'URL pattern to filter requests (substring match). Used with the "get", "export" and "frames" actions.',
+      },
+      tabId: {
+        type: 'number',
+        description:
+          'For "get"/"export": only requests made by this tab (tab ID from browser_tabs list). For "frames": the tab to read frames from; defaults to the active tab.',
+      },
+      method: {
+        type: 'string',
+        description: 'For "get"/"export": only requests with this HTTP method (e.g. "POST").',
+      },
+      resourceType: {
+        type: 'string',
+        description:
+          'For "get"/"export": only this resource type, as shown in the Type column (e.g. "xmlhttprequest", "script", "main_frame").',
+      },
+      statusMin: {
+        type: 'number',
+        description: 'For "get"/"export": lowest status code to include (e.g. 400). Requests without a response are excluded.',
+      },
+      statusMax: {
+        type: 'number',
+        description: 'For "get"/"export": highest status code to include (e.g. 499).',
+      },
+      failedOnly: {
+        type: 'boolean',
+        description: 'For "get"/"export": only requests that failed with a network error or a 4xx/5xx status.',
+      },
+      startTime: {
+        type: 'string',
+        description: 'For "get"/"export": only requests started at or after this ISO 8601 time.',
+      },
+      endTime: {
+        type: 'string',
+        description: 'For "get"/"export": only requests started at or before this ISO 8601 time.',
+      },
+      limit: {
+        type: 'number',
+        description: 'For "get": maximum number of requests to return. Defaults to all matches.',
+      },
+      offset: {
+        type: 'number',
+        description: 'For "get": number of matching requests to skip, for paging through long lists.',
+      },
+      direction: {
+        type: 'string',
+        enum: ['sent', 'received'],
+        description: 'For "frames": only frames the page sent, or only frames it received.',
+      },
+      path: {
+        type: 'string',
+        description:
+          'For "export": file to write the HAR to. Defaults to a timestamped file in the system temp directory.',
+      },
+      captureBodies: {
+        type: 'boolean',
+        description:
+          'For "start": also record request bodies and response bodies of documents, XHR/fetch, scripts and stylesheets (each capped at 64KB). Headers are always recorded.',
+      },
+      requestId: {
+        type: 'string',
+        description: 'Request ID from the "get" list. Required for the "detail" action.',
       },
     },
     required: ['action'],
   },
   action: 'network_requests',
 
+  async processResult(result: unknown, args: Record<string, unknown>) {
+    const r = result as NetworkRequestsResult | undefined;
+    if (args.action !== 'export' || !r?.har) return result;
+
+    const harPath = path.resolve(
+      typeof args.path === 'string' && args.path ? args.path : defaultHarPath(),
+    );
+    await fs.mkdir(path.dirname(harPath), { recursive: true });
+    await fs.writeFile(harPath, JSON.stringify(r.har, null, 2));
+    return { harPath, count: r.har.log.entries.length, recording: r.recording };
+  },
+
   formatResult(result: unknown) {
     if (!result || typeof result !== 'object') {
       return [
@@ -35,30 +176,72 @@ const networkTool: ToolDefinition = {
 
     const r = result as NetworkRequestsResult;
 
-    // If we have requests, format them as a table
-    if (r.requests) {
-      if (r.requests.length === 0) {
+    if (r.request) {
+      return [{ type: 'text' as const, text: renderRequestDetail(r.request) }];
+    }
+
+    if (r.frames) {
+      const recording = `Recording: ${r.recording ? 'active' : 'stopped'}`;
+      if (r.frames.length === 0) {
         return [
           {
             type: 'text' as const,
-            text: `No requests recorded. Recording: ${r.recording ? 'active' : 'stopped'}`,
+            text: `No WebSocket or EventSource frames captured. ${recording}`,
           },
         ];
       }
+      const lines = [`Frames (${r.frames.length}):`, ...renderFrames(r.frames)];
+      if (r.framesDropped) {
+        lines.push('', `[${r.framesDropped} older frame(s) dropped because the buffer was full]`);
+      }
+      lines.push('', recording);
+      return [{ type: 'text' as const, text: lines.join('\n') }];
+    }
 
+    if (r.harPath) {
+      return [
+        {
+          type: 'text' as const,
+          text: `HAR exported to ${r.harPath} (${r.count ?? 0} request(s))`,
+        },
+      ];
+    }
+
+    // If we have requests, format them as a table
+    if (r.requests) {
+      const recording = `Recording: ${r.recording ? 'active' : 'stopped'}`;
+      const offset = r.offset ?? 0;
+      const total = r.total ?? offset + r.requests.length;
+
+      if (r.requests.length === 0) {
+        let text = `No requests recorded. ${recording}`;
+        if (total > 0) {
+          text = `No requests at offset ${offset} (${total} matched). ${recording}`;
+        } else if (r.count) {
+          text = `No recorded requests match the filters (${r.count} buffered). ${recording}`;
+        }
+        return [{ type: 'text' as const, text }];
+      }
+
+      const end = offset + r.requests.length;
       const lines = [
-        `Requests (${r.requests.length}):`,
-        'Method | Status | Type | URL',
-        '-------|--------|------|----',
+        end < total || offset > 0
+          ? `Requests ${offset + 1}-${end} of ${total}:`
+          : `Requests (${r.requests.length}):`,
+        'ID | Method | Status | Type | URL',
+        '---|--------|--------|------|----',
       ];
 
       for (const req of r.requests as NetworkRequestInfo[]) {
         lines.push(
-          `${req.method} | ${req.statusCode} | ${req.type} | ${req.url}`,
+          `${req.requestId ?? '-'} | ${req.method} | ${req.statusCode} | ${req.type} | ${req.url}${req.error ? ` (${req.error})` : ''}`,
         );
       }
 
-      lines.push('', `Recording: ${r.recording ? 'active' : 'stopped'}`);
+      if (end < total) {
+        lines.push('', `[${total - end} more. Call get with offset=${end} to see them.]`);
+      }
+      lines.push('', recording);
 
       return [{ type: 'text' as const, text: lines.join('\n') }];
     }
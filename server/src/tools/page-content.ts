@@ -1,5 +1,6 @@
 import type { PageContentResult } from '@agentfox/shared';
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
 
 const pageContentTool: ToolDefinition = {
   name: 'browser_page_content',
@@ -13,6 +14,7 @@ const pageContentTool: ToolDefinition = {
         description:
           'CSS selector to extract text from a specific element. If not provided, extracts from the entire page body.',
       },
+      tabId: tabIdProperty,
     },
   },
   action: 'page_content',
@@ -1,4 +1,5 @@
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
 
 const resizeTool: ToolDefinition = {
   name: 'browser_resize',
@@ -14,6 +15,7 @@ const resizeTool: ToolDefinition = {
         type: 'number',
         description: 'Height of the browser window',
       },
+      tabId: tabIdProperty,
     },
     required: ['width', 'height'],
   },
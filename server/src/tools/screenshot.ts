@@ -1,9 +1,14 @@
 import type { ScreenshotResult } from '@agentfox/shared';
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
 
 const screenshotTool: ToolDefinition = {
   name: 'browser_take_screenshot',
-  description: 'Take a screenshot of the current page',
+  description:
+    'Take a screenshot of the current page. Captures the viewport by default, ' +
+    'the whole scrollable page with fullPage, or a single element with ref. ' +
+    'With annotate, every element ref from the last browser_snapshot is boxed and numbered, ' +
+    'and a legend maps each number to its ref.',
   inputSchema: {
     type: 'object',
     properties: {
@@ -12,6 +17,27 @@ const screenshotTool: ToolDefinition = {
         enum: ['png', 'jpeg'],
         description: 'Image format for the screenshot. Default is png.',
       },
+      fullPage: {
+        type: 'boolean',
+        description:
+          'Capture the full scrollable page instead of the visible viewport. Very long pages are clipped.',
+      },
+      ref: {
+        type: 'string',
+        description:
+          'Exact target element reference from the page snapshot. Crops the screenshot to that element.',
+      },
+      element: {
+        type: 'string',
+        description:
+          'Human-readable element description used to obtain permission to screenshot the element',
+      },
+      annotate: {
+        type: 'boolean',
+        description:
+          'Overlay numbered boxes on the element refs from the last snapshot and return a legend mapping numbers to refs. Take a snapshot first.',
+      },
+      tabId: tabIdProperty,
     },
   },
   action: 'screenshot',
@@ -34,13 +60,34 @@ const screenshotTool: ToolDefinition = {
         },
       ];
     }
-    return [
+    const content: Array<
+      | { type: 'image'; data: string; mimeType: string }
+      | { type: 'text'; text: string }
+    > = [
       {
         type: 'image' as const,
         data: r.data,
         mimeType: r.mimeType ?? 'image/png',
       },
     ];
+    if (r.legend) {
+      const lines = r.legend.map(
+        (a) => `[${a.label}] ${a.ref} ${a.role}${a.name ? ` "${a.name}"` : ''}`,
+      );
+      content.push({
+        type: 'text' as const,
+        text: lines.length > 0
+          ? `Legend:\n${lines.join('\n')}`
+          : 'Legend: no snapshot refs are visible in this screenshot',
+      });
+    }
+    if (r.clipped) {
+      content.push({
+        type: 'text' as const,
+        text: 'Note: the page exceeds the maximum capture size, so the screenshot was clipped.',
+      });
+    }
+    return content;
   },
 };
 
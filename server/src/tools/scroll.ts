@@ -0,0 +1,72 @@
+import type { ScrollResult } from '@agentfox/shared';
+import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
+
+const scrollTool: ToolDefinition = {
+  name: 'browser_scroll',
+  description:
+    'Scroll the page, or a scrollable container given by containerRef. Use exactly one mode: ref scrolls an element into view, deltaX/deltaY scroll by pixels, to jumps to the top or bottom, and untilNoNewContent keeps scrolling to the bottom of an infinite feed until no more content loads. Returns the new scroll position and whether content grew.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      ref: {
+        type: 'string',
+        description: 'Exact target element reference from the page snapshot to scroll into view',
+      },
+      containerRef: {
+        type: 'string',
+        description: 'Scrollable element to scroll instead of the page (e.g. a list with its own scrollbar)',
+      },
+      deltaX: {
+        type: 'number',
+        description: 'Pixels to scroll right (negative scrolls left)',
+      },
+      deltaY: {
+        type: 'number',
+        description: 'Pixels to scroll down (negative scrolls up)',
+      },
+      to: {
+        type: 'string',
+        enum: ['top', 'bottom'],
+        description: 'Jump to the top or bottom',
+      },
+      untilNoNewContent: {
+        type: 'boolean',
+        description: 'Repeatedly scroll to the bottom, waiting for more content to load each time, until none appears',
+      },
+      maxScrolls: {
+        type: 'number',
+        description: 'For untilNoNewContent: most scrolls to make (default 10). maxScrolls × waitMs may be at most 25000, so the command finishes in time',
+      },
+      waitMs: {
+        type: 'number',
+        description: 'For untilNoNewContent: how long to wait for new content after each scroll (default 1000; see maxScrolls for the limit)',
+      },
+      tabId: tabIdProperty,
+    },
+  },
+  action: 'scroll',
+
+  formatResult(result: unknown) {
+    if (!result || typeof result !== 'object') {
+      return [{ type: 'text' as const, text: 'Scrolled' }];
+    }
+
+    const r = result as ScrollResult;
+    const lines = [
+      `Scrolled to (${r.scrollLeft}, ${r.scrollTop}) of ${r.scrollWidth}x${r.scrollHeight}${r.atBottom ? ', at the bottom' : ''}`,
+    ];
+    if (r.loads !== undefined) {
+      lines.push(
+        r.loads === 0
+          ? 'No new content loaded'
+          : `New content loaded ${r.loads} time(s)`,
+      );
+    } else {
+      lines.push(r.contentGrew ? 'Content grew while scrolling' : 'No new content appeared');
+    }
+    return [{ type: 'text' as const, text: lines.join('\n') }];
+  },
+};
+
+export default scrollTool;
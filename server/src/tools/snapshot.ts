@@ -1,5 +1,6 @@
-import type { AccessibilityNode, SnapshotResult } from '@agentfox/shared';
+import type { AccessibilityNode, SnapshotChange, SnapshotResult } from '@agentfox/shared';
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
 
 /**
  * Render an accessibility tree into indented text, matching Playwright MCP's
@@ -13,8 +14,20 @@ import type { ToolDefinition } from './index.js';
  *       - link "Home" [ref=e1]
  */
 function renderTree(node: AccessibilityNode, depth = 0): string {
-  const indent = '  '.repeat(depth);
-  let line = `${indent}- ${node.role}`;
+  const lines = [`${'  '.repeat(depth)}- ${renderNode(node)}`];
+
+  if (node.children) {
+    for (const child of node.children) {
+      lines.push(renderTree(child, depth + 1));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+/** Render a single node (without children), e.g. `button "OK" [ref=e1]` */
+function renderNode(node: AccessibilityNode): string {
+  let line = node.role;
 
   if (node.name) {
     line += ` "${node.name}"`;
@@ -36,11 +49,44 @@ function renderTree(node: AccessibilityNode, depth = 0): string {
     line += ` [${attrs.join(', ')}]`;
   }
 
-  const lines = [line];
+  return line;
+}
 
-  if (node.children) {
-    for (const child of node.children) {
-      lines.push(renderTree(child, depth + 1));
+const CHANGE_MARKERS: Record<SnapshotChange['kind'], string> = {
+  added: '+',
+  removed: '-',
+  changed: '~',
+};
+
+/**
+ * Render snapshot diff entries. Each change is headed by a marker and the
+ * path of its parent, followed by the affected subtree:
+ *
+ *   + in main > form "Login":
+ *     - button "Submit" [ref=e5]
+ *   ~ in main > form "Login":
+ *     - textbox "Email" [ref=e1, value="a"]
+ *       was: textbox "Email" [ref=e1, value=""]
+ */
+function renderDiff(changes: SnapshotChange[]): string {
+  if (changes.length === 0) {
+    return 'No changes since the last snapshot.';
+  }
+
+  const counts = { added: 0, removed: 0, changed: 0 };
+  for (const c of changes) counts[c.kind]++;
+  const lines = [
+    `Changes since the last snapshot (${counts.added} added, ${counts.removed} removed, ${counts.changed} changed):`,
+  ];
+
+  for (const c of changes) {
+    lines.push('');
+    lines.push(`${CHANGE_MARKERS[c.kind]} in ${c.path.length > 0 ? c.path.join(' > ') : 'document'}:`);
+    if (c.kind === 'changed') {
+      lines.push(`  - ${renderNode(c.node)}`);
+      if (c.previous) lines.push(`    was: ${renderNode(c.previous)}`);
+    } else {
+      lines.push(renderTree(c.node, 1));
     }
   }
 
@@ -50,10 +96,47 @@ function renderTree(node: AccessibilityNode, depth = 0): string {
 const snapshotTool: ToolDefinition = {
   name: 'browser_snapshot',
   description:
-    'Capture accessibility snapshot of the current page, this is better than screenshot',
+    'Capture accessibility snapshot of the current page, this is better than screenshot. ' +
+    'Use diff to get only the changes since the previous snapshot, e.g. after a click. ' +
+    'On large pages, root the snapshot at a ref, selector, or landmark and limit maxDepth ' +
+    'to drill into one region at a time. Snapshots that exceed the size budget are paginated: ' +
+    'the result says so and gives a cursor for fetching the next part.',
   inputSchema: {
     type: 'object',
-    properties: {},
+    properties: {
+      diff: {
+        type: 'boolean',
+        description:
+          'Return only nodes added, removed, or changed since the previous snapshot of this page. Falls back to the full tree if there is no previous snapshot or the URL or scope changed.',
+      },
+      ref: {
+        type: 'string',
+        description: 'Element ref from a previous snapshot to root the tree at',
+      },
+      selector: {
+        type: 'string',
+        description: 'CSS selector of the element to root the tree at (used if ref is not given)',
+      },
+      landmark: {
+        type: 'string',
+        enum: ['banner', 'navigation', 'main', 'complementary', 'contentinfo', 'search', 'form', 'region'],
+        description: 'Landmark role to root the tree at (used if neither ref nor selector is given)',
+      },
+      maxDepth: {
+        type: 'number',
+        description: 'Maximum DOM depth to walk below the root. Default is 30.',
+      },
+      cursor: {
+        type: 'string',
+        description:
+          'Cursor from a truncated snapshot, to fetch the next part. Pass the same ref/selector/landmark/maxDepth as the first call.',
+      },
+      maxNodes: {
+        type: 'number',
+        description: 'Maximum number of elements per page, for smaller pages. Default and upper limit is 50000.',
+      },
+      tabId: tabIdProperty,
+    },
   },
   action: 'snapshot',
 
@@ -67,11 +150,29 @@ const snapshotTool: ToolDefinition = {
       ];
     }
     const r = result as SnapshotResult;
+    const header = `Page: ${r.title ?? 'unknown'}\nURL: ${r.url ?? 'unknown'}${r.scope ? `\nScope: ${r.scope}` : ''}`;
+    // Refs are stable across snapshots, so only the retired ones need calling out
+    const retired = r.retiredRefs && r.retiredRefs.length > 0
+      ? `\n\nRetired refs (element removed or no longer shown): ${r.retiredRefs.join(', ')}`
+      : '';
+    const more = r.truncated && r.cursor
+      ? `\n\n[Snapshot truncated after ${r.nodeCount} of ~${r.totalNodes} elements. ` +
+        `To get the next part, call browser_snapshot with cursor="${r.cursor}" ` +
+        'and the same ref/selector/landmark/maxDepth.]'
+      : '';
+    if (r.diff) {
+      return [
+        {
+          type: 'text' as const,
+          text: `${header}\n\n${renderDiff(r.diff)}${more}${retired}`,
+        },
+      ];
+    }
     if (!r.tree) {
       return [
         {
           type: 'text' as const,
-          text: `Page: ${r.title ?? 'unknown'}\nURL: ${r.url ?? 'unknown'}\n\n(empty accessibility tree)`,
+          text: `${header}\n\n(empty accessibility tree)${more}${retired}`,
         },
       ];
     }
@@ -79,7 +180,7 @@ const snapshotTool: ToolDefinition = {
     return [
       {
         type: 'text' as const,
-        text: `Page: ${r.title ?? 'unknown'}\nURL: ${r.url ?? 'unknown'}\n\n${treeText}`,
+        text: `${header}\n\n${treeText}${more}${retired}`,
       },
     ];
   },
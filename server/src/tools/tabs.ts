@@ -1,21 +1,42 @@
-import type { TabInfo, TabsResult } from '@agentfox/shared';
+import type { TabInfo, TabsResult, WindowInfo, WindowsResult } from '@agentfox/shared';
 import type { ToolDefinition } from './index.js';
 
+/** Render one tab as a list line, marking the active tab with `*` */
+function formatTabLine(t: TabInfo): string {
+  return `${t.active ? '* ' : '  '}[${t.index}] ${t.title} (${t.url})${t.id !== undefined ? ` [tabId=${t.id}]` : ''}`;
+}
+
 const tabsTool: ToolDefinition = {
   name: 'browser_tabs',
-  description: 'List, create, close, or select a browser tab',
+  description:
+    'List, create, close, select, or move browser tabs, and list or focus browser windows. ' +
+    'Tabs from all windows are listed, grouped by window.',
   inputSchema: {
     type: 'object',
     properties: {
       action: {
         type: 'string',
-        enum: ['list', 'new', 'close', 'select'],
+        enum: ['list', 'new', 'close', 'select', 'move', 'list_windows', 'focus_window'],
         description: 'Operation to perform',
       },
       index: {
         type: 'number',
         description:
-          'Tab index, used for close/select. If omitted for close, current tab is closed.',
+          'Tab index, used for close/select. If omitted for close, current tab is closed. For move, the destination index in the target window (defaults to the end).',
+      },
+      tabId: {
+        type: 'number',
+        description:
+          'Stable tab ID from the list action, used for close/select/move instead of index. Unlike indexes, IDs do not shift when other tabs open or close.',
+      },
+      windowId: {
+        type: 'number',
+        description:
+          'Window ID from list_windows. Scopes list and index lookups to that window, is where new/move put the tab, and is the window raised by focus_window.',
+      },
+      newWindow: {
+        type: 'boolean',
+        description: 'For new/move: put the tab in a newly opened window.',
       },
     },
     required: ['action'],
@@ -33,20 +54,44 @@ const tabsTool: ToolDefinition = {
       if (!r.tabs || r.tabs.length === 0) {
         return [{ type: 'text' as const, text: 'No tabs found' }];
       }
-      const lines = r.tabs.map(
-        (t: TabInfo) =>
-          `${t.active ? '* ' : '  '}[${t.index}] ${t.title} (${t.url})`,
-      );
+
+      // Group under window headings only when more than one window is involved
+      const windowIds = new Set(r.tabs.map((t) => t.windowId));
+      if (windowIds.size <= 1) {
+        return [{ type: 'text' as const, text: r.tabs.map(formatTabLine).join('\n') }];
+      }
+      const lines: string[] = [];
+      for (const windowId of windowIds) {
+        if (lines.length > 0) lines.push('');
+        lines.push(`Window ${windowId}:`);
+        for (const t of r.tabs) {
+          if (t.windowId === windowId) lines.push(formatTabLine(t));
+        }
+      }
+      return [{ type: 'text' as const, text: lines.join('\n') }];
+    }
+
+    // Window list (list_windows, focus_window)
+    if ('windows' in result) {
+      const r = result as WindowsResult;
+      if (!r.windows || r.windows.length === 0) {
+        return [{ type: 'text' as const, text: 'No windows found' }];
+      }
+      const lines = r.windows.map((w: WindowInfo) => {
+        const flags = [w.type, w.state];
+        if (w.incognito) flags.push('private');
+        return `${w.focused ? '* ' : '  '}Window ${w.id} (${flags.join(', ')}) — ${w.tabCount} tab(s), active: ${w.activeTabTitle || '(untitled)'}`;
+      });
       return [{ type: 'text' as const, text: lines.join('\n') }];
     }
 
-    // Single tab result (new, select)
+    // Single tab result (new, select, move)
     const t = result as TabInfo;
     if (t.index !== undefined) {
       return [
         {
           type: 'text' as const,
-          text: `Tab [${t.index}] ${t.title || ''} (${t.url || ''})`,
+          text: `Tab [${t.index}] ${t.title || ''} (${t.url || ''})${t.id !== undefined ? ` [tabId=${t.id}]` : ''}${t.windowId !== undefined ? ` in window ${t.windowId}` : ''}`,
         },
       ];
     }
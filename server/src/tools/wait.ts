@@ -1,9 +1,30 @@
+import type { WaitForResult } from '@agentfox/shared';
 import type { ToolDefinition } from './index.js';
+import { tabIdProperty } from './common.js';
+
+/** Seconds a wait lasts when no time is given, as in the extension */
+const DEFAULT_WAIT_SECONDS = 30;
+
+/**
+ * Time the extension gets beyond the wait itself, so it can report which
+ * condition timed out before the command does
+ */
+const WAIT_MARGIN_MS = 5_000;
+
+/** How each condition is named when a wait times out on it */
+const TIMED_OUT_LABELS: Record<NonNullable<WaitForResult['timedOut']>, string> = {
+  url: 'the URL to match',
+  loadState: 'the page to load',
+  networkIdle: 'network idle',
+  text: 'the text condition',
+  element: 'the element condition',
+};
 
 const waitTool: ToolDefinition = {
   name: 'browser_wait_for',
   description:
-    'Wait for text to appear or disappear or a specified time to pass. ' +
+    'Wait for text to appear or disappear, an element to reach a state, the tab\'s URL to match, the page to load, the network to go idle, or a specified time to pass. ' +
+    'Several conditions can be combined and must all be met. ' +
     'If no "time" parameter is provided, the wait times out after 30 seconds by default.',
   inputSchema: {
     type: 'object',
@@ -18,21 +39,67 @@ const waitTool: ToolDefinition = {
       },
       time: {
         type: 'number',
-        description: 'The time to wait in seconds (defaults to 30 if not specified)',
+        description:
+          'The time to wait in seconds (defaults to 30 if not specified). With any other condition, the timeout for all of them.',
+      },
+      url: {
+        type: 'string',
+        description:
+          'Wait until the tab\'s URL matches: a pattern containing * is matched against the whole URL (e.g. "*/checkout/*"); otherwise a substring. Also sees SPA history changes.',
+      },
+      loadState: {
+        type: 'string',
+        enum: ['domcontentloaded', 'load'],
+        description:
+          'Wait until the page has fired DOMContentLoaded or load. A finished page counts immediately, so combine with url to wait for a navigation that has not started yet.',
+      },
+      selector: {
+        type: 'string',
+        description: 'CSS selector of an element to wait on (the first match is used)',
+      },
+      ref: {
+        type: 'string',
+        description: 'Element ref from a page snapshot to wait on, instead of selector',
+      },
+      state: {
+        type: 'string',
+        enum: ['attached', 'detached', 'visible', 'hidden', 'enabled'],
+        description:
+          'State the selector/ref element must reach. Defaults to "visible", or "attached" when value or hasText is given.',
+      },
+      value: {
+        type: 'string',
+        description: 'Wait until the selector/ref form field has exactly this value',
+      },
+      hasText: {
+        type: 'string',
+        description:
+          'Wait until the selector/ref element\'s rendered text contains this. Unlike "text", hidden parts of the page do not count.',
+      },
+      networkIdle: {
+        type: 'number',
+        description:
+          'Wait until the tab has had no network requests in flight for this many milliseconds (e.g. 500). Useful after clicks that fetch data.',
       },
+      tabId: tabIdProperty,
     },
   },
   action: 'wait_for',
 
+  commandTimeoutMs(args) {
+    const seconds = typeof args.time === 'number' && args.time > 0 ? args.time : DEFAULT_WAIT_SECONDS;
+    return seconds * 1000 + WAIT_MARGIN_MS;
+  },
+
   formatResult(result: unknown) {
     if (result && typeof result === 'object' && 'matched' in result) {
-      const r = result as { matched: boolean };
+      const r = result as WaitForResult;
       return [
         {
           type: 'text' as const,
           text: r.matched
             ? 'Wait condition met'
-            : 'Wait condition timed out',
+            : `Wait condition timed out${r.timedOut ? ` waiting for ${TIMED_OUT_LABELS[r.timedOut]}` : ''}`,
         },
       ];
     }
@@ -8,6 +8,8 @@ export interface ServerConfig {
   socketPath: string;
   /** Default timeout for commands in milliseconds */
   defaultTimeout: number;
+  /** Broker session ID announced to the NM host. Omitted in single-session mode. */
+  sessionId?: string;
 }
 
 /** Tracks a pending command waiting for a response */
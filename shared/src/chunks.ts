@@ -0,0 +1,81 @@
+/**
+ * Splitting and reassembly of CommandResponses too large for one native
+ * message. The extension splits the response JSON with splitIntoChunks and
+ * sends the pieces as ResponseChunk messages; the NM host feeds them to a
+ * ChunkAssembler and forwards the whole response over IPC.
+ */
+
+import type { CommandResponse, ResponseChunk } from './types.js';
+
+/**
+ * Responses whose JSON is longer than this many characters are split into
+ * ResponseChunk messages. Native messaging caps each message at 1MB; even
+ * if every character needed escaping, a chunk stays well below that.
+ */
+export const RESPONSE_CHUNK_CHARS = 128 * 1024;
+
+/** Split a string into pieces of at most `size` characters without breaking surrogate pairs */
+export function splitIntoChunks(json: string, size = RESPONSE_CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+  while (start < json.length) {
+    let end = Math.min(start + size, json.length);
+    const last = json.charCodeAt(end - 1);
+    if (end < json.length && last >= 0xd800 && last <= 0xdbff) end--;
+    chunks.push(json.slice(start, end));
+    start = end;
+  }
+  return chunks;
+}
+
+/** Chunks received so far for one response */
+interface PartialResponse {
+  parts: string[];
+  received: number;
+}
+
+/**
+ * Collects ResponseChunk messages per command ID, in any order. add()
+ * returns the complete CommandResponse once the last chunk arrives, null
+ * before that, and throws (dropping the partial response) on a chunk that
+ * does not fit or a reassembled payload that is not valid JSON.
+ */
+export class ChunkAssembler {
+  private pending = new Map<string, PartialResponse>();
+
+  add(chunk: ResponseChunk): CommandResponse | null {
+    const partial = this.pending.get(chunk.id);
+    if (
+      chunk.total < 1 ||
+      chunk.index < 0 ||
+      chunk.index >= chunk.total ||
+      (partial && partial.parts.length !== chunk.total)
+    ) {
+      this.pending.delete(chunk.id);
+      throw new Error(
+        `Invalid chunk ${chunk.index}/${chunk.total} for response ${chunk.id}`,
+      );
+    }
+
+    const entry = partial ?? { parts: new Array<string>(chunk.total), received: 0 };
+    this.pending.set(chunk.id, entry);
+    if (entry.parts[chunk.index] === undefined) {
+      entry.parts[chunk.index] = chunk.data;
+      entry.received++;
+    }
+    if (entry.received < chunk.total) return null;
+
+    this.pending.delete(chunk.id);
+    return JSON.parse(entry.parts.join('')) as CommandResponse;
+  }
+
+  /** Drop any partial response for a command ID */
+  discard(id: string): void {
+    this.pending.delete(id);
+  }
+
+  /** Number of responses still waiting for chunks */
+  get size(): number {
+    return this.pending.size;
+  }
+}
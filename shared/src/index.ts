@@ -1 +1,3 @@
 export * from './types.js';
+export * from './chunks.js';
+export * from './timeouts.js';
@@ -0,0 +1,9 @@
+/**
+ * Time limits the MCP server and the extension have to agree on.
+ */
+
+/**
+ * How long the MCP server waits for the extension to answer a command.
+ * Anything the extension waits for while handling one has to fit inside.
+ */
+export const COMMAND_TIMEOUT_MS = 30_000;
@@ -12,6 +12,9 @@ export type ActionType =
   | 'type'
   | 'press_key'
   | 'hover'
+  | 'drag'
+  | 'scroll'
+  | 'mouse'
   | 'fill_form'
   | 'select_option'
   | 'evaluate'
@@ -23,6 +26,9 @@ export type ActionType =
   | 'get_bookmarks'
   | 'get_history'
   | 'network_requests'
+  | 'network_intercept'
+  | 'network_headers'
+  | 'console_messages'
   | 'save_pdf'
   | 'page_content';
 
@@ -34,13 +40,34 @@ export interface NavigateParams {
   url: string;
 }
 
+/**
+ * How click, type and press_key deliver input. 'synthetic' dispatches DOM
+ * events from the content script (isTrusted=false); 'trusted' has the NM host
+ * drive real OS input, falling back to synthetic events when it cannot.
+ */
+export type InputMode = 'synthetic' | 'trusted';
+
+/** Modifier keys that can be held during a click or key press */
+export type KeyModifier = 'Alt' | 'Control' | 'Meta' | 'Shift';
+
+/** A key pressed while holding modifiers, e.g. Control+Shift+K */
+export interface KeyChord {
+  /** DOM key name, e.g. "Enter", "ArrowLeft" or "k" */
+  key: string;
+  modifiers: KeyModifier[];
+}
+
 export interface ClickParams {
   ref: string;
   /** Human-readable element description */
   element?: string;
   button?: 'left' | 'right' | 'middle';
-  modifiers?: Array<'Alt' | 'Control' | 'Meta' | 'Shift'>;
+  modifiers?: KeyModifier[];
   doubleClick?: boolean;
+  /** Skip the actionability checks and dispatch the events straight away */
+  force?: boolean;
+  /** Input backend, defaults to 'synthetic' */
+  input?: InputMode;
 }
 
 export interface TypeParams {
@@ -52,10 +79,25 @@ export interface TypeParams {
   slowly?: boolean;
   /** Human-readable element description */
   element?: string;
+  /** Skip the actionability checks and type straight away */
+  force?: boolean;
+  /** Input backend, defaults to 'synthetic' */
+  input?: InputMode;
 }
 
 export interface PressKeyParams {
+  /**
+   * Key, chord or sequence: "Enter", "a", "Control+Shift+K", or chords
+   * separated by spaces such as "Control+K Control+C". "Space" names the
+   * space bar inside a sequence.
+   */
   key: string;
+  /** Times to press the whole sequence, defaults to 1 */
+  repeat?: number;
+  /** How long to hold each chord down before releasing it, in ms */
+  holdMs?: number;
+  /** Input backend, defaults to 'synthetic' */
+  input?: InputMode;
 }
 
 export interface HoverParams {
@@ -63,6 +105,73 @@ export interface HoverParams {
   element?: string;
 }
 
+export interface DragParams {
+  /** Ref of the element to drag */
+  startRef: string;
+  /** Human-readable description of the element to drag */
+  startElement?: string;
+  /** Ref of the element to drop onto */
+  endRef?: string;
+  /** Human-readable description of the drop target */
+  endElement?: string;
+  /**
+   * Horizontal offset of the drop point in CSS pixels, from the center of
+   * endRef or, without endRef, from the center of the dragged element
+   */
+  offsetX?: number;
+  /** Vertical offset of the drop point, measured like offsetX */
+  offsetY?: number;
+  /** Pointer moves between the start and drop points, defaults to 5 */
+  steps?: number;
+  /** Skip the actionability checks on the dragged element */
+  force?: boolean;
+}
+
+/**
+ * Exactly one mode: ref (scroll an element into view), deltaX/deltaY,
+ * to, or untilNoNewContent. containerRef moves a scrollable element
+ * instead of the page.
+ */
+export interface ScrollParams {
+  /** Scroll this element into view */
+  ref?: string;
+  /** Scrollable container to scroll instead of the page */
+  containerRef?: string;
+  /** Pixels to scroll right (negative: left) */
+  deltaX?: number;
+  /** Pixels to scroll down (negative: up) */
+  deltaY?: number;
+  /** Jump to the start or end */
+  to?: 'top' | 'bottom';
+  /** Keep scrolling to the bottom until no new content loads (infinite feeds) */
+  untilNoNewContent?: boolean;
+  /** For untilNoNewContent: most times to scroll, defaults to 10 */
+  maxScrolls?: number;
+  /** For untilNoNewContent: how long to wait for new content after each scroll, defaults to 1000 ms */
+  waitMs?: number;
+}
+
+/**
+ * A mouse action at a viewport point rather than on a ref, for canvas, map
+ * and game UIs that expose no elements to target. Events go to the element
+ * at the point.
+ */
+export interface MouseParams {
+  /** move; click; down or up to press or release a button; wheel */
+  action: 'move' | 'click' | 'down' | 'up' | 'wheel';
+  /** Viewport coordinates in CSS pixels */
+  x: number;
+  y: number;
+  /** Button for click, down and up, defaults to left */
+  button?: 'left' | 'right' | 'middle';
+  modifiers?: KeyModifier[];
+  /** For click: clicks in a row, 2 for a double click, defaults to 1 */
+  clickCount?: number;
+  /** For wheel: pixels to scroll right and down (negative: left and up) */
+  deltaX?: number;
+  deltaY?: number;
+}
+
 export interface FillFormParams {
   fields: Array<{
     ref: string;
@@ -86,26 +195,112 @@ export interface EvaluateParams {
   element?: string;
 }
 
-/** At least one of text, textGone, or time must be provided */
-export type WaitForParams =
-  | { text: string; textGone?: undefined; time?: undefined }
-  | { text?: undefined; textGone: string; time?: undefined }
-  | { text?: undefined; textGone?: undefined; time: number }
-  | { text: string; time: number; textGone?: undefined }
-  | { textGone: string; time: number; text?: undefined };
+/**
+ * Conditions on the tab rather than its content, checked by the background
+ * script. With any of these, `time` is the overall timeout rather than a
+ * fixed wait.
+ */
+export interface WaitForPageConditions {
+  /** Milliseconds the tab must go without any request in flight */
+  networkIdle?: number;
+  /** URL the tab must reach: a `*` glob over the whole URL, or a substring */
+  url?: string;
+  loadState?: 'domcontentloaded' | 'load';
+}
+
+/**
+ * A condition on one element, found by CSS selector or snapshot ref.
+ * Without `state`, the element must be visible, or merely attached when
+ * `value` or `hasText` is given.
+ */
+export interface WaitForElementCondition {
+  selector?: string;
+  ref?: string;
+  state?: 'attached' | 'detached' | 'visible' | 'hidden' | 'enabled';
+  /** The element's form value must equal this */
+  value?: string;
+  /** The element's rendered text must contain this */
+  hasText?: string;
+}
+
+/** Text to wait for, or to wait for to disappear; at most one of the two */
+export type WaitForTextCondition =
+  | { text: string; textGone?: undefined }
+  | { text?: undefined; textGone: string }
+  | { text?: undefined; textGone?: undefined };
+
+/**
+ * Any mix of page, element and text conditions, all of which must be met
+ * within `time` seconds. At least one condition must be given; with none,
+ * `time` is a fixed wait.
+ */
+export type WaitForParams = WaitForPageConditions & WaitForElementCondition & WaitForTextCondition & {
+  time?: number;
+} & (
+  | { text: string }
+  | { textGone: string }
+  | { time: number }
+  // An element, by selector or ref
+  | { selector: string }
+  | { ref: string }
+  // The tab itself
+  | { url: string }
+  | { loadState: 'domcontentloaded' | 'load' }
+  | { networkIdle: number }
+);
 
 export interface TabsParams {
-  action: 'list' | 'new' | 'close' | 'select';
-  /** Tab index for close/select */
+  action: 'list' | 'new' | 'close' | 'select' | 'move' | 'list_windows' | 'focus_window';
+  /** Tab index for close/select, or the destination index for move (-1 = end) */
   index?: number;
+  /**
+   * Window to act in: scopes list and index lookups, receives new or moved
+   * tabs, and is the window raised by focus_window
+   */
+  windowId?: number;
+  /** For new/move: put the tab in a newly opened window */
+  newWindow?: boolean;
+}
+
+/** ARIA landmark roles a snapshot can be rooted at */
+export type LandmarkRole =
+  | 'banner'
+  | 'navigation'
+  | 'main'
+  | 'complementary'
+  | 'contentinfo'
+  | 'search'
+  | 'form'
+  | 'region';
+
+export interface SnapshotParams {
+  /** Return only what changed since the previous snapshot of the same page */
+  diff?: boolean;
+  /** Root the tree at this element ref (takes precedence over selector and landmark) */
+  ref?: string;
+  /** Root the tree at the first element matching this CSS selector */
+  selector?: string;
+  /** Root the tree at the first landmark with this role */
+  landmark?: LandmarkRole;
+  /** Maximum DOM depth to walk below the root */
+  maxDepth?: number;
+  /** Continue a truncated snapshot from the cursor it returned */
+  cursor?: string;
+  /** Elements to walk per page, for smaller pages than the default budget */
+  maxNodes?: number;
 }
 
 export interface ScreenshotParams {
   type?: 'png' | 'jpeg';
+  /** Capture the whole scrollable page instead of the viewport */
   fullPage?: boolean;
-  /** Optional element ref to screenshot */
+  /** Optional element ref to screenshot (takes precedence over fullPage) */
   ref?: string;
   element?: string;
+  /** Overlay numbered boxes on every snapshot ref and return a legend */
+  annotate?: boolean;
+  /** Internal: sent by the background script to remove the annotation overlay */
+  clearAnnotations?: boolean;
 }
 
 export interface ResizeParams {
@@ -131,8 +326,85 @@ export interface GetHistoryParams {
 }
 
 export interface NetworkRequestsParams {
-  action: 'start' | 'stop' | 'get' | 'clear';
+  action: 'start' | 'stop' | 'get' | 'clear' | 'detail' | 'export' | 'frames';
+  /**
+   * For get/export: URL substring to match. Further filters narrow the
+   * match; Command.tabId restricts it to one tab's requests.
+   */
   filter?: string;
+  method?: string;
+  /** webRequest resource type, e.g. 'xmlhttprequest' or 'script' */
+  resourceType?: string;
+  /** Inclusive status code range; requests without a response never match */
+  statusMin?: number;
+  statusMax?: number;
+  /** Only requests that hit a network error or got a 4xx/5xx response */
+  failedOnly?: boolean;
+  /** Window on when the request started, as ISO 8601 timestamps */
+  startTime?: string;
+  endTime?: string;
+  /** For get: page through the matching requests */
+  limit?: number;
+  offset?: number;
+  /** For frames: only frames sent by the page, or only frames it received */
+  direction?: 'sent' | 'received';
+  /** For export: file the MCP server writes the HAR to (ignored by the extension) */
+  path?: string;
+  /** For start: also record request and response bodies */
+  captureBodies?: boolean;
+  /** For detail: the request to show */
+  requestId?: string;
+}
+
+/** What an interception rule does to the requests it matches */
+export type InterceptBehavior = 'block' | 'redirect' | 'delay' | 'fulfill';
+
+export interface NetworkInterceptParams {
+  action: 'add' | 'list' | 'remove' | 'clear';
+  /**
+   * For add: URLs to match. A pattern containing `*` is a glob over the
+   * whole URL; anything else matches as a case-insensitive substring.
+   */
+  urlPattern?: string;
+  /** For add: only match this HTTP method */
+  method?: string;
+  behavior?: InterceptBehavior;
+  /** For redirect: where matching requests are sent instead */
+  redirectUrl?: string;
+  /** For delay: how long to hold each request before it is sent */
+  delayMs?: number;
+  /** For fulfill: body of the canned response */
+  body?: string;
+  /** For fulfill: Content-Type header of the canned response */
+  contentType?: string;
+  /** For fulfill: HTTP status of the canned response (default 200) */
+  status?: number;
+  /** For add: apply to every tab instead of only the target tab */
+  allTabs?: boolean;
+  /** For remove: the rule to delete */
+  ruleId?: string;
+}
+
+export interface NetworkHeadersParams {
+  action: 'add' | 'list' | 'remove' | 'clear';
+  /** For add: URLs whose requests are rewritten, matched like NetworkInterceptParams.urlPattern */
+  urlPattern?: string;
+  /** For add: headers to send, replacing any the request already has */
+  set?: Record<string, string>;
+  /** For add: names of headers to strip from the request */
+  removeHeaders?: string[];
+  /** For add: apply to every tab instead of only the target tab */
+  allTabs?: boolean;
+  /** For remove: the rule to delete */
+  ruleId?: string;
+}
+
+export type ConsoleLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+export interface ConsoleMessagesParams {
+  action: 'start' | 'stop' | 'get' | 'clear';
+  /** For get: only messages of this level */
+  level?: ConsoleLevel;
 }
 
 export interface SavePdfParams {
@@ -155,18 +427,31 @@ export type EmptyParams = Record<string, never>;
 
 interface CommandBase {
   id: string;
+  /**
+   * Broker session that issued the command. Stamped by the NM host from the
+   * IPC connection the command arrived on; absent for single-session setups.
+   */
+  sessionId?: string;
+  /**
+   * Stable browser tab ID (from browser_tabs list) to act on instead of the
+   * active tab. Lets an agent drive a background tab without stealing focus.
+   */
+  tabId?: number;
 }
 
 /** Command sent from MCP server to extension via native messaging */
 export type Command =
   | CommandBase & { action: 'navigate'; params: NavigateParams }
   | CommandBase & { action: 'navigate_back'; params: EmptyParams }
-  | CommandBase & { action: 'snapshot'; params: EmptyParams }
+  | CommandBase & { action: 'snapshot'; params: SnapshotParams }
   | CommandBase & { action: 'screenshot'; params: ScreenshotParams }
   | CommandBase & { action: 'click'; params: ClickParams }
   | CommandBase & { action: 'type'; params: TypeParams }
   | CommandBase & { action: 'press_key'; params: PressKeyParams }
   | CommandBase & { action: 'hover'; params: HoverParams }
+  | CommandBase & { action: 'drag'; params: DragParams }
+  | CommandBase & { action: 'scroll'; params: ScrollParams }
+  | CommandBase & { action: 'mouse'; params: MouseParams }
   | CommandBase & { action: 'fill_form'; params: FillFormParams }
   | CommandBase & { action: 'select_option'; params: SelectOptionParams }
   | CommandBase & { action: 'evaluate'; params: EvaluateParams }
@@ -178,6 +463,9 @@ export type Command =
   | CommandBase & { action: 'get_bookmarks'; params: GetBookmarksParams }
   | CommandBase & { action: 'get_history'; params: GetHistoryParams }
   | CommandBase & { action: 'network_requests'; params: NetworkRequestsParams }
+  | CommandBase & { action: 'network_intercept'; params: NetworkInterceptParams }
+  | CommandBase & { action: 'network_headers'; params: NetworkHeadersParams }
+  | CommandBase & { action: 'console_messages'; params: ConsoleMessagesParams }
   | CommandBase & { action: 'save_pdf'; params: SavePdfParams }
   | CommandBase & { action: 'page_content'; params: PageContentParams };
 
@@ -189,6 +477,81 @@ export interface CommandResponse {
   error?: string;
 }
 
+/**
+ * One piece of a CommandResponse too large for a single native message.
+ * The extension serializes the response to JSON and sends it in order as
+ * `total` chunks; the NM host concatenates `data` and parses the result
+ * before forwarding it over IPC.
+ */
+export interface ResponseChunk {
+  type: 'response-chunk';
+  /** ID of the command this response belongs to */
+  id: string;
+  /** Zero-based chunk position */
+  index: number;
+  total: number;
+  /** Slice of the serialized CommandResponse JSON */
+  data: string;
+}
+
+/** One step of OS-level input the NM host performs in trusted-input mode */
+export type NativeInputStep =
+  | {
+      kind: 'click';
+      /** Screen position in device pixels */
+      x: number;
+      y: number;
+      button: 'left' | 'right' | 'middle';
+      /** 2 for a double click */
+      count: number;
+      /** Modifier keys held during the click */
+      modifiers: KeyModifier[];
+    }
+  | {
+      kind: 'type';
+      text: string;
+      /** Pause between characters */
+      delayMs: number;
+    }
+  | (KeyChord & {
+      kind: 'key';
+      /** How long to hold the chord down; a plain press when omitted */
+      holdMs?: number;
+    });
+
+/**
+ * Sent by the extension to the NM host (not relayed to any MCP server) to
+ * have it perform real input on the focused Firefox window.
+ */
+export interface NativeInputRequest {
+  type: 'native-input';
+  id: string;
+  steps: NativeInputStep[];
+}
+
+/** NM host's answer to a NativeInputRequest */
+export interface NativeInputResponse {
+  type: 'native-input-result';
+  id: string;
+  success: boolean;
+  error?: string;
+  /**
+   * Set when the host has no way to deliver input on this system, so nothing
+   * was performed and the extension may fall back to synthetic events
+   */
+  unavailable?: boolean;
+}
+
+/**
+ * Sent by the NM host when a broker session's MCP server has gone away for
+ * good (shut down, or exited and left a dead socket). The extension closes
+ * the session's tabs and drops its interception and header rules.
+ */
+export interface SessionEndedMessage {
+  type: 'session-ended';
+  sessionId: string;
+}
+
 // ============================================================
 // Accessibility Tree — page representation for AI agents
 // ============================================================
@@ -199,7 +562,7 @@ export interface AccessibilityNode {
   role: string;
   /** Accessible name (text content, aria-label, alt text, etc.) */
   name: string;
-  /** Unique ref ID for interactive elements (e.g., "e1", "e2") */
+  /** Stable ref ID for interactive elements (e.g., "e1", "e2"), kept across snapshots */
   ref?: string;
   /** Current value for form elements */
   value?: string;
@@ -230,19 +593,123 @@ export interface NavigateResult {
   title: string;
 }
 
+export interface DragResult {
+  /** Element under the drop point, described as <tag#id.class> */
+  droppedOn: string;
+  /** Whether an HTML5 drag ran: the element was draggable and dragstart was not cancelled */
+  html5Drag: boolean;
+  /** For an HTML5 drag, whether the drop target accepted it by cancelling dragover */
+  dropAccepted?: boolean;
+}
+
+export interface ScrollResult {
+  /** Scroll offsets of the page or container afterwards, in CSS pixels */
+  scrollLeft: number;
+  scrollTop: number;
+  /** Full scrollable size of the page or container */
+  scrollWidth: number;
+  scrollHeight: number;
+  /** Whether the bottom has been reached */
+  atBottom: boolean;
+  /** Whether the content got taller or gained elements while scrolling */
+  contentGrew: boolean;
+  /** For untilNoNewContent: how many scrolls brought in new content */
+  loads?: number;
+}
+
+export interface MouseResult {
+  /** Element at the point that received the events, described as <tag#id.class> */
+  target: string;
+  /** Screenshot pixels per CSS pixel, for converting screenshot positions to x/y */
+  devicePixelRatio: number;
+  /** For wheel: whether the page was scrolled, false if the page handled the wheel itself */
+  scrolled?: boolean;
+}
+
+/** Result of click, type and press_key */
+export interface InteractionResult {
+  /** Backend that delivered the input */
+  input: InputMode;
+  /** Why trusted input was requested but synthetic events were used instead */
+  fallbackReason?: string;
+}
+
 export interface SnapshotResult {
-  tree: AccessibilityNode;
+  /** Full tree; omitted when a diff against the previous snapshot is returned */
+  tree?: AccessibilityNode;
   url: string;
   title: string;
+  /** Changes since the previous snapshot, present only in diff mode */
+  diff?: SnapshotChange[];
+  /** Description of the subtree root for scoped snapshots (e.g. 'landmark main') */
+  scope?: string;
+  /** Whether the tree stopped at the size budget; more is available via cursor */
+  truncated: boolean;
+  /** Pass back as the `cursor` param (with the same scope) to get the next page */
+  cursor?: string;
+  /** Elements walked for this page */
+  nodeCount: number;
+  /** Elements in the snapshot's scope, including hidden ones */
+  totalNodes: number;
+  /**
+   * Refs from the previous snapshot whose elements are gone or no longer
+   * shown. Refs are stable across snapshots, so every other ref still
+   * points at the same element.
+   */
+  retiredRefs?: string[];
+}
+
+/** One difference between two consecutive snapshots of a page */
+export interface SnapshotChange {
+  kind: 'added' | 'removed' | 'changed';
+  /** Labels of the ancestor nodes, outermost first (e.g. ['main', 'form "Login"']) */
+  path: string[];
+  /** The added or removed subtree, or the node's new properties for a change */
+  node: AccessibilityNode;
+  /** The node's properties before the change (changed only) */
+  previous?: AccessibilityNode;
 }
 
 export interface ScreenshotResult {
   /** Base64-encoded image data */
   data: string;
   mimeType: 'image/png' | 'image/jpeg';
+  /** Set when a full-page capture was clipped to the maximum capture size */
+  clipped?: boolean;
+  /** Label → ref mapping for annotated screenshots */
+  legend?: ScreenshotAnnotation[];
+}
+
+/** One numbered box drawn on an annotated screenshot */
+export interface ScreenshotAnnotation {
+  /** Number shown on the box in the image */
+  label: number;
+  ref: string;
+  role: string;
+  name: string;
+}
+
+/**
+ * Area of the document to capture, in CSS pixels relative to the top-left
+ * of the page. Measured by the content script for full-page and element
+ * screenshots.
+ */
+export interface ScreenshotRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Whether the region was reduced to fit the maximum capture size */
+  clipped: boolean;
+  /** Present when annotate was requested and the overlay is on the page */
+  legend?: ScreenshotAnnotation[];
 }
 
 export interface TabInfo {
+  /** Stable tab ID, valid for the lifetime of the tab */
+  id: number;
+  /** ID of the browser window the tab lives in */
+  windowId: number;
   index: number;
   title: string;
   url: string;
@@ -253,12 +720,31 @@ export interface TabsResult {
   tabs: TabInfo[];
 }
 
+export interface WindowInfo {
+  id: number;
+  focused: boolean;
+  incognito: boolean;
+  /** normal, popup, panel, devtools */
+  type: string;
+  /** normal, minimized, maximized, fullscreen */
+  state: string;
+  tabCount: number;
+  /** Title of the window's active tab */
+  activeTabTitle: string;
+}
+
+export interface WindowsResult {
+  windows: WindowInfo[];
+}
+
 export interface EvaluateResult {
   value: unknown;
 }
 
 export interface WaitForResult {
   matched: boolean;
+  /** The condition still unmet when the wait timed out */
+  timedOut?: 'url' | 'loadState' | 'networkIdle' | 'text' | 'element';
 }
 
 export interface CookieInfo {
@@ -298,22 +784,212 @@ export interface GetHistoryResult {
   items: HistoryItem[];
 }
 
+export interface HttpHeader {
+  name: string;
+  value: string;
+}
+
 export interface NetworkRequestInfo {
+  /** webRequest request ID, stable for the lifetime of the browser session */
+  requestId: string;
   url: string;
   method: string;
   statusCode: number;
+  /** HTTP status line, e.g. "HTTP/1.1 200 OK" */
+  statusLine?: string;
   type: string;
+  /** When the request started (ms since epoch) */
   timeStamp: number;
+  /** When the first response byte arrived */
+  responseStartTime?: number;
+  /** When the request completed or failed */
+  endTime?: number;
   tabId?: number;
   error?: string;
+  requestHeaders?: HttpHeader[];
+  responseHeaders?: HttpHeader[];
+  /** POST/PUT body as text (form data is URL-encoded) */
+  requestBody?: string;
+  requestBodyTruncated?: boolean;
+  responseBody?: string;
+  /** 'base64' when the response body is not UTF-8 text */
+  responseBodyEncoding?: 'text' | 'base64';
+  responseBodyTruncated?: boolean;
 }
 
 export interface NetworkRequestsResult {
+  /** Summaries for get (headers and bodies are omitted) */
   requests?: NetworkRequestInfo[];
+  /** For get: how many requests matched before limit/offset were applied */
+  total?: number;
+  /** For get: position of the first returned request among the matches */
+  offset?: number;
+  /** Full record for detail */
+  request?: NetworkRequestInfo;
+  /** HAR document for export, as built by the extension */
+  har?: HarDocument;
+  /** Where the MCP server wrote the exported HAR */
+  harPath?: string;
+  /** WebSocket and EventSource frames for the frames action */
+  frames?: SocketFrame[];
+  /** For frames: older frames discarded because the buffer was full */
+  framesDropped?: number;
   recording?: boolean;
   count?: number;
 }
 
+/** One WebSocket message or Server-Sent Event seen by the page */
+export interface SocketFrame {
+  /** Connection ID, unique within the page (e.g. "ws-1", "sse-2") */
+  connection: string;
+  protocol: 'websocket' | 'sse';
+  url: string;
+  direction: 'sent' | 'received';
+  /** Text payload, or a "[binary N bytes]" placeholder */
+  data: string;
+  binary?: boolean;
+  /** SSE event type, when it is not the default "message" */
+  event?: string;
+  /** When the frame was sent or received (ms since epoch) */
+  timestamp: number;
+}
+
+export interface InterceptRule {
+  id: string;
+  urlPattern: string;
+  method?: string;
+  behavior: InterceptBehavior;
+  redirectUrl?: string;
+  delayMs?: number;
+  body?: string;
+  contentType?: string;
+  status?: number;
+  /** Tab the rule is scoped to; absent when it applies to every tab */
+  tabId?: number;
+  /** How many requests the rule has intercepted */
+  hits: number;
+}
+
+export interface NetworkInterceptResult {
+  /** Rules still installed after the action */
+  rules: InterceptRule[];
+  /** The rule created by add */
+  added?: InterceptRule;
+  /** How many rules remove or clear deleted */
+  removed?: number;
+}
+
+export interface ConsoleMessage {
+  level: ConsoleLevel;
+  /**
+   * 'console' for console.* calls, 'exception' for uncaught errors,
+   * 'rejection' for unhandled promise rejections
+   */
+  kind: 'console' | 'exception' | 'rejection';
+  text: string;
+  /** Script location the message came from, when known */
+  url?: string;
+  line?: number;
+  column?: number;
+  /** When the message was logged (ms since epoch) */
+  timestamp: number;
+}
+
+export interface ConsoleMessagesResult {
+  /** Messages for get, oldest first */
+  messages?: ConsoleMessage[];
+  /** For get: older messages discarded because the buffer was full */
+  dropped?: number;
+  recording: boolean;
+  count?: number;
+}
+
+export interface HeaderRule {
+  id: string;
+  urlPattern: string;
+  /** Headers set on matching requests */
+  set: HttpHeader[];
+  /** Header names stripped from matching requests */
+  remove: string[];
+  /** Tab the rule is scoped to; absent when it applies to every tab */
+  tabId?: number;
+  /** How many requests the rule has rewritten */
+  hits: number;
+}
+
+export interface NetworkHeadersResult {
+  /** Rules still installed after the action */
+  rules: HeaderRule[];
+  /** The rule created by add */
+  added?: HeaderRule;
+  /** How many rules remove or clear deleted */
+  removed?: number;
+}
+
+// ============================================================
+// HAR 1.2 — http://www.softwareishard.com/blog/har-12-spec/
+// ============================================================
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: { mimeType: string; text: string };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: { size: number; mimeType: string; text?: string; encoding?: string };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  /** Total elapsed time in ms */
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: {
+    blocked: number;
+    dns: number;
+    connect: number;
+    send: number;
+    wait: number;
+    receive: number;
+    ssl: number;
+  };
+  /** Custom fields (underscore-prefixed per the spec) */
+  _resourceType?: string;
+  _tabId?: number;
+  _error?: string;
+}
+
+export interface HarDocument {
+  log: {
+    version: '1.2';
+    creator: { name: string; version: string };
+    browser?: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
 export interface SavePdfResult {
   saved: boolean;
   status: string;
@@ -329,12 +1005,21 @@ export interface PageContentResult {
 // IPC Types — communication between MCP server and NM host
 // ============================================================
 
+/** Handshake sent by the MCP server as soon as the NM host connects */
+export interface IpcHello {
+  /** Session ID in broker mode, null for the single-session default socket */
+  sessionId: string | null;
+}
+
 /** Message sent over the Unix socket between MCP server and NM host */
 export type IpcMessage =
+  | { type: 'hello'; payload: IpcHello }
   | { type: 'command'; payload: Command }
   | { type: 'response'; payload: CommandResponse }
   | { type: 'ping'; payload: null }
-  | { type: 'pong'; payload: null };
+  | { type: 'pong'; payload: null }
+  /** Sent by the MCP server as it shuts down, so its session can be cleaned up */
+  | { type: 'goodbye'; payload: null };
 
 // ============================================================
 // Extension Internal Messages — between background and content
@@ -355,3 +1040,17 @@ export interface ContentResponse {
   result?: unknown;
   error?: string;
 }
+
+/**
+ * Content script's result for a click, type or press_key asking for trusted
+ * input: the element has passed its checks and been readied (or the keys
+ * parsed), but no events were dispatched; the background has the NM host
+ * deliver the real input.
+ */
+export interface TrustedInputTarget {
+  /** Element center on screen in device pixels (click only) */
+  screenX?: number;
+  screenY?: number;
+  /** Parsed chords to press, repeats expanded (press_key only) */
+  chords?: KeyChord[];
+}